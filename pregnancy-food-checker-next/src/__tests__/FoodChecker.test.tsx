@@ -3,6 +3,7 @@
  */
 
 import React from 'react'
+import { TextDecoder, TextEncoder } from 'util'
 import { render, screen, waitFor } from '@testing-library/react'
 import userEvent from '@testing-library/user-event'
 import '@testing-library/jest-dom'
@@ -37,6 +38,9 @@ class MockFileReader {
 
 global.FileReader = MockFileReader as any
 
+// jsdom に無いため、イベントストリームの読み取りに使う TextDecoder を補う
+Object.assign(global, { TextDecoder })
+
 // navigatorのモック
 Object.defineProperty(global.navigator, 'userAgent', {
   value: 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36',
@@ -53,8 +57,12 @@ describe('FoodChecker Component', () => {
       ok: true,
       json: async () => ({
         success: true,
+        version: 2,
         result: {
           safe: true,
+          risk_level: 'safe',
+          detected_food: [],
+          foods: [],
           message: 'この食事は妊娠中でもリスクが低そうです',
           details: ''
         }
@@ -138,11 +146,17 @@ describe('FoodChecker Component', () => {
       ok: true,
       json: async () => ({
         success: true,
+        version: 2,
         result: {
           safe: false,
+          risk_level: 'avoid',
           message: 'リスクがある食品が含まれている可能性があります',
           detected_food: ['生ハム', '生卵'],
-          details: 'リステリア菌のリスクがあります。妊娠中は避けることをおすすめします。'
+          foods: [
+            { name: '生ハム', level: 'avoid', details: 'リステリア菌のリスクがあります。' },
+            { name: '生卵', level: 'caution', details: 'サルモネラ菌のリスクがあります。' }
+          ],
+          details: '生ハム: リステリア菌のリスクがあります。\n生卵: サルモネラ菌のリスクがあります。'
         }
       })
     })
@@ -168,6 +182,634 @@ describe('FoodChecker Component', () => {
     })
   })
 
+  test('リスク段階に応じた見出しが表示される', async () => {
+    mockFetch.mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        success: true,
+        version: 2,
+        result: {
+          safe: false,
+          risk_level: 'limit',
+          message: '食べる量や頻度に注意が必要な食品が含まれています',
+          detected_food: ['マグロ'],
+          foods: [{ name: 'マグロ', level: 'limit', details: '水銀を比較的多く含みます', source: '厚生労働省' }],
+          details: 'マグロ: 水銀を比較的多く含みます（出典: 厚生労働省）'
+        }
+      })
+    })
+
+    render(<FoodChecker />)
+
+    const file = new File(['test'], 'test.png', { type: 'image/png' })
+    const input = screen.getByLabelText('画像をアップロード') as HTMLInputElement
+
+    await user.upload(input, file)
+
+    await waitFor(() => {
+      expect(screen.getByText('チェック開始')).toBeEnabled()
+    })
+
+    await user.click(screen.getByText('チェック開始'))
+
+    await waitFor(() => {
+      expect(screen.getByText('量に注意が必要です')).toBeInTheDocument()
+      expect(screen.getByText('水銀を比較的多く含みます')).toBeInTheDocument()
+      expect(screen.getByText('出典: 厚生労働省')).toBeInTheDocument()
+    })
+  })
+
+  test('リスク低の判定でも認識した食品が段階付きで表示される', async () => {
+    mockFetch.mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        success: true,
+        version: 2,
+        result: {
+          safe: true,
+          risk_level: 'safe',
+          detected_food: [],
+          foods: [
+            { name: '白米', level: 'safe', details: '' },
+            { name: '焼き鮭', level: 'safe', details: '' }
+          ],
+          message: 'この食事は妊娠中でもリスクが低そうです',
+          details: ''
+        }
+      })
+    })
+
+    render(<FoodChecker />)
+
+    await user.click(screen.getByText('メニュー名でチェック'))
+    await user.type(screen.getByLabelText('料理名や食材名'), '鮭定食')
+    await user.click(screen.getByText('チェック開始'))
+
+    expect(await screen.findByText('認識した食品')).toBeInTheDocument()
+    expect(screen.getByText('白米')).toBeInTheDocument()
+    expect(screen.getByText('焼き鮭')).toBeInTheDocument()
+    // 見出しの「リスク低」に加え、食品ごとに表示される
+    expect(screen.getAllByText('リスク低')).toHaveLength(3)
+  })
+
+  test('注意が必要な食品が先に表示される', async () => {
+    mockFetch.mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        success: true,
+        version: 2,
+        result: {
+          safe: false,
+          risk_level: 'caution',
+          detected_food: ['温泉卵'],
+          foods: [
+            { name: 'うどん', level: 'safe', details: '' },
+            { name: '温泉卵', level: 'caution', details: '半熟の卵' }
+          ],
+          message: '十分に加熱されていない場合に注意が必要な食品が含まれています。',
+          details: '温泉卵: 半熟の卵'
+        }
+      })
+    })
+
+    render(<FoodChecker />)
+
+    await user.click(screen.getByText('メニュー名でチェック'))
+    await user.type(screen.getByLabelText('料理名や食材名'), '月見うどん')
+    await user.click(screen.getByText('チェック開始'))
+
+    const names = (await screen.findAllByText(/^(うどん|温泉卵)$/)).map(element => element.textContent)
+    expect(names).toEqual(['温泉卵', 'うどん'])
+    expect(screen.getByText('加熱に注意')).toBeInTheDocument()
+  })
+
+  test('食品名に「:」を含んでも食品名と説明が分かれて表示される', async () => {
+    mockFetch.mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        success: true,
+        version: 2,
+        result: {
+          safe: false,
+          risk_level: 'avoid',
+          message: 'リスクがある食品が含まれている可能性があります',
+          detected_food: ['ランチA: 生ハムのサンド'],
+          foods: [{ name: 'ランチA: 生ハムのサンド', level: 'avoid', details: 'リステリア菌のリスクがあります' }],
+          details: 'ランチA: 生ハムのサンド: リステリア菌のリスクがあります'
+        }
+      })
+    })
+
+    render(<FoodChecker />)
+
+    await user.click(screen.getByText('メニュー名でチェック'))
+    await user.type(screen.getByLabelText('料理名や食材名'), 'ランチA')
+    await user.click(screen.getByText('チェック開始'))
+
+    expect(await screen.findByText('ランチA: 生ハムのサンド')).toBeInTheDocument()
+    expect(screen.getByText('リステリア菌のリスクがあります')).toBeInTheDocument()
+  })
+
+  test('認識した食品名を修正して、画像を送らずに再チェックできる', async () => {
+    const okResponse = (result: Record<string, unknown>) => ({
+      ok: true,
+      json: async () => ({ success: true, version: 2, result })
+    })
+    mockFetch
+      .mockResolvedValueOnce(okResponse({
+        safe: false,
+        risk_level: 'caution',
+        detected_food: ['刺身'],
+        foods: [
+          { name: '刺身', level: 'caution', details: '生魚' },
+          { name: '白米', level: 'safe', details: '' }
+        ],
+        message: '十分に加熱されていない場合に注意が必要な食品が含まれています。',
+        details: '刺身: 生魚'
+      }))
+      .mockResolvedValueOnce(okResponse({
+        safe: true,
+        risk_level: 'safe',
+        detected_food: [],
+        foods: [
+          { name: '焼き魚', level: 'safe', details: '' },
+          { name: 'みそ汁', level: 'safe', details: '' }
+        ],
+        message: 'この食事は妊娠中でもリスクが低そうです',
+        details: ''
+      }))
+
+    render(<FoodChecker />)
+
+    await user.click(screen.getByText('メニュー名でチェック'))
+    await user.type(screen.getByLabelText('料理名や食材名'), '魚定食')
+    await user.click(screen.getByText('チェック開始'))
+    await user.click(await screen.findByText('食品名を修正'))
+
+    await user.clear(screen.getByLabelText('1番目の食品名'))
+    await user.type(screen.getByLabelText('1番目の食品名'), '焼き魚')
+    await user.click(screen.getByLabelText('白米を削除'))
+    await user.click(screen.getByText('食品を追加'))
+    await user.type(screen.getByLabelText('2番目の食品名'), 'みそ汁')
+    await user.click(screen.getByText('修正した内容で再チェック'))
+
+    expect(await screen.findByText('焼き魚')).toBeInTheDocument()
+    expect(mockFetch.mock.calls[1][0]).toBe('/api/analyze-text')
+    const body = JSON.parse(mockFetch.mock.calls[1][1].body)
+    expect(body.text).toEqual(['焼き魚', 'みそ汁'])
+    expect(body.previousFoods).toEqual([
+      { name: '刺身', level: 'caution', details: '生魚' },
+      { name: '白米', level: 'safe', details: '' }
+    ])
+    expect(body.images).toBeUndefined()
+    expect(screen.queryByText('修正した内容で再チェック')).not.toBeInTheDocument()
+  })
+
+  test('判定を信頼できない場合は「判定できませんでした」と撮り直しを促す', async () => {
+    mockFetch.mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        success: true,
+        version: 2,
+        result: {
+          safe: true,
+          risk_level: 'safe',
+          detected_food: [],
+          foods: [{ name: 'サラダ', level: 'safe', details: '', confidence: 0.3 }],
+          message: 'この食事は妊娠中でもリスクが低そうです',
+          details: '',
+          uncertain_reasons: ['low_confidence', 'blurry']
+        }
+      })
+    })
+
+    render(<FoodChecker />)
+
+    const file = new File(['test'], 'test.png', { type: 'image/png' })
+    await user.upload(screen.getByLabelText('画像をアップロード'), file)
+    await waitFor(() => expect(screen.getByText('チェック開始')).toBeEnabled())
+    await user.click(screen.getByText('チェック開始'))
+
+    expect(await screen.findByText('判定できませんでした')).toBeInTheDocument()
+    expect(screen.getByText(/写真がぼやけているようです。明るい場所でピントを合わせて/)).toBeInTheDocument()
+    expect(screen.queryByText('この食事は妊娠中でもリスクが低そうです')).not.toBeInTheDocument()
+    expect(screen.getByText('判別があいまい')).toBeInTheDocument()
+    expect(screen.getByText('写真を撮り直す')).toBeInTheDocument()
+  })
+
+  test('避けたほうがよい食品がある場合は、判定を信頼できなくてもその段階で表示し、あいまいさを補足する', async () => {
+    mockFetch.mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        success: true,
+        version: 2,
+        result: {
+          safe: false,
+          risk_level: 'avoid',
+          detected_food: ['生ハム'],
+          foods: [
+            { name: '生ハム', level: 'avoid', details: 'リステリア菌', confidence: 0.9 },
+            { name: 'サラダ', level: 'safe', details: '', confidence: 0.3 }
+          ],
+          message: 'リスクがある食品が含まれている可能性があります。詳細をご確認ください。',
+          details: '生ハム: リステリア菌',
+          uncertain_reasons: ['low_confidence']
+        }
+      })
+    })
+
+    render(<FoodChecker />)
+
+    const file = new File(['test'], 'test.png', { type: 'image/png' })
+    await user.upload(screen.getByLabelText('画像をアップロード'), file)
+    await waitFor(() => expect(screen.getByText('チェック開始')).toBeEnabled())
+    await user.click(screen.getByText('チェック開始'))
+
+    expect(await screen.findByText('避けたほうがよい食品があります')).toBeInTheDocument()
+    expect(screen.queryByText('判定できませんでした')).not.toBeInTheDocument()
+    expect(screen.getByText('リスクがある食品が含まれている可能性があります。詳細をご確認ください。')).toBeInTheDocument()
+    expect(screen.getByRole('note')).toHaveTextContent('写っている食品をはっきり見分けられませんでした。')
+    expect(screen.getByText('写真を撮り直す')).toBeInTheDocument()
+  })
+
+  test('写真の分析中は進み具合と見つかった食品が表示される', async () => {
+    const encoder = new TextEncoder()
+    const chunks = [
+      'event: stage\ndata: {"stage":"validated"}\n\nevent: stage\ndata: {"stage":"uploading"}\n\n',
+      'event: stage\ndata: {"stage":"retry","attempt":2,"reason":"unavailable"}\n\n' +
+        'event: food\ndata: {"name":"刺身","level":"caution","details":"生魚"}\n\n',
+      `event: done\ndata: ${JSON.stringify({
+        success: true,
+        version: 2,
+        result: {
+          safe: false,
+          risk_level: 'caution',
+          detected_food: ['刺身'],
+          foods: [{ name: '刺身', level: 'caution', details: '生魚' }],
+          message: '十分に加熱されていない場合に注意が必要な食品が含まれています。',
+          details: '刺身: 生魚'
+        }
+      })}\n\n`
+    ]
+    // 最後のチャンクは、途中の表示を確かめてから届ける
+    let releaseLast: () => void = () => {}
+    const lastChunkArrived = new Promise<void>(resolve => { releaseLast = resolve })
+    let index = 0
+    mockFetch.mockResolvedValue({
+      ok: true,
+      headers: { get: (name: string) => name === 'Content-Type' ? 'text/event-stream; charset=utf-8' : null },
+      body: {
+        getReader: () => ({
+          read: async () => {
+            if (index === chunks.length - 1) await lastChunkArrived
+            return index < chunks.length ? { done: false, value: encoder.encode(chunks[index++]) } : { done: true }
+          }
+        })
+      }
+    })
+
+    render(<FoodChecker />)
+
+    const file = new File(['test'], 'test.png', { type: 'image/png' })
+    await user.upload(screen.getByLabelText('画像をアップロード'), file)
+    await waitFor(() => expect(screen.getByText('チェック開始')).toBeEnabled())
+    await user.click(screen.getByText('チェック開始'))
+
+    expect(await screen.findByText('混み合っているため再試行しています（2回目）')).toBeInTheDocument()
+    expect(screen.getByText('写真を確認しました')).toBeInTheDocument()
+    expect(screen.getByText('刺身（加熱に注意）')).toBeInTheDocument()
+    expect(mockFetch.mock.calls[0][1].headers.Accept).toContain('text/event-stream')
+
+    releaseLast()
+    expect(await screen.findByText('加熱状態に注意してください')).toBeInTheDocument()
+    expect(screen.getByText('生魚')).toBeInTheDocument()
+  })
+
+  test('APIの型のバージョンが異なる場合は再読み込みを促す', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+    mockFetch.mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        success: true,
+        version: 1,
+        result: { safe: true, risk_level: 'safe', detected_food: [], foods: [], message: 'リスクは低そうです', details: '' }
+      })
+    })
+
+    render(<FoodChecker />)
+
+    await user.click(screen.getByText('メニュー名でチェック'))
+    await user.type(screen.getByLabelText('料理名や食材名'), 'うどん')
+    await user.click(screen.getByText('チェック開始'))
+
+    expect(await screen.findByText('アプリが更新されました。ページを再読み込みしてください。')).toBeInTheDocument()
+  })
+
+  test('妊娠週数を設定すると記憶されリクエストに含まれる', async () => {
+    window.localStorage.clear()
+    render(<FoodChecker />)
+
+    await user.selectOptions(screen.getByLabelText('妊娠週数'), '10')
+    expect(JSON.parse(window.localStorage.getItem('pregnancyWeek')!).week).toBe(10)
+
+    const file = new File(['test'], 'test.png', { type: 'image/png' })
+    await user.upload(screen.getByLabelText('画像をアップロード'), file)
+
+    await waitFor(() => {
+      expect(screen.getByText('チェック開始')).toBeEnabled()
+    })
+
+    await user.click(screen.getByText('チェック開始'))
+
+    await waitFor(() => {
+      expect(mockFetch).toHaveBeenCalled()
+    })
+    expect(JSON.parse(mockFetch.mock.calls[0][1].body).pregnancyWeek).toBe(10)
+  })
+
+  test('複数枚の写真をまとめて送信できる', async () => {
+    render(<FoodChecker />)
+
+    const files = [
+      new File(['main'], 'main.png', { type: 'image/png' }),
+      new File(['side'], 'side.png', { type: 'image/png' })
+    ]
+    await user.upload(screen.getByLabelText('画像をアップロード'), files)
+
+    await waitFor(() => {
+      expect(screen.getByText((content) => content.startsWith('2/4枚'))).toBeInTheDocument()
+    })
+
+    await user.click(screen.getByLabelText('1枚目の画像を削除'))
+    await user.upload(screen.getByLabelText('画像をアップロード'), files[0])
+
+    await waitFor(() => {
+      expect(screen.getByText((content) => content.startsWith('2/4枚'))).toBeInTheDocument()
+    })
+
+    await user.click(screen.getByText('チェック開始'))
+
+    await waitFor(() => {
+      expect(mockFetch).toHaveBeenCalled()
+    })
+    expect(JSON.parse(mockFetch.mock.calls[0][1].body).images).toHaveLength(2)
+  })
+
+  test('メニュー名を入力してチェックできる', async () => {
+    render(<FoodChecker />)
+
+    await user.click(screen.getByText('メニュー名でチェック'))
+    expect(screen.queryByText('📁 ファイルから選択')).not.toBeInTheDocument()
+    expect(screen.getByText('チェック開始')).toBeDisabled()
+
+    await user.type(screen.getByLabelText('料理名や食材名'), '生ハムサラダ')
+    await user.click(screen.getByText('チェック開始'))
+
+    await waitFor(() => {
+      expect(screen.getByText('別の料理をチェック')).toBeInTheDocument()
+    })
+    expect(mockFetch.mock.calls[0][0]).toBe('/api/analyze-text')
+    expect(JSON.parse(mockFetch.mock.calls[0][1].body).text).toBe('生ハムサラダ')
+  })
+
+  test('チェックした結果が端末の履歴に残り、開き直したり削除したりできる', async () => {
+    mockFetch.mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        success: true,
+        version: 2,
+        result: {
+          safe: false,
+          risk_level: 'avoid',
+          detected_food: ['生ハム'],
+          foods: [{ name: '生ハム', level: 'avoid', details: 'リステリア菌' }],
+          message: '妊娠中は避けたほうがよい食品が含まれています。',
+          details: '生ハム: リステリア菌'
+        }
+      })
+    })
+
+    render(<FoodChecker />)
+
+    await user.click(screen.getByText('メニュー名でチェック'))
+    await user.type(screen.getByLabelText('料理名や食材名'), '生ハムサラダ')
+    await user.click(screen.getByText('チェック開始'))
+    await user.click(await screen.findByText('別の料理をチェック'))
+    await user.click(screen.getByText('これまでのチェック'))
+
+    expect(await screen.findByText('生ハム')).toBeInTheDocument()
+    expect(screen.getByText(/この端末の中にのみ保存され/)).toBeInTheDocument()
+
+    // 履歴から開いた結果は、分析した直後と同じ画面で表示する
+    await user.click(screen.getByLabelText(/の結果を開く$/))
+    expect(screen.getByText('避けたほうがよい食品があります')).toBeInTheDocument()
+    expect(screen.getByText('生ハムサラダ')).toBeInTheDocument()
+
+    await user.click(screen.getByText('履歴に戻る'))
+    await user.click(await screen.findByLabelText(/の履歴を削除$/))
+
+    expect(await screen.findByText('まだ履歴はありません')).toBeInTheDocument()
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+  })
+
+  test('量に注意が必要な食品は食べた量を記録でき、目安に近づくと知らせる', async () => {
+    window.localStorage.clear()
+    mockFetch.mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        success: true,
+        version: 2,
+        result: {
+          safe: false,
+          risk_level: 'limit',
+          detected_food: ['カフェラテ'],
+          foods: [{ name: 'カフェラテ', level: 'limit', details: 'カフェイン' }],
+          message: '食べる量や頻度に注意が必要な食品が含まれています。',
+          details: 'カフェラテ: カフェイン'
+        }
+      })
+    })
+
+    render(<FoodChecker />)
+
+    await user.click(screen.getByText('メニュー名でチェック'))
+    await user.type(screen.getByLabelText('料理名や食材名'), 'カフェラテ')
+    await user.click(screen.getByText('チェック開始'))
+    await user.click(await screen.findByLabelText('カフェラテを食べたので記録'))
+
+    expect(screen.getByText('1/2杯')).toBeInTheDocument()
+    expect(screen.getByText(/今日はカフェインを1杯記録しています。目安（2杯）に近づいています。/)).toBeInTheDocument()
+    expect(JSON.parse(window.localStorage.getItem('intakeLog')!)).toHaveLength(1)
+
+    // 記録は端末に残り、チェック画面にも表示する
+    await user.click(screen.getByText('別の料理をチェック'))
+    expect(screen.getByText('カフェイン（今日）')).toBeInTheDocument()
+    window.localStorage.clear()
+  })
+
+  test('アレルギーを設定すると送信され、該当する食品が妊娠中のリスクとは別に表示される', async () => {
+    window.localStorage.clear()
+    mockFetch.mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        success: true,
+        version: 2,
+        result: {
+          safe: true,
+          risk_level: 'safe',
+          detected_food: [],
+          foods: [
+            { name: 'エビフライ', level: 'safe', details: '', allergens: ['shrimp'] },
+            { name: 'キャベツ', level: 'safe', details: '' }
+          ],
+          message: 'この食事は妊娠中でもリスクが低そうです',
+          details: ''
+        }
+      })
+    })
+
+    render(<FoodChecker />)
+
+    await user.click(screen.getByText(/アレルギー・持病（未設定）/))
+    await user.click(screen.getByLabelText('えび'))
+    expect(screen.getByText('アレルギー・持病（えび）')).toBeInTheDocument()
+
+    await user.click(screen.getByText('メニュー名でチェック'))
+    await user.type(screen.getByLabelText('料理名や食材名'), 'エビフライ定食')
+    await user.click(screen.getByText('チェック開始'))
+
+    expect(await screen.findByText('アレルギーの注意')).toBeInTheDocument()
+    expect(screen.getByRole('alert')).toHaveTextContent('エビフライえび')
+    expect(screen.getByText('リスク低', { selector: 'h2' })).toBeInTheDocument()
+    expect(JSON.parse(mockFetch.mock.calls[0][1].body).profile).toEqual({ allergens: ['shrimp'], conditions: [] })
+    window.localStorage.clear()
+  })
+
+  test('妊娠糖尿病を設定すると、食事の炭水化物の合計と目安が表示される', async () => {
+    window.localStorage.clear()
+    mockFetch.mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        success: true,
+        version: 2,
+        result: {
+          safe: true,
+          risk_level: 'safe',
+          detected_food: [],
+          foods: [
+            { name: 'ラーメン', level: 'safe', details: '', carbs_g: 70, sugar_g: 2 },
+            { name: '餃子', level: 'safe', details: '', carbs_g: 15, sugar_g: 1 }
+          ],
+          carbohydrate: { carbs_g: 85, sugar_g: 3, band: 'high' },
+          message: 'この食事は妊娠中でもリスクが低そうです',
+          details: ''
+        }
+      })
+    })
+
+    render(<FoodChecker />)
+
+    await user.click(screen.getByText(/アレルギー・持病（未設定）/))
+    await user.click(screen.getByLabelText('妊娠糖尿病'))
+    await user.click(screen.getByText('メニュー名でチェック'))
+    await user.type(screen.getByLabelText('料理名や食材名'), 'ラーメン餃子セット')
+    await user.click(screen.getByText('チェック開始'))
+
+    expect(await screen.findByText('炭水化物の目安')).toBeInTheDocument()
+    expect(screen.getByText('約85g')).toBeInTheDocument()
+    expect(screen.getByText('多め')).toBeInTheDocument()
+    expect(screen.getByText(/1食の目安より多めです/)).toBeInTheDocument()
+    expect(screen.getByText('約70g')).toBeInTheDocument()
+    expect(JSON.parse(mockFetch.mock.calls[0][1].body).profile).toEqual({ allergens: [], conditions: ['gestational_diabetes'] })
+    window.localStorage.clear()
+  })
+
+  test('レート制限に達すると残り時間が表示され、チェックできなくなる', async () => {
+    const headers: Record<string, string> = {
+      'RateLimit-Limit': '10',
+      'RateLimit-Remaining': '0',
+      'RateLimit-Reset': '754',
+      'Retry-After': '754'
+    }
+    mockFetch.mockResolvedValue({
+      ok: false,
+      status: 429,
+      headers: { get: (name: string) => headers[name] ?? null },
+      json: async () => ({ error: 'リクエスト制限に達しました。しばらく時間をおいてからお試しください。' })
+    })
+
+    render(<FoodChecker />)
+
+    await user.click(screen.getByText('メニュー名でチェック'))
+    await user.type(screen.getByLabelText('料理名や食材名'), 'うどん')
+    await user.click(screen.getByText('チェック開始'))
+
+    const alert = await screen.findByRole('alert')
+    expect(alert).toHaveTextContent('利用制限に達しました')
+    expect(alert).toHaveTextContent('あと 12分34秒 で再度チェックできます')
+    expect(screen.getByText('チェック開始')).toBeDisabled()
+    expect(screen.queryByText('分析中にエラーが発生しました。もう一度お試しください。')).not.toBeInTheDocument()
+  })
+
+  test('全体の利用上限に達した場合はその旨が表示される', async () => {
+    mockFetch.mockResolvedValue({
+      ok: false,
+      status: 503,
+      json: async () => ({ error: '本日の上限に達しました。明日またお試しください。', quotaExceeded: true })
+    })
+
+    render(<FoodChecker />)
+
+    await user.click(screen.getByText('メニュー名でチェック'))
+    await user.type(screen.getByLabelText('料理名や食材名'), 'うどん')
+    await user.click(screen.getByText('チェック開始'))
+
+    expect(await screen.findByText('本日の上限に達しました。明日またお試しください。')).toBeInTheDocument()
+  })
+
+  test('入力の誤りはサーバーのメッセージが表示される', async () => {
+    mockFetch.mockResolvedValue({
+      ok: false,
+      status: 400,
+      json: async () => ({ error: '2枚目の画像: 画像サイズが大きすぎます（最大5MB）' })
+    })
+
+    render(<FoodChecker />)
+
+    await user.click(screen.getByText('メニュー名でチェック'))
+    await user.type(screen.getByLabelText('料理名や食材名'), 'うどん')
+    await user.click(screen.getByText('チェック開始'))
+
+    expect(await screen.findByText('2枚目の画像: 画像サイズが大きすぎます（最大5MB）')).toBeInTheDocument()
+    expect(screen.queryByText('分析中にエラーが発生しました。もう一度お試しください。')).not.toBeInTheDocument()
+  })
+
+  test('チェック後は残り回数が表示される', async () => {
+    const headers: Record<string, string> = {
+      'RateLimit-Limit': '10',
+      'RateLimit-Remaining': '7',
+      'RateLimit-Reset': '1800'
+    }
+    mockFetch.mockResolvedValue({
+      ok: true,
+      headers: { get: (name: string) => headers[name] ?? null },
+      json: async () => ({
+        success: true,
+        version: 2,
+        result: { safe: true, risk_level: 'safe', detected_food: [], foods: [], message: 'リスクは低そうです', details: '' }
+      })
+    })
+
+    render(<FoodChecker />)
+
+    await user.click(screen.getByText('メニュー名でチェック'))
+    await user.type(screen.getByLabelText('料理名や食材名'), 'うどん')
+    await user.click(screen.getByText('チェック開始'))
+    await user.click(await screen.findByText('別の料理をチェック'))
+
+    expect(screen.getByText((content) => content.startsWith('あと 7 回チェックできます'))).toBeInTheDocument()
+  })
+
   test('レート制限エラーが適切に表示される', async () => {
     mockFetch.mockResolvedValue({
       ok: false,
@@ -0,0 +1,133 @@
+/**
+ * 分析結果のキャッシュのテスト
+ */
+
+import {
+  createAnalysisCache,
+  createMemoryAnalysisCacheStore,
+  createRedisAnalysisCacheStore,
+  getAnalysisCacheTtlMs
+} from '../lib/analysis-cache'
+
+const HASH = 'dhash:0f0f0f0f0f0f0f0f'
+// 3ビット違い（再圧縮程度）
+const NEAR_HASH = 'dhash:0f0f0f0f0f0f0f08'
+// 全く違う画像
+const OTHER_HASH = 'dhash:f0f0f0f0f0f0f0f0'
+
+const result = { safe: true, risk_level: 'safe', detected_food: ['ごはん'] }
+
+describe('Analysis Cache', () => {
+  let now: number
+
+  beforeEach(() => {
+    now = Date.UTC(2026, 9, 19)
+    jest.spyOn(Date, 'now').mockImplementation(() => now)
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  const createCache = (ttlMs = 60_000) =>
+    createAnalysisCache<typeof result>({ store: createMemoryAnalysisCacheStore(), ttlMs })
+
+  describe('あるべき挙動', () => {
+    test('ほぼ同じ画像には保存済みの結果を返す', async () => {
+      const cache = createCache()
+
+      await cache.save({ hashes: [HASH], context: 'gemini:v1:none' }, result)
+
+      expect(await cache.find({ hashes: [HASH], context: 'gemini:v1:none' })).toEqual(result)
+      expect(await cache.find({ hashes: [NEAR_HASH], context: 'gemini:v1:none' })).toEqual(result)
+      expect(await cache.find({ hashes: [OTHER_HASH], context: 'gemini:v1:none' })).toBeNull()
+    })
+
+    test('妊娠週数などの条件が異なれば別の結果として扱う', async () => {
+      const cache = createCache()
+
+      await cache.save({ hashes: [HASH], context: 'gemini:v1:12' }, result)
+
+      expect(await cache.find({ hashes: [HASH], context: 'gemini:v1:30' })).toBeNull()
+    })
+
+    test('複数枚の場合はすべての画像がほぼ同じときだけ一致する', async () => {
+      const cache = createCache()
+
+      await cache.save({ hashes: [HASH, OTHER_HASH], context: 'gemini:v1:none' }, result)
+
+      expect(await cache.find({ hashes: [NEAR_HASH, OTHER_HASH], context: 'gemini:v1:none' })).toEqual(result)
+      expect(await cache.find({ hashes: [HASH, HASH], context: 'gemini:v1:none' })).toBeNull()
+      expect(await cache.find({ hashes: [HASH], context: 'gemini:v1:none' })).toBeNull()
+    })
+
+    test('SHA-256のハッシュは完全に一致する場合だけ返す', async () => {
+      const cache = createCache()
+      const sha = `sha256:${'a'.repeat(64)}`
+
+      await cache.save({ hashes: [sha], context: 'gemini:v1:none' }, result)
+
+      expect(await cache.find({ hashes: [sha], context: 'gemini:v1:none' })).toEqual(result)
+      expect(await cache.find({ hashes: [`sha256:${'b'.repeat(64)}`], context: 'gemini:v1:none' })).toBeNull()
+    })
+
+    test('有効期間を過ぎた結果は返さない', async () => {
+      const cache = createCache(60_000)
+
+      await cache.save({ hashes: [HASH], context: 'gemini:v1:none' }, result)
+      now += 60_001
+
+      expect(await cache.find({ hashes: [HASH], context: 'gemini:v1:none' })).toBeNull()
+    })
+
+    test('有効期間が0なら保存も検索もしない', async () => {
+      const store = createMemoryAnalysisCacheStore()
+      const setSpy = jest.spyOn(store, 'set')
+      const cache = createAnalysisCache({ store, ttlMs: 0 })
+
+      await cache.save({ hashes: [HASH], context: 'gemini:v1:none' }, result)
+
+      expect(cache.enabled).toBe(false)
+      expect(setSpy).not.toHaveBeenCalled()
+      expect(await cache.find({ hashes: [HASH], context: 'gemini:v1:none' })).toBeNull()
+    })
+  })
+
+  describe('エラーケース', () => {
+    test('壊れた値が保存されていても失敗しない', async () => {
+      const store = { get: jest.fn().mockResolvedValue('{broken'), set: jest.fn().mockResolvedValue(undefined) }
+      const cache = createAnalysisCache({ store, ttlMs: 60_000 })
+
+      expect(await cache.find({ hashes: [HASH], context: 'gemini:v1:none' })).toBeNull()
+      await cache.save({ hashes: [HASH], context: 'gemini:v1:none' }, result)
+      expect(store.set).toHaveBeenCalled()
+    })
+  })
+
+  describe('Redisストア', () => {
+    test('値は有効期間付きで保存される', async () => {
+      const client = { sendCommand: jest.fn().mockResolvedValue('OK') }
+      const store = createRedisAnalysisCacheStore(client)
+
+      await store.set('analysis-cache:key', '[]', 60_000)
+
+      expect(client.sendCommand).toHaveBeenCalledWith(['SET', 'analysis-cache:key', '[]', 'PX', '60000'])
+    })
+
+    test('未作成のキーは null として読み取られる', async () => {
+      const client = { sendCommand: jest.fn().mockResolvedValue(null) }
+
+      expect(await createRedisAnalysisCacheStore(client).get('analysis-cache:key')).toBeNull()
+      expect(client.sendCommand).toHaveBeenCalledWith(['GET', 'analysis-cache:key'])
+    })
+  })
+
+  describe('getAnalysisCacheTtlMs', () => {
+    test('環境変数から有効期間を読み取り、未設定・不正な値は1日にする', () => {
+      expect(getAnalysisCacheTtlMs({ ANALYSIS_CACHE_TTL_SECONDS: '600' })).toBe(600_000)
+      expect(getAnalysisCacheTtlMs({ ANALYSIS_CACHE_TTL_SECONDS: '0' })).toBe(0)
+      expect(getAnalysisCacheTtlMs({ ANALYSIS_CACHE_TTL_SECONDS: 'forever' })).toBe(24 * 60 * 60 * 1000)
+      expect(getAnalysisCacheTtlMs({})).toBe(24 * 60 * 60 * 1000)
+    })
+  })
+})
@@ -0,0 +1,137 @@
+/**
+ * 端末に保存する分析の履歴のテスト
+ */
+
+import {
+  createAnalysisHistory,
+  createHistoryEntry,
+  createMemoryHistoryStore,
+  HistoryEntry,
+  HistoryStore,
+  selectEntriesToPrune
+} from '../lib/analysis-history'
+import { AnalysisResult } from '../lib/api-contract'
+
+const RESULT: AnalysisResult = {
+  safe: false,
+  risk_level: 'avoid',
+  detected_food: ['生ハム'],
+  foods: [{ name: '生ハム', level: 'avoid', details: 'リステリア菌' }],
+  message: '妊娠中は避けたほうがよい食品が含まれています。',
+  details: '生ハム: リステリア菌'
+}
+
+const createEntry = (createdAt: number, text = `メニュー${createdAt}`): HistoryEntry =>
+  createHistoryEntry({ mode: 'text', thumbnails: [], text, result: RESULT }, createdAt)
+
+const quotaExceededError = () => Object.assign(new Error('The quota has been exceeded.'), { name: 'QuotaExceededError' })
+
+describe('分析の履歴', () => {
+  describe('あるべき挙動', () => {
+    test('保存した履歴を新しい順に返す', async () => {
+      const history = createAnalysisHistory({ store: createMemoryHistoryStore(), estimateStorage: async () => ({}) })
+
+      await history.save(createEntry(1000))
+      await history.save(createEntry(3000))
+      await history.save(createEntry(2000))
+
+      expect((await history.list()).map(entry => entry.createdAt)).toEqual([3000, 2000, 1000])
+    })
+
+    test('同じIDで保存すると履歴を置き換える', async () => {
+      const history = createAnalysisHistory({ store: createMemoryHistoryStore(), estimateStorage: async () => ({}) })
+      const entry = createEntry(1000)
+
+      await history.save(entry)
+      await history.save({ ...entry, text: '修正したメニュー' })
+
+      expect(await history.list()).toEqual([{ ...entry, text: '修正したメニュー' }])
+    })
+
+    test('件数の上限を超えると古い履歴から削除する', async () => {
+      const history = createAnalysisHistory({ store: createMemoryHistoryStore(), maxEntries: 2, estimateStorage: async () => ({}) })
+
+      for (const createdAt of [1000, 2000, 3000]) {
+        await history.save(createEntry(createdAt))
+      }
+
+      expect((await history.list()).map(entry => entry.createdAt)).toEqual([3000, 2000])
+    })
+
+    test('端末の容量を使いすぎている場合は、超えた分だけ古い履歴から削除する', async () => {
+      let usage = 0
+      const history = createAnalysisHistory({ store: createMemoryHistoryStore(), estimateStorage: async () => ({ usage, quota: 1000 }) })
+
+      await history.save(createEntry(1000))
+      await history.save(createEntry(2000))
+      // 上限（80%）を1バイトだけ超える
+      usage = 801
+      await history.save(createEntry(3000))
+
+      expect((await history.list()).map(entry => entry.createdAt)).toEqual([3000, 2000])
+    })
+
+    test('容量不足で保存できない場合は、古い履歴を半分削除して保存し直す', async () => {
+      const store = createMemoryHistoryStore()
+      for (const createdAt of [1000, 2000, 3000, 4000]) {
+        await store.put(createEntry(createdAt))
+      }
+      const put = store.put
+      const failingStore: HistoryStore = {
+        ...store,
+        put: jest.fn().mockRejectedValueOnce(quotaExceededError()).mockImplementation(put)
+      }
+      const history = createAnalysisHistory({ store: failingStore, estimateStorage: async () => ({}) })
+
+      expect(await history.save(createEntry(5000))).toBe(true)
+      expect((await history.list()).map(entry => entry.createdAt)).toEqual([5000, 4000, 3000])
+    })
+
+    test('1件ずつ、またはすべての履歴を削除できる', async () => {
+      const history = createAnalysisHistory({ store: createMemoryHistoryStore(), estimateStorage: async () => ({}) })
+      const first = createEntry(1000)
+      await history.save(first)
+      await history.save(createEntry(2000))
+
+      await history.remove(first.id)
+      expect((await history.list()).map(entry => entry.createdAt)).toEqual([2000])
+
+      await history.clear()
+      expect(await history.list()).toEqual([])
+    })
+
+    test('削除する履歴を選ぶときは最新の履歴を残す', () => {
+      const entries = [createEntry(3000), createEntry(2000), createEntry(1000)]
+
+      expect(selectEntriesToPrune(entries, { maxEntries: 0, bytesToFree: Infinity })).toEqual([entries[2].id, entries[1].id])
+      expect(selectEntriesToPrune(entries, { maxEntries: 3, bytesToFree: 0 })).toEqual([])
+    })
+  })
+
+  describe('エラーケース', () => {
+    test('保存できない場合は false を返し、例外を投げない', async () => {
+      jest.spyOn(console, 'warn').mockImplementation(() => {})
+      const store: HistoryStore = {
+        ...createMemoryHistoryStore(),
+        put: jest.fn().mockRejectedValue(quotaExceededError())
+      }
+      const history = createAnalysisHistory({ store, estimateStorage: async () => ({}) })
+
+      expect(await history.save(createEntry(1000))).toBe(false)
+      jest.restoreAllMocks()
+    })
+
+    test('容量を確認できない場合は件数の上限だけで削除する', async () => {
+      const history = createAnalysisHistory({
+        store: createMemoryHistoryStore(),
+        maxEntries: 1,
+        estimateStorage: () => Promise.reject(new Error('not supported'))
+      })
+
+      await history.save(createEntry(1000))
+      await history.save(createEntry(2000))
+
+      expect((await history.list()).map(entry => entry.createdAt)).toEqual([2000])
+    })
+  })
+})
@@ -0,0 +1,51 @@
+/**
+ * API Route /api/admin/usage のテスト
+ */
+
+import { GET } from '../app/api/admin/usage/route'
+import { usageQuota } from '../lib/request-guard'
+
+const createMockRequest = (authorization?: string) => ({
+  headers: {
+    get: (key: string) => (key.toLowerCase() === 'authorization' ? authorization ?? null : null)
+  },
+  method: 'GET'
+} as any)
+
+const basicAuth = (username: string, password: string) => `Basic ${Buffer.from(`${username}:${password}`).toString('base64')}`
+
+describe('API Route: /api/admin/usage', () => {
+  beforeEach(() => {
+    ;(process.env as any).API_USERNAME = 'admin'
+    ;(process.env as any).API_PASSWORD = 'secret'
+  })
+
+  afterEach(() => {
+    delete (process.env as any).API_USERNAME
+    delete (process.env as any).API_PASSWORD
+    jest.restoreAllMocks()
+  })
+
+  test('認証すると今日・今月の利用量が返される', async () => {
+    await (await usageQuota.reserve()).commit(1500)
+
+    const response = await GET(createMockRequest(basicAuth('admin', 'secret')))
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.usage.day).toMatchObject({ requests: 1, tokens: 1500, requestCap: null, tokenCap: null })
+    expect(data.usage.month).toMatchObject({ requests: 1, tokens: 1500 })
+  })
+
+  test('認証情報が無い・誤っている場合は401になる', async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {})
+
+    const missing = await GET(createMockRequest())
+    const wrong = await GET(createMockRequest(basicAuth('admin', 'wrong')))
+
+    expect(missing.status).toBe(401)
+    expect(missing.headers.get('www-authenticate')).toContain('Basic')
+    expect(wrong.status).toBe(401)
+    expect((await wrong.json()).usage).toBeUndefined()
+  })
+})
@@ -0,0 +1,183 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * API Route /api/analyze の分析結果キャッシュのテスト
+ */
+
+import sharp from 'sharp'
+import { POST } from '../app/api/analyze/route'
+import { analyzeLimiter } from '../lib/request-guard'
+import * as imageHash from '../lib/image-hash'
+
+const createMockRequest = (body: Record<string, unknown>, ip: string) => {
+  const headers = new Map([
+    ['x-forwarded-for', ip],
+    ['user-agent', 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 Safari/604.1'],
+    ['content-type', 'application/json']
+  ])
+
+  return {
+    headers: {
+      get: (key: string) => headers.get(key.toLowerCase()) || null
+    },
+    method: 'POST',
+    json: async () => body
+  } as any
+}
+
+const mockFetch = jest.fn()
+global.fetch = mockFetch
+
+const mockGeminiFoods = () => {
+  mockFetch.mockResolvedValue({
+    ok: true,
+    json: async () => ({
+      candidates: [{ content: { parts: [{ text: JSON.stringify({ foods: [{ name: 'サーモンの刺身', level: 'caution', details: '加熱していない魚' }] }) }] } }]
+    })
+  })
+}
+
+// 写真の代わりに、色の異なる四角形を描いた画像を作る
+const createPhoto = async (color: string, quality: number) => {
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="240" height="180">
+    <rect width="100%" height="100%" fill="#f4efe6"/>
+    <circle cx="150" cy="90" r="60" fill="${color}"/>
+  </svg>`
+  const jpeg = await sharp(Buffer.from(svg)).jpeg({ quality }).toBuffer()
+  return `data:image/jpeg;base64,${jpeg.toString('base64')}`
+}
+
+describe('API Route: /api/analyze のキャッシュ', () => {
+  beforeEach(() => {
+    mockFetch.mockReset()
+    ;(process.env as any).GEMINI_API_KEY = 'test-api-key'
+    jest.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    delete (process.env as any).GEMINI_API_KEY
+    jest.restoreAllMocks()
+  })
+
+  describe('あるべき挙動', () => {
+    test('同じ写真の再送信には、モデルを呼ばずに保存済みの結果を返す', async () => {
+      mockGeminiFoods()
+
+      const first = await POST(createMockRequest({ image: await createPhoto('#e07050', 90) }, '10.1.0.1'))
+      const firstData = await first.json()
+      // 再圧縮した同じ写真
+      const second = await POST(createMockRequest({ image: await createPhoto('#e07050', 50) }, '10.1.0.1'))
+      const secondData = await second.json()
+
+      expect(firstData.cached).toBe(false)
+      expect(secondData.cached).toBe(true)
+      expect(secondData.result).toEqual(firstData.result)
+      expect(mockFetch).toHaveBeenCalledTimes(1)
+    })
+
+    test('保存済みの結果を返す場合は、レート制限の回数を消費せずにヘッダーを付ける', async () => {
+      mockGeminiFoods()
+      const image = await createPhoto('#3060c0', 90)
+
+      const first = await POST(createMockRequest({ image }, '10.1.0.2'))
+      const remaining = first.headers.get('RateLimit-Remaining')
+      const cached = await POST(createMockRequest({ image }, '10.1.0.2'))
+      // 妊娠週数を変えて、確実に改めて判定させる
+      const next = await POST(createMockRequest({ image, pregnancyWeek: 20 }, '10.1.0.2'))
+
+      expect((await cached.json()).cached).toBe(true)
+      expect(cached.headers.get('RateLimit-Remaining')).toBe(remaining)
+      expect(Number(next.headers.get('RateLimit-Remaining'))).toBe(Number(remaining) - 1)
+    })
+
+    test('妊娠週数が異なる場合は改めて判定する', async () => {
+      mockGeminiFoods()
+      const image = await createPhoto('#a040a0', 90)
+
+      await POST(createMockRequest({ image, pregnancyWeek: 12 }, '10.1.0.3'))
+      const response = await POST(createMockRequest({ image, pregnancyWeek: 30 }, '10.1.0.3'))
+
+      expect((await response.json()).cached).toBe(false)
+      expect(mockFetch).toHaveBeenCalledTimes(2)
+    })
+
+    test('妊娠糖尿病を設定した場合は改めて判定し、炭水化物の推定を含める', async () => {
+      mockGeminiFoods()
+      const image = await createPhoto('#40a0a0', 90)
+      await POST(createMockRequest({ image }, '10.1.0.5'))
+      const calls = mockFetch.mock.calls.length
+
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: async () => ({
+          candidates: [{ content: { parts: [{ text: JSON.stringify({ foods: [
+            { name: '白米', level: 'safe', details: '', carbs_g: 55.2, sugar_g: 0 },
+            { name: 'オレンジジュース', level: 'safe', details: '', carbs_g: 21, sugar_g: 20 }
+          ] }) }] } }]
+        })
+      })
+      const response = await POST(createMockRequest({ image, profile: { allergens: [], conditions: ['gestational_diabetes'] } }, '10.1.0.5'))
+      const data = await response.json()
+
+      expect(data.cached).toBe(false)
+      expect(mockFetch).toHaveBeenCalledTimes(calls + 1)
+      expect(mockFetch.mock.calls[calls][1].body).toContain('carbs_g')
+      expect(data.result.foods.map((food: { carbs_g?: number }) => food.carbs_g)).toEqual([55.2, 21])
+      expect(data.result.carbohydrate).toEqual({ carbs_g: 76.2, sugar_g: 20, band: 'high' })
+    })
+  })
+
+  describe('エラーケース', () => {
+    test('レート制限に達したクライアントには、画像のハッシュを計算せずに429を返す', async () => {
+      mockGeminiFoods()
+      const image = await createPhoto('#806040', 90)
+      await POST(createMockRequest({ image }, '10.1.0.6'))
+
+      const limited = { allowed: false, limit: 10, remaining: 0, resetTime: Date.now() + 60_000 }
+      jest.spyOn(analyzeLimiter, 'peek').mockResolvedValue(limited)
+      jest.spyOn(analyzeLimiter, 'check').mockResolvedValue(limited)
+      const computeHash = jest.spyOn(imageHash, 'computeImageHash')
+      const response = await POST(createMockRequest({ image }, '10.1.0.6'))
+
+      expect(response.status).toBe(429)
+      expect(response.headers.get('RateLimit-Remaining')).toBe('0')
+      expect(computeHash).not.toHaveBeenCalled()
+    })
+
+    test('制限に達すると残り回数0と Retry-After が秒数で返される', async () => {
+      mockGeminiFoods()
+      const image = await createPhoto('#40a080', 90)
+
+      // 妊娠週数を変えて、保存済みの結果を使わずに毎回判定させる
+      for (let week = 1; week <= 10; week++) {
+        const response = await POST(createMockRequest({ image, pregnancyWeek: week }, '10.1.0.7'))
+        expect(response.status).toBe(200)
+      }
+      const response = await POST(createMockRequest({ image, pregnancyWeek: 11 }, '10.1.0.7'))
+      const data = await response.json()
+
+      expect(response.status).toBe(429)
+      expect(response.headers.get('RateLimit-Remaining')).toBe('0')
+      const retryAfter = Number(response.headers.get('Retry-After'))
+      expect(retryAfter).toBeGreaterThan(0)
+      expect(retryAfter).toBeLessThanOrEqual(60 * 60)
+      expect(data.retryAfter).toBe(retryAfter)
+    })
+
+    test('モデルの呼び出しに失敗した結果は保存しない', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {})
+      mockFetch.mockResolvedValue({ ok: false, status: 503, text: async () => 'Service Unavailable' })
+      const image = await createPhoto('#c0c020', 90)
+
+      await POST(createMockRequest({ image }, '10.1.0.4'))
+      const failedCalls = mockFetch.mock.calls.length
+      mockGeminiFoods()
+      const retry = await POST(createMockRequest({ image }, '10.1.0.4'))
+
+      expect((await retry.json()).cached).toBe(false)
+      expect(mockFetch.mock.calls.length).toBeGreaterThan(failedCalls)
+    })
+  })
+})
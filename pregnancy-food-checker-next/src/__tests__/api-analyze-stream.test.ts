@@ -0,0 +1,158 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * API Route /api/analyze のストリーミング（Accept: text/event-stream）のテスト
+ */
+
+import sharp from 'sharp'
+import { POST } from '../app/api/analyze/route'
+import { parseAnalyzeResponse } from '../lib/api-contract'
+import { readServerSentEvents, ServerSentEvent } from '../lib/server-sent-events'
+
+// 同じ画像の結果が保存されて次のテストに影響しないよう、キャッシュを無効にする
+jest.mock('../lib/analysis-cache', () => ({
+  ...jest.requireActual('../lib/analysis-cache'),
+  getAnalysisCacheTtlMs: () => 0
+}))
+
+const createMockRequest = (body: Record<string, unknown>, ip: string) => {
+  const headers = new Map([
+    ['x-forwarded-for', ip],
+    ['user-agent', 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 Safari/604.1'],
+    ['content-type', 'application/json'],
+    ['accept', 'text/event-stream, application/json']
+  ])
+
+  return {
+    headers: {
+      get: (key: string) => headers.get(key.toLowerCase()) || null
+    },
+    method: 'POST',
+    json: async () => body
+  } as any
+}
+
+const mockFetch = jest.fn()
+global.fetch = mockFetch
+
+// Gemini の streamGenerateContent（alt=sse）のレスポンス。回答のテキストを分けて届ける
+const mockGeminiStream = (textChunks: string[]) => ({
+  ok: true,
+  body: new ReadableStream<Uint8Array>({
+    start(controller) {
+      const encoder = new TextEncoder()
+      textChunks.forEach((text, i) => {
+        const chunk = {
+          candidates: [{ content: { parts: [{ text }] } }],
+          ...(i === textChunks.length - 1 ? { usageMetadata: { totalTokenCount: 321 } } : {})
+        }
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(chunk)}\r\n\r\n`))
+      })
+      controller.close()
+    }
+  })
+})
+
+const FOOD_TEXT_CHUNKS = [
+  '{"foods": [{"name": "サーモンの刺身", "level": "caution", "confidence": 0.9, "details": "加熱していない魚"}',
+  ', {"name": "白米", "level": "safe", "confidence": 0.9, "details": ""}]}'
+]
+
+const createPhoto = async () => {
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="240" height="180">
+    <rect width="100%" height="100%" fill="#f4efe6"/>
+    <circle cx="150" cy="90" r="60" fill="#e07050"/>
+  </svg>`
+  const jpeg = await sharp(Buffer.from(svg)).jpeg().toBuffer()
+  return `data:image/jpeg;base64,${jpeg.toString('base64')}`
+}
+
+const readEvents = async (response: { body: ReadableStream<Uint8Array> }) => {
+  const events: ServerSentEvent[] = []
+  await readServerSentEvents(response.body, event => events.push(event))
+  return events.map(({ event, data }) => ({ event, data: JSON.parse(data) }))
+}
+
+describe('API Route: /api/analyze のストリーミング', () => {
+  beforeEach(() => {
+    mockFetch.mockReset()
+    ;(process.env as any).GEMINI_API_KEY = 'test-api-key'
+    jest.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    delete (process.env as any).GEMINI_API_KEY
+    jest.restoreAllMocks()
+  })
+
+  describe('あるべき挙動', () => {
+    test('分析の段階と、回答の途中で見つかった食品を順に送り、最後に結果を送る', async () => {
+      mockFetch.mockResolvedValue(mockGeminiStream(FOOD_TEXT_CHUNKS))
+
+      const response = await POST(createMockRequest({ images: [await createPhoto()] }, '10.3.0.1'))
+      const events = await readEvents(response as any)
+
+      expect(response.headers.get('content-type')).toContain('text/event-stream')
+      expect(response.headers.get('RateLimit-Remaining')).toBe('9')
+      expect(mockFetch.mock.calls[0][0]).toContain(':streamGenerateContent?alt=sse&key=')
+      expect(events.map(({ event, data }) => event === 'stage' ? data.stage : event === 'food' ? data.name : event)).toEqual([
+        'validated',
+        'uploading',
+        'サーモンの刺身',
+        '白米',
+        'parsing',
+        'done'
+      ])
+
+      const done = parseAnalyzeResponse(events[events.length - 1].data)
+      expect(done.isValid).toBe(true)
+      expect(done.response!.result.risk_level).toBe('caution')
+      expect(done.response!.result.foods.map(food => food.name)).toEqual(['サーモンの刺身', '白米'])
+    })
+
+    test('混雑で問い合わせ直す場合は retry を送り、食品を送り直す', async () => {
+      mockFetch
+        .mockResolvedValueOnce({ ok: false, status: 503, text: async () => 'The model is overloaded' })
+        .mockResolvedValueOnce(mockGeminiStream(FOOD_TEXT_CHUNKS))
+
+      const response = await POST(createMockRequest({ images: [await createPhoto()] }, '10.3.0.2'))
+      const events = await readEvents(response as any)
+
+      expect(events.filter(({ event }) => event === 'stage').map(({ data }) => data)).toEqual([
+        { stage: 'validated' },
+        { stage: 'uploading' },
+        { stage: 'retry', attempt: 2, reason: 'unavailable' },
+        { stage: 'parsing' }
+      ])
+      expect(events.filter(({ event }) => event === 'food')).toHaveLength(2)
+      expect(events[events.length - 1].event).toBe('done')
+    })
+
+    test('途中で送る食品にも、設定したアレルゲンと炭水化物の推定を含める', async () => {
+      mockFetch.mockResolvedValue(mockGeminiStream([
+        '{"foods": [{"name": "オムライス", "level": "safe", "confidence": 0.9, "details": "", "carbs_g": 80, "sugar_g": 6}',
+        ', {"name": "白米", "level": "safe", "confidence": 0.9, "details": "", "carbs_g": 55}]}'
+      ]))
+
+      const profile = { allergens: ['egg'], conditions: ['gestational_diabetes'] }
+      const response = await POST(createMockRequest({ images: [await createPhoto()], profile }, '10.3.0.4'))
+      const events = await readEvents(response as any)
+
+      const done = parseAnalyzeResponse(events[events.length - 1].data)
+      expect(events.filter(({ event }) => event === 'food').map(({ data }) => data)).toEqual(done.response!.result.foods)
+      expect(done.response!.result.foods[0]).toMatchObject({ allergens: ['egg'], carbs_g: 80, sugar_g: 6 })
+    })
+  })
+
+  describe('エラーケース', () => {
+    test('分析を始める前のエラーはJSONで返す', async () => {
+      const response = await POST(createMockRequest({ images: [] }, '10.3.0.3'))
+
+      expect(response.status).toBe(400)
+      expect(response.headers.get('content-type')).toBe('application/json')
+      expect(mockFetch).not.toHaveBeenCalled()
+    })
+  })
+})
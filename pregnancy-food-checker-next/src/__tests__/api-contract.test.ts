@@ -0,0 +1,173 @@
+/**
+ * 分析APIのリクエスト・レスポンスの型の検証のテスト
+ */
+
+import {
+  API_CONTRACT_VERSION,
+  createErrorResult,
+  parseAnalyzeErrorResponse,
+  parseAnalyzeImageRequest,
+  parseAnalyzeResponse,
+  parseAnalyzeStreamEvent,
+  parseAnalyzeTextRequest
+} from '../lib/api-contract'
+
+const IMAGE = 'data:image/png;base64,iVBORw0KGgo='
+
+const createResponse = (result: Record<string, unknown> = {}) => ({
+  success: true,
+  version: API_CONTRACT_VERSION,
+  result: {
+    safe: false,
+    risk_level: 'avoid',
+    detected_food: ['生ハム'],
+    foods: [{ name: '生ハム', level: 'avoid', details: 'リステリア菌', source: '厚生労働省' }],
+    message: 'リスクがある食品が含まれている可能性があります。',
+    details: '生ハム: リステリア菌（出典: 厚生労働省）',
+    ...result
+  }
+})
+
+describe('API Contract', () => {
+  describe('parseAnalyzeImageRequest', () => {
+    test('複数枚の画像と妊娠週数を受け付ける', () => {
+      expect(parseAnalyzeImageRequest({ images: [IMAGE, IMAGE], pregnancyWeek: 12 })).toEqual({
+        isValid: true,
+        request: { images: [IMAGE, IMAGE], pregnancyWeek: 12 }
+      })
+    })
+
+    test('従来の1枚のみの image は images として扱う', () => {
+      expect(parseAnalyzeImageRequest({ image: IMAGE, dueDate: '2027-03-01', pregnancyWeek: null }).request).toEqual({
+        images: [IMAGE],
+        dueDate: '2027-03-01'
+      })
+    })
+
+    test('画像が無い・形式が異なる場合は拒否される', () => {
+      expect(parseAnalyzeImageRequest(null).error).toBe('画像データが提供されていません')
+      expect(parseAnalyzeImageRequest({ images: IMAGE }).error).toBe('無効な画像データ')
+      expect(parseAnalyzeImageRequest({ images: [IMAGE, 123] }).error).toBe('2枚目の画像: 無効な画像データ')
+      expect(parseAnalyzeImageRequest({ images: [IMAGE], pregnancyWeek: '12' }).error).toBe('妊娠週数が不正です')
+      expect(parseAnalyzeImageRequest({ images: [IMAGE], dueDate: 20270301 }).error).toBe('出産予定日が不正です')
+    })
+  })
+
+  describe('parseAnalyzeTextRequest', () => {
+    test('テキストが無い場合は拒否される', () => {
+      expect(parseAnalyzeTextRequest({ text: 'うどん' })).toEqual({ isValid: true, request: { text: 'うどん' } })
+      expect(parseAnalyzeTextRequest({ text: '  ' }).error).toBe('料理名や食材名を入力してください')
+      expect(parseAnalyzeTextRequest({ text: ['  '] }).error).toBe('料理名や食材名を入力してください')
+      expect(parseAnalyzeTextRequest({ text: ['うどん', 1] }).isValid).toBe(false)
+    })
+
+    test('テキストは食品名の配列でも受け付ける', () => {
+      expect(parseAnalyzeTextRequest({ text: ['鮭、いくら丼', 'みそ汁'] })).toEqual({ isValid: true, request: { text: ['鮭、いくら丼', 'みそ汁'] } })
+    })
+
+    test('修正前の判定（previousFoods）は食品ごとの判定の形でなければ拒否される', () => {
+      const previousFoods = [{ name: '刺身', level: 'caution', details: '生魚' }]
+
+      expect(parseAnalyzeTextRequest({ text: '刺身', previousFoods }).request).toEqual({ text: '刺身', previousFoods })
+      expect(parseAnalyzeTextRequest({ text: '刺身', previousFoods: [{ name: '刺身', level: 'high', details: '' }] }).error).toBe('修正前の判定結果が不正です')
+      expect(parseAnalyzeTextRequest({ text: '刺身', previousFoods: '刺身' }).isValid).toBe(false)
+    })
+
+    test('アレルギー・持病の設定は定義済みの識別子のみ受け付ける', () => {
+      expect(parseAnalyzeTextRequest({ text: 'そば', profile: { allergens: ['shrimp', 'buckwheat', 'shrimp'], conditions: [] } }).request).toEqual({
+        text: 'そば',
+        profile: { allergens: ['buckwheat', 'shrimp'], conditions: [] }
+      })
+      expect(parseAnalyzeTextRequest({ text: 'そば', profile: { allergens: ['そば'], conditions: [] } }).error).toBe('アレルギー・持病の設定が不正です')
+      expect(parseAnalyzeImageRequest({ images: [IMAGE], profile: 'egg' }).error).toBe('アレルギー・持病の設定が不正です')
+    })
+  })
+
+  describe('parseAnalyzeResponse', () => {
+    describe('あるべき挙動', () => {
+      test('型に沿ったレスポンスは受け入れられる', () => {
+        const data = createResponse({
+          images: [{ image: 1, risk_level: 'avoid', foods: ['生ハム'], detected_food: ['生ハム'] }],
+          pregnancy_week: 10,
+          trimester: 1
+        })
+
+        expect(parseAnalyzeResponse(data)).toEqual({ isValid: true, response: data })
+      })
+
+      test('判定を信頼できない理由と、食品ごとの自信の度合いを受け入れる', () => {
+        const data = createResponse({
+          foods: [{ name: '生ハム', level: 'avoid', details: 'リステリア菌', confidence: 0.3 }],
+          uncertain_reasons: ['low_confidence', 'blurry']
+        })
+
+        expect(parseAnalyzeResponse(data).isValid).toBe(true)
+      })
+
+      test('食品ごとのアレルゲンを受け入れる', () => {
+        const data = createResponse({
+          foods: [{ name: 'エビフライ', level: 'safe', details: '', allergens: ['shrimp', 'wheat'] }]
+        })
+
+        expect(parseAnalyzeResponse(data).isValid).toBe(true)
+        expect(parseAnalyzeResponse(createResponse({
+          foods: [{ name: 'エビフライ', level: 'safe', details: '', allergens: ['えび'] }]
+        })).isValid).toBe(false)
+      })
+
+      test('判定できなかった場合の結果も受け入れられる', () => {
+        const data = { success: true, version: API_CONTRACT_VERSION, result: createErrorResult('一時的に使用できません') }
+
+        expect(parseAnalyzeResponse(data).isValid).toBe(true)
+      })
+    })
+
+    describe('エラーケース', () => {
+      test('バージョンが異なる場合は再読み込みを促す', () => {
+        expect(parseAnalyzeResponse({ ...createResponse(), version: API_CONTRACT_VERSION + 1 }).error)
+          .toBe('アプリが更新されました。ページを再読み込みしてください。')
+      })
+
+      test('型が異なる結果は拒否される', () => {
+        expect(parseAnalyzeResponse(createResponse({ foods: undefined })).isValid).toBe(false)
+        expect(parseAnalyzeResponse(createResponse({ foods: [{ name: '生ハム', level: 'danger', details: '' }] })).isValid).toBe(false)
+        expect(parseAnalyzeResponse(createResponse({ risk_level: 'unknown' })).isValid).toBe(false)
+        expect(parseAnalyzeResponse(createResponse({ images: [{ image: 0, risk_level: 'safe', foods: [], detected_food: [] }] })).isValid).toBe(false)
+        expect(parseAnalyzeResponse(createResponse({ uncertain_reasons: ['noisy'] })).isValid).toBe(false)
+        expect(parseAnalyzeResponse(createResponse({ foods: [{ name: '生ハム', level: 'avoid', details: '', confidence: 2 }] })).isValid).toBe(false)
+        expect(parseAnalyzeResponse({ success: false }).isValid).toBe(false)
+      })
+    })
+  })
+
+  describe('parseAnalyzeStreamEvent', () => {
+    test('段階・食品・結果のイベントを読み取る', () => {
+      expect(parseAnalyzeStreamEvent('stage', '{"stage":"retry","attempt":2,"reason":"unavailable"}'))
+        .toEqual({ event: 'stage', data: { stage: 'retry', attempt: 2, reason: 'unavailable' } })
+      expect(parseAnalyzeStreamEvent('food', '{"name":"刺身","level":"caution","details":""}'))
+        .toEqual({ event: 'food', data: { name: '刺身', level: 'caution', details: '' } })
+      expect(parseAnalyzeStreamEvent('done', JSON.stringify(createResponse()))).toEqual({ event: 'done', data: createResponse() })
+      expect(parseAnalyzeStreamEvent('error', '{"error":"分析中にエラーが発生しました"}'))
+        .toEqual({ event: 'error', data: { error: '分析中にエラーが発生しました' } })
+    })
+
+    test('不正な結果は error として、未知・不正なイベントは null として返す', () => {
+      expect(parseAnalyzeStreamEvent('done', JSON.stringify({ ...createResponse(), version: API_CONTRACT_VERSION + 1 })))
+        .toEqual({ event: 'error', data: { error: 'アプリが更新されました。ページを再読み込みしてください。' } })
+      expect(parseAnalyzeStreamEvent('stage', '{"stage":"thinking"}')).toBeNull()
+      expect(parseAnalyzeStreamEvent('food', '{"name":"刺身"')).toBeNull()
+      expect(parseAnalyzeStreamEvent('heartbeat', '{}')).toBeNull()
+    })
+  })
+
+  describe('parseAnalyzeErrorResponse', () => {
+    test('エラーの内容と利用上限の情報を読み取る', () => {
+      expect(parseAnalyzeErrorResponse({ error: '本日の上限に達しました。', quotaExceeded: true, retryAfter: 3600 })).toEqual({
+        error: '本日の上限に達しました。',
+        quotaExceeded: true,
+        retryAfter: 3600
+      })
+      expect(parseAnalyzeErrorResponse({ message: 'error' })).toBeNull()
+    })
+  })
+})
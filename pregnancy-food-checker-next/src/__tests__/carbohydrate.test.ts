@@ -0,0 +1,37 @@
+/**
+ * 妊娠糖尿病の方向けの炭水化物の推定のテスト
+ */
+
+import { needsCarbEstimate, summarizeCarbohydrates, toCarbBand } from '../lib/carbohydrate'
+
+describe('Carbohydrate', () => {
+  describe('あるべき挙動', () => {
+    test('持病に妊娠糖尿病を設定した場合のみ推定を求める', () => {
+      expect(needsCarbEstimate({ allergens: [], conditions: ['gestational_diabetes'] })).toBe(true)
+      expect(needsCarbEstimate({ allergens: ['egg'], conditions: [] })).toBe(false)
+      expect(needsCarbEstimate(undefined)).toBe(false)
+    })
+
+    test('1食の目安（30〜60g）と比べる', () => {
+      expect(toCarbBand(29.9)).toBe('low')
+      expect(toCarbBand(30)).toBe('moderate')
+      expect(toCarbBand(60)).toBe('moderate')
+      expect(toCarbBand(60.1)).toBe('high')
+    })
+
+    test('推定のある食品のみを合計する', () => {
+      expect(summarizeCarbohydrates([
+        { carbs_g: 55.25, sugar_g: 0.1 },
+        { carbs_g: 3.1 }, // 糖類の推定が無い食品は0gとして数える
+        {}
+      ])).toEqual({ carbs_g: 58.4, sugar_g: 0.1, band: 'moderate' })
+    })
+  })
+
+  describe('エラーケース', () => {
+    test('推定のある食品が無ければ合計しない', () => {
+      expect(summarizeCarbohydrates([])).toBeNull()
+      expect(summarizeCarbohydrates([{ sugar_g: 5 }])).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,193 @@
+/**
+ * レート制限用のクライアント識別のテスト
+ */
+
+import {
+  createClientIdentifier,
+  getClientIdOptions,
+  normalizeClientAddress,
+  parseForwardedHeader,
+  resolveClientAddress
+} from '../lib/client-id'
+
+const createMockRequest = (values: Record<string, string>) => ({
+  headers: {
+    get: (name: string) => values[name.toLowerCase()] ?? null
+  }
+})
+
+const options = { trustedProxyHops: 1, trustedProxyHeader: 'x-forwarded-for' as const, trustVercelHeader: false, secret: 'test-secret' }
+
+describe('Client ID', () => {
+  describe('normalizeClientAddress', () => {
+    test('IPv4はポート番号を除いてそのまま使う', () => {
+      expect(normalizeClientAddress('203.0.113.7')).toBe('203.0.113.7')
+      expect(normalizeClientAddress(' 203.0.113.7:51234 ')).toBe('203.0.113.7')
+    })
+
+    test('IPv6は /64 単位にまとめられる', () => {
+      expect(normalizeClientAddress('2001:db8:1:2:aaaa:bbbb:cccc:dddd')).toBe('2001:db8:1:2::/64')
+      expect(normalizeClientAddress('2001:db8:1:2::1')).toBe('2001:db8:1:2::/64')
+      expect(normalizeClientAddress('[2001:DB8:1:2::ffff]:443')).toBe('2001:db8:1:2::/64')
+      expect(normalizeClientAddress('::1')).toBe('0:0:0:0::/64')
+    })
+
+    test('IPv4射影アドレスはIPv4として扱う', () => {
+      expect(normalizeClientAddress('::ffff:203.0.113.7')).toBe('203.0.113.7')
+    })
+
+    test('IPアドレスでない値は null を返す', () => {
+      expect(normalizeClientAddress('unknown')).toBeNull()
+      expect(normalizeClientAddress('_hidden')).toBeNull()
+      expect(normalizeClientAddress('256.1.1.1')).toBeNull()
+      expect(normalizeClientAddress('1::2::3')).toBeNull()
+      expect(normalizeClientAddress('')).toBeNull()
+    })
+  })
+
+  describe('parseForwardedHeader', () => {
+    test('for= の値を順に取り出す', () => {
+      expect(parseForwardedHeader('for=192.0.2.60;proto=http;by=203.0.113.43, for="[2001:db8::1]:4711"'))
+        .toEqual(['192.0.2.60', '[2001:db8::1]:4711'])
+    })
+  })
+
+  describe('resolveClientAddress', () => {
+    test('プロキシが付け足した右端の値を使う', () => {
+      const request = createMockRequest({ 'x-forwarded-for': '1.1.1.1, 203.0.113.7' })
+
+      expect(resolveClientAddress(request, options)).toBe('203.0.113.7')
+    })
+
+    test('プロキシの段数に応じて右から数える', () => {
+      const request = createMockRequest({ 'x-forwarded-for': '1.1.1.1, 203.0.113.7, 10.0.0.2' })
+
+      expect(resolveClientAddress(request, { ...options, trustedProxyHops: 2 })).toBe('203.0.113.7')
+    })
+
+    test('設定した場合は Forwarded ヘッダーの右端から数える', () => {
+      const request = createMockRequest({
+        forwarded: 'for=1.1.1.1, for=198.51.100.2',
+        'x-forwarded-for': '203.0.113.7'
+      })
+
+      expect(resolveClientAddress(request, { ...options, trustedProxyHeader: 'forwarded' })).toBe('198.51.100.2')
+    })
+
+    test('クライアントが偽った Forwarded ヘッダーは、x-forwarded-for を信頼する設定では使わない', () => {
+      // プロキシは x-forwarded-for にのみ接続元を付け足し、Forwarded はそのまま通す
+      const identify = createClientIdentifier(options)
+      const spoofed = (forwarded: string) => createMockRequest({ forwarded, 'x-forwarded-for': '1.1.1.1, 203.0.113.7' })
+
+      expect(resolveClientAddress(spoofed('for=198.51.100.2'), options)).toBe('203.0.113.7')
+      expect(identify(spoofed('for=198.51.100.2'))).toBe(identify(spoofed('for=198.51.100.3')))
+    })
+
+    test('Vercel上では x-vercel-forwarded-for を使う', () => {
+      const request = createMockRequest({
+        'x-vercel-forwarded-for': '198.51.100.9',
+        'x-forwarded-for': '1.1.1.1'
+      })
+
+      expect(resolveClientAddress(request, { ...options, trustVercelHeader: true })).toBe('198.51.100.9')
+      expect(resolveClientAddress(request, options)).toBe('1.1.1.1')
+    })
+
+    test('段数が0の場合は転送ヘッダーを信頼しない', () => {
+      const request = createMockRequest({ 'x-forwarded-for': '203.0.113.7', 'x-real-ip': '203.0.113.7' })
+
+      expect(resolveClientAddress(request, { ...options, trustedProxyHops: 0 })).toBeNull()
+    })
+
+    test('x-real-ip は信頼する転送ヘッダーに設定した場合のみ使う', () => {
+      const realIpOptions = { ...options, trustedProxyHeader: 'x-real-ip' as const }
+
+      // クライアントが付けた x-real-ip で別のクライアントになりすませない
+      expect(resolveClientAddress(createMockRequest({ 'x-real-ip': '203.0.113.7' }), options)).toBeNull()
+      expect(resolveClientAddress(createMockRequest({ 'x-real-ip': '198.51.100.2', 'x-forwarded-for': '203.0.113.7' }), options)).toBe('203.0.113.7')
+      expect(resolveClientAddress(createMockRequest({ 'x-real-ip': '203.0.113.7', 'x-forwarded-for': '1.1.1.1' }), realIpOptions)).toBe('203.0.113.7')
+      expect(resolveClientAddress(createMockRequest({ 'x-forwarded-for': '1.1.1.1' }), realIpOptions)).toBeNull()
+    })
+  })
+
+  describe('createClientIdentifier', () => {
+    afterEach(() => {
+      jest.restoreAllMocks()
+    })
+
+    test('IPアドレスは鍵付きハッシュで匿名化される', () => {
+      const identify = createClientIdentifier(options)
+      const id = identify(createMockRequest({ 'x-forwarded-for': '203.0.113.7' }))
+
+      expect(id).toHaveLength(32)
+      expect(id).not.toContain('203.0.113.7')
+      expect(id).not.toBe(btoa('203.0.113.7').slice(0, 32))
+      // 同じアドレスは同じID、鍵が違えば別のID
+      expect(identify(createMockRequest({ 'x-forwarded-for': '203.0.113.7' }))).toBe(id)
+      expect(createClientIdentifier({ ...options, secret: 'other' })(createMockRequest({ 'x-forwarded-for': '203.0.113.7' }))).not.toBe(id)
+    })
+
+    test('同じ /64 のIPv6アドレスは同じクライアントになる', () => {
+      const identify = createClientIdentifier(options)
+
+      expect(identify(createMockRequest({ 'x-forwarded-for': '2001:db8:1:2::1' })))
+        .toBe(identify(createMockRequest({ 'x-forwarded-for': '2001:db8:1:2:ffff::9' })))
+      expect(identify(createMockRequest({ 'x-forwarded-for': '2001:db8:1:2::1' })))
+        .not.toBe(identify(createMockRequest({ 'x-forwarded-for': '2001:db8:1:3::1' })))
+    })
+
+    test('接続元を特定できないリクエストは共有の識別子にまとめ、設定の確認を促す警告を1回だけ出す', () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {})
+      const identify = createClientIdentifier({ ...options, trustedProxyHops: 0 })
+
+      const first = identify(createMockRequest({ 'x-forwarded-for': '203.0.113.7' }))
+      const second = identify(createMockRequest({ 'x-forwarded-for': '198.51.100.2' }))
+
+      expect(second).toBe(first)
+      expect(warn).toHaveBeenCalledTimes(1)
+      expect(warn.mock.calls[0][0]).toContain('RATE_LIMIT_TRUSTED_PROXY_HOPS=0')
+    })
+
+    test('設定したヘッダーが無い場合も、その旨を警告する', () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {})
+      const identify = createClientIdentifier({ ...options, trustedProxyHeader: 'x-real-ip' })
+
+      identify(createMockRequest({ 'x-forwarded-for': '203.0.113.7' }))
+      identify(createMockRequest({}))
+
+      expect(warn).toHaveBeenCalledTimes(1)
+      expect(warn.mock.calls[0][0]).toContain('x-real-ip から接続元のIPアドレスを読み取れません')
+      // 接続元を特定できたリクエストでは警告しない
+      identify(createMockRequest({ 'x-real-ip': '203.0.113.7' }))
+      expect(warn).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  describe('getClientIdOptions', () => {
+    afterEach(() => {
+      jest.restoreAllMocks()
+    })
+
+    test('環境変数から設定を読み取る', () => {
+      expect(getClientIdOptions({
+        RATE_LIMIT_TRUSTED_PROXY_HOPS: '2',
+        RATE_LIMIT_TRUSTED_PROXY_HEADER: 'Forwarded',
+        RATE_LIMIT_HASH_SECRET: 'secret',
+        VERCEL: '1'
+      })).toEqual({ trustedProxyHops: 2, trustedProxyHeader: 'forwarded', trustVercelHeader: true, secret: 'secret' })
+      expect(getClientIdOptions({ RATE_LIMIT_TRUSTED_PROXY_HEADER: 'X-Real-IP' }).trustedProxyHeader).toBe('x-real-ip')
+    })
+
+    test('未設定・不正な値の場合はデフォルトを使う', () => {
+      jest.spyOn(console, 'warn').mockImplementation(() => {})
+      const defaults = getClientIdOptions({ RATE_LIMIT_TRUSTED_PROXY_HOPS: '-1', RATE_LIMIT_TRUSTED_PROXY_HEADER: 'x-client-ip' })
+
+      expect(defaults.trustedProxyHops).toBe(1)
+      expect(defaults.trustedProxyHeader).toBe('x-forwarded-for')
+      expect(defaults.trustVercelHeader).toBe(false)
+      // 鍵はプロセス内で共通
+      expect(defaults.secret).toHaveLength(64)
+      expect(getClientIdOptions({}).secret).toBe(defaults.secret)
+    })
+  })
+})
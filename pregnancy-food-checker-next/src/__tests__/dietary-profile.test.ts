@@ -0,0 +1,80 @@
+/**
+ * 食物アレルギー・持病の設定のテスト
+ */
+
+import {
+  describeDietaryProfile,
+  EMPTY_DIETARY_PROFILE,
+  findAllergensInName,
+  loadDietaryProfile,
+  parseDietaryProfile,
+  saveDietaryProfile
+} from '../lib/dietary-profile'
+
+describe('Dietary Profile', () => {
+  describe('あるべき挙動', () => {
+    test('設定を検証し、重複を除いて定義順に並べる', () => {
+      expect(parseDietaryProfile({ allergens: ['peanut', 'egg', 'egg'], conditions: ['gestational_diabetes'] })).toEqual({
+        isValid: true,
+        profile: { allergens: ['egg', 'peanut'], conditions: ['gestational_diabetes'] }
+      })
+    })
+
+    test('食品名から、設定したアレルゲンのみを見つける', () => {
+      const allergens = ['egg', 'wheat', 'buckwheat', 'shrimp'] as const
+
+      expect(findAllergensInName('オムライス', [...allergens])).toEqual(['egg'])
+      expect(findAllergensInName('えびフライ', [...allergens])).toEqual(['wheat', 'shrimp'])
+      expect(findAllergensInName('ざるそば', [...allergens])).toEqual(['buckwheat'])
+      expect(findAllergensInName('エビフライ', ['egg'])).toEqual([])
+    })
+
+    test('紛らわしい食品名はアレルゲンとしない', () => {
+      expect(findAllergensInName('ソース焼きそば', ['buckwheat'])).toEqual([])
+      expect(findAllergensInName('魚卵の軍艦巻き', ['egg'])).toEqual([])
+    })
+
+    test('キャッシュのキーに含める文字列は設定が無ければ none になる', () => {
+      expect(describeDietaryProfile(undefined)).toBe('none')
+      expect(describeDietaryProfile(EMPTY_DIETARY_PROFILE)).toBe('none')
+      expect(describeDietaryProfile({ allergens: ['egg', 'shrimp'], conditions: ['gestational_diabetes'] })).toBe('egg,shrimp,gestational_diabetes')
+    })
+  })
+
+  describe('端末内での保存', () => {
+    beforeEach(() => {
+      window.localStorage.clear()
+    })
+
+    test('保存した設定を読み込める', () => {
+      saveDietaryProfile({ allergens: ['crab'], conditions: [] })
+
+      expect(loadDietaryProfile()).toEqual({ allergens: ['crab'], conditions: [] })
+    })
+
+    test('設定を空にすると保存が削除される', () => {
+      saveDietaryProfile({ allergens: ['crab'], conditions: [] })
+      saveDietaryProfile(EMPTY_DIETARY_PROFILE)
+
+      expect(window.localStorage.getItem('dietaryProfile')).toBeNull()
+      expect(loadDietaryProfile()).toEqual(EMPTY_DIETARY_PROFILE)
+    })
+  })
+
+  describe('エラーケース', () => {
+    test('定義されていない識別子や形式の異なる設定は拒否される', () => {
+      expect(parseDietaryProfile({ allergens: ['soy'], conditions: [] }).error).toBe('アレルギー・持病の設定が不正です')
+      expect(parseDietaryProfile({ allergens: ['egg'] }).isValid).toBe(false)
+      expect(parseDietaryProfile(['egg']).isValid).toBe(false)
+      expect(parseDietaryProfile(null).isValid).toBe(false)
+    })
+
+    test('壊れた保存内容は未設定として扱う', () => {
+      window.localStorage.setItem('dietaryProfile', '{"allergens": ["egg"')
+      expect(loadDietaryProfile()).toEqual(EMPTY_DIETARY_PROFILE)
+
+      window.localStorage.setItem('dietaryProfile', JSON.stringify({ allergens: ['soy'], conditions: [] }))
+      expect(loadDietaryProfile()).toEqual(EMPTY_DIETARY_PROFILE)
+    })
+  })
+})
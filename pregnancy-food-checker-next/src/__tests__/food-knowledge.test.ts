@@ -0,0 +1,113 @@
+import { findFoodKnowledge, reconcileFoods, FOOD_KNOWLEDGE } from '../lib/food-knowledge'
+
+describe('Food Knowledge Base', () => {
+  describe('findFoodKnowledge', () => {
+    describe('あるべき挙動', () => {
+      test('食品名に含まれる表記で一致する', () => {
+        expect(findFoodKnowledge('サーモンの刺身').map(e => e.id)).toEqual(['raw-fish'])
+        expect(findFoodKnowledge('生ハムメロン').map(e => e.id)).toEqual(['listeria-processed'])
+      })
+
+      test('ひらがな・カタカナや全角半角の表記ゆれを吸収する', () => {
+        expect(findFoodKnowledge('まぐろ丼').map(e => e.id)).toEqual(['mercury-fish'])
+        expect(findFoodKnowledge('ﾋﾞｰﾙ').map(e => e.id)).toEqual(['alcohol'])
+      })
+
+      test('複数の項目に一致した場合はすべて返す', () => {
+        const ids = findFoodKnowledge('マグロの刺身').map(e => e.id)
+
+        expect(ids).toContain('raw-fish')
+        expect(ids).toContain('mercury-fish')
+      })
+
+      test('より長い表記の一致が優先される', () => {
+        expect(findFoodKnowledge('キハダマグロ').map(e => e.id)).toEqual(['low-mercury-tuna'])
+      })
+
+      test('加熱済みなどの除外表記を含む場合は一致しない', () => {
+        expect(findFoodKnowledge('焼き寿司')).toEqual([])
+        expect(findFoodKnowledge('ノンアルコールビール')).toEqual([])
+        expect(findFoodKnowledge('ハンバーグパティ')).toEqual([])
+      })
+
+      test('一致した表記を含む別の食品は一致しない', () => {
+        expect(findFoodKnowledge('はるさめサラダ')).toEqual([])
+        expect(findFoodKnowledge('春雨スープ')).toEqual([])
+        expect(findFoodKnowledge('サメの煮付け').map(e => e.id)).toEqual(['mercury-fish'])
+        expect(findFoodKnowledge('いなり寿司')).toEqual([])
+        expect(findFoodKnowledge('かっぱ巻き寿司')).toEqual([])
+        expect(findFoodKnowledge('巻き寿司')).toEqual([])
+        expect(findFoodKnowledge('鉄火巻き寿司').map(e => e.id)).toEqual(['raw-fish'])
+      })
+
+      test('除外表記は一致した料理の中だけで判断する', () => {
+        expect(findFoodKnowledge('刺身と焼き魚定食').map(e => e.id)).toEqual(['raw-fish'])
+        expect(findFoodKnowledge('寿司、天ぷら').map(e => e.id)).toEqual(['raw-fish'])
+        expect(findFoodKnowledge('焼き魚と煮物').map(e => e.id)).toEqual([])
+        expect(findFoodKnowledge('ローストビーフ・ビール').map(e => e.id)).toEqual(['raw-meat', 'alcohol'])
+      })
+
+      test('知識ベースに無い食品は空配列を返す', () => {
+        expect(findFoodKnowledge('白米')).toEqual([])
+      })
+    })
+
+    test('すべての項目に理由と出典がある', () => {
+      FOOD_KNOWLEDGE.forEach(entry => {
+        expect(entry.reason).not.toBe('')
+        expect(entry.source).not.toBe('')
+        expect(entry.aliases.length).toBeGreaterThan(0)
+      })
+    })
+  })
+
+  describe('reconcileFoods', () => {
+    test('モデルが安全と判定しても知識ベースでリスクありに補正される', () => {
+      const [food] = reconcileFoods([{ name: '刺身盛り合わせ', level: 'safe', risk: false, details: '' }])
+
+      expect(food.level).toBe('caution')
+      expect(food.risk).toBe(true)
+      expect(food.corrected).toBe(true)
+      expect(food.details).toContain('寄生虫')
+      expect(food.source).toContain('厚生労働省')
+    })
+
+    test('同じ食品は説明も含めて常に同じ結果になる', () => {
+      const first = reconcileFoods([{ name: '刺身', level: 'avoid', risk: true, details: 'モデルの説明A' }])
+      const second = reconcileFoods([{ name: '刺身', level: 'safe', risk: false, details: 'モデルの説明B' }])
+
+      expect(first[0].level).toBe(second[0].level)
+      expect(first[0].details).toBe(second[0].details)
+    })
+
+    test('知識ベースで安全とされる食品はリスクなしに補正される', () => {
+      const [food] = reconcileFoods([{ name: 'ツナサラダ', level: 'limit', risk: true, details: '水銀' }])
+
+      expect(food.level).toBe('safe')
+      expect(food.risk).toBe(false)
+      expect(food.corrected).toBe(true)
+    })
+
+    test('複数の項目に一致した場合は最も深刻な段階になる', () => {
+      const [food] = reconcileFoods([{ name: 'マグロの刺身', level: 'safe', risk: false, details: '' }])
+
+      expect(food.level).toBe('limit')
+      expect(food.details).toContain('水銀')
+      expect(food.details).toContain('寄生虫')
+    })
+
+    test('妊娠時期に応じた注意が説明に加わる', () => {
+      const [early] = reconcileFoods([{ name: 'レバニラ炒め', level: 'limit', risk: true, details: '' }], { trimester: 1 })
+      const [late] = reconcileFoods([{ name: 'レバニラ炒め', level: 'limit', risk: true, details: '' }], { trimester: 3 })
+
+      expect(early.details).toContain('現在は妊娠初期')
+      expect(late.details).not.toContain('現在は妊娠初期')
+    })
+
+    test('知識ベースに無い食品はモデルの判定をそのまま使う', () => {
+      const [food] = reconcileFoods([{ name: '謎の料理', level: 'avoid', risk: true, details: 'モデルの説明' }])
+
+      expect(food).toEqual({ name: '謎の料理', level: 'avoid', risk: true, details: 'モデルの説明' })
+    })
+  })
+})
@@ -0,0 +1,67 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * 画像の知覚ハッシュのテスト
+ */
+
+import sharp from 'sharp'
+import { computeImageHash, differenceHash, hashDistance } from '../lib/image-hash'
+
+// 左から右へ明るくなるグラデーションに、四角形を重ねた写真の代わりの画像
+const createImage = async (options: { width?: number; square?: string } = {}) => {
+  const width = options.width ?? 320
+  const height = Math.round(width * 0.75)
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">
+    <defs><linearGradient id="g"><stop offset="0" stop-color="#202020"/><stop offset="1" stop-color="#f0e0c0"/></linearGradient></defs>
+    <rect width="100%" height="100%" fill="url(#g)"/>
+    <rect x="${width * 0.55}" y="${height * 0.1}" width="${width * 0.3}" height="${height * 0.5}" fill="${options.square ?? '#c03020'}"/>
+  </svg>`
+  return sharp(Buffer.from(svg))
+}
+
+const toDataUrl = (buffer: Buffer, type = 'image/jpeg') => `data:${type};base64,${buffer.toString('base64')}`
+
+describe('Image Hash', () => {
+  describe('あるべき挙動', () => {
+    test('再圧縮・縮小した同じ画像は、ほぼ同じハッシュになる', async () => {
+      const original = await computeImageHash(toDataUrl(await (await createImage()).jpeg({ quality: 90 }).toBuffer()))
+      const recompressed = await computeImageHash(toDataUrl(await (await createImage({ width: 160 })).jpeg({ quality: 40 }).toBuffer()))
+      const png = await computeImageHash(toDataUrl(await (await createImage()).png().toBuffer(), 'image/png'))
+
+      expect(original).toMatch(/^dhash:[0-9a-f]{16}$/)
+      expect(hashDistance(original, recompressed)).toBeLessThanOrEqual(3)
+      expect(hashDistance(original, png)).toBeLessThanOrEqual(3)
+    })
+
+    test('内容の異なる画像は、違いの大きいハッシュになる', async () => {
+      const image = await computeImageHash(toDataUrl(await (await createImage()).jpeg().toBuffer()))
+      const flipped = await computeImageHash(toDataUrl(await (await createImage()).flop().jpeg().toBuffer()))
+
+      expect(hashDistance(image, flipped)).toBeGreaterThan(3)
+    })
+
+    test('横に隣り合う画素の明暗を64ビットで表す', () => {
+      const descending = Uint8Array.from({ length: 72 }, (_, i) => 255 - (i % 9) * 10)
+      const ascending = Uint8Array.from({ length: 72 }, (_, i) => (i % 9) * 10)
+
+      expect(differenceHash(descending)).toBe('ffffffffffffffff')
+      expect(differenceHash(ascending)).toBe('0000000000000000')
+      expect(hashDistance('dhash:ffffffffffffffff', 'dhash:fffffffffffffff0')).toBe(4)
+    })
+  })
+
+  describe('エラーケース', () => {
+    test('デコードできない画像は、内容が完全に一致する場合だけ同じハッシュになる', async () => {
+      const heic = 'data:image/heic;base64,AAAAGGZ0eXBoZWljAAAAAG1pZjFoZWlj'
+
+      const hash = await computeImageHash(heic)
+
+      expect(hash).toMatch(/^sha256:[0-9a-f]{64}$/)
+      expect(await computeImageHash(heic)).toBe(hash)
+      expect(hashDistance(hash, await computeImageHash('data:image/heic;base64,AAAAGGZ0eXBoZWljAAAAAG1pZjFoZWld'))).toBe(Infinity)
+      expect(hashDistance(hash, 'dhash:0000000000000000')).toBe(Infinity)
+    })
+  })
+})
@@ -0,0 +1,129 @@
+/**
+ * アップロード前の画像処理のテスト
+ */
+
+import {
+  calculateTargetSize,
+  prepareImageForUpload,
+  stripJpegMetadata,
+  ImageProcessingError
+} from '../lib/image-processing'
+
+// SOI + APP0(JFIF) + APP1(Exif/GPS) + COM + DQT + SOS + 画像データ + EOI
+const createJpegWithExif = () => new Uint8Array([
+  0xFF, 0xD8,
+  0xFF, 0xE0, 0x00, 0x07, 0x4A, 0x46, 0x49, 0x46, 0x00,
+  0xFF, 0xE1, 0x00, 0x08, 0x45, 0x78, 0x69, 0x66, 0x47, 0x50,
+  0xFF, 0xFE, 0x00, 0x04, 0x68, 0x69,
+  0xFF, 0xDB, 0x00, 0x04, 0x01, 0x02,
+  0xFF, 0xDA, 0x00, 0x04, 0x03, 0x04, 0x11, 0x22, 0x33,
+  0xFF, 0xD9
+])
+
+const strippedJpeg = [
+  0xFF, 0xD8,
+  0xFF, 0xE0, 0x00, 0x07, 0x4A, 0x46, 0x49, 0x46, 0x00,
+  0xFF, 0xDB, 0x00, 0x04, 0x01, 0x02,
+  0xFF, 0xDA, 0x00, 0x04, 0x03, 0x04, 0x11, 0x22, 0x33,
+  0xFF, 0xD9
+]
+
+describe('Image Processing', () => {
+  describe('calculateTargetSize', () => {
+    test('長辺が上限に収まるよう縦横比を保って縮小される', () => {
+      expect(calculateTargetSize(4032, 3024, 1600)).toEqual({ width: 1600, height: 1200 })
+      expect(calculateTargetSize(3024, 4032, 1600)).toEqual({ width: 1200, height: 1600 })
+    })
+
+    test('上限より小さい画像は拡大されない', () => {
+      expect(calculateTargetSize(800, 600, 1600)).toEqual({ width: 800, height: 600 })
+    })
+  })
+
+  describe('stripJpegMetadata', () => {
+    test('EXIFとコメントが除去され、画像データは残る', () => {
+      expect(Array.from(stripJpegMetadata(createJpegWithExif()))).toEqual(strippedJpeg)
+    })
+
+    test('JPEG以外のデータはそのまま返される', () => {
+      const png = new Uint8Array([0x89, 0x50, 0x4E, 0x47])
+      expect(stripJpegMetadata(png)).toBe(png)
+    })
+
+    test('壊れたJPEGはエラーになる', () => {
+      const broken = new Uint8Array([0xFF, 0xD8, 0xFF, 0xE1, 0x00, 0x40, 0x45])
+      expect(() => stripJpegMetadata(broken)).toThrow(ImageProcessingError)
+    })
+  })
+
+  describe('prepareImageForUpload', () => {
+    afterEach(() => {
+      jest.restoreAllMocks()
+      delete (window as any).createImageBitmap
+    })
+
+    test('縮小・再エンコードして進捗を通知する', async () => {
+      const bitmap = { width: 4000, height: 3000, close: jest.fn() }
+      ;(window as any).createImageBitmap = jest.fn().mockResolvedValue(bitmap)
+      const drawImage = jest.fn()
+      jest.spyOn(HTMLCanvasElement.prototype, 'getContext').mockReturnValue({ drawImage } as any)
+      const toBlob = jest.spyOn(HTMLCanvasElement.prototype, 'toBlob').mockImplementation(function (callback) {
+        callback(new Blob(['encoded'], { type: 'image/jpeg' }))
+      })
+      const onProgress = jest.fn()
+
+      const file = new File(['original'], 'photo.jpg', { type: 'image/jpeg' })
+      const result = await prepareImageForUpload(file, { maxDimension: 1000, quality: 0.7, onProgress })
+
+      expect(result).toMatch(/^data:image\/jpeg;base64,/)
+      expect(atob(result.split(',')[1])).toBe('encoded')
+      expect(drawImage).toHaveBeenCalledWith(bitmap, 0, 0, 1000, 750)
+      expect(toBlob).toHaveBeenCalledWith(expect.any(Function), 'image/jpeg', 0.7)
+      expect(bitmap.close).toHaveBeenCalled()
+      expect(onProgress).toHaveBeenNthCalledWith(1, 0)
+      expect(onProgress).toHaveBeenLastCalledWith(1)
+    })
+
+    test('WebP非対応の場合はJPEGで再エンコードされる', async () => {
+      ;(window as any).createImageBitmap = jest.fn().mockResolvedValue({ width: 10, height: 10, close: jest.fn() })
+      jest.spyOn(HTMLCanvasElement.prototype, 'getContext').mockReturnValue({ drawImage: jest.fn() } as any)
+      const toBlob = jest.spyOn(HTMLCanvasElement.prototype, 'toBlob').mockImplementation(function (callback, type) {
+        callback(new Blob(['x'], { type: type === 'image/webp' ? 'image/png' : type }))
+      })
+
+      const result = await prepareImageForUpload(new Blob(['x']), { mimeType: 'image/webp' })
+
+      expect(toBlob).toHaveBeenLastCalledWith(expect.any(Function), 'image/jpeg', expect.any(Number))
+      expect(result).toMatch(/^data:image\/jpeg;base64,/)
+    })
+
+    test('縮小できない環境でもJPEGのEXIFは取り除かれる', async () => {
+      const file = new File([createJpegWithExif()], 'photo.jpg', { type: 'image/jpeg' })
+
+      const result = await prepareImageForUpload(file)
+
+      const bytes = Array.from(atob(result.split(',')[1]), char => char.charCodeAt(0))
+      expect(result).toMatch(/^data:image\/jpeg;base64,/)
+      expect(bytes).toEqual(strippedJpeg)
+    })
+
+    test('MIMEタイプが空のHEICファイルは中身から形式が判別される', async () => {
+      const heic = 'AAAAGGZ0eXBoZWljAAAAAG1pZjFoZWljAAAAMG1ldGEAAAAAAAAAJGlwcnAAAAAcaXBjbwAAABRpc3BlAAAAAAAAD8AAAAvQAAAADG1kYXQBAgME'
+      const file = new File([Uint8Array.from(atob(heic), char => char.charCodeAt(0))], 'IMG_0001.HEIC', { type: '' })
+
+      const result = await prepareImageForUpload(file)
+
+      expect(result).toBe(`data:image/heic;base64,${heic}`)
+    })
+
+    test('ブラウザがデコードできない画像は元のデータで返される', async () => {
+      ;(window as any).createImageBitmap = jest.fn().mockRejectedValue(new Error('decode error'))
+      jest.spyOn(console, 'warn').mockImplementation(() => {})
+
+      const file = new File(['png-data'], 'photo.png', { type: 'image/png' })
+      const result = await prepareImageForUpload(file)
+
+      expect(result).toBe(`data:image/png;base64,${btoa('png-data')}`)
+    })
+  })
+})
@@ -0,0 +1,53 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * 写真の品質判定のテスト
+ */
+
+import sharp from 'sharp'
+import { assessImageQuality, findImageQualityIssues, measureImageQuality } from '../lib/image-quality'
+
+// 細かい模様（市松模様）の上に四角形を重ねた、ピントの合った写真の代わりの画像
+const createImage = () => {
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="480" height="360">
+    <defs><pattern id="p" width="16" height="16" patternUnits="userSpaceOnUse">
+      <rect width="16" height="16" fill="#f0e0c0"/><rect width="8" height="8" fill="#806040"/><rect x="8" y="8" width="8" height="8" fill="#806040"/>
+    </pattern></defs>
+    <rect width="100%" height="100%" fill="url(#p)"/>
+    <rect x="260" y="40" width="140" height="180" fill="#c03020"/>
+  </svg>`
+  return sharp(Buffer.from(svg))
+}
+
+const toDataUrl = (buffer: Buffer) => `data:image/jpeg;base64,${buffer.toString('base64')}`
+
+describe('Image Quality', () => {
+  describe('あるべき挙動', () => {
+    test('ピントが合った明るい写真には問題がない', async () => {
+      expect(await assessImageQuality(toDataUrl(await createImage().jpeg().toBuffer()))).toEqual([])
+    })
+
+    test('ぼやけた写真は blurry と判定される', async () => {
+      expect(await assessImageQuality(toDataUrl(await createImage().blur(12).jpeg().toBuffer()))).toEqual(['blurry'])
+    })
+
+    test('暗い写真は dark と判定される', async () => {
+      expect(await assessImageQuality(toDataUrl(await createImage().linear(0.12, 0).jpeg().toBuffer()))).toContain('dark')
+    })
+
+    test('一様な画素はエッジが無く、平均輝度がそのまま明るさになる', () => {
+      const quality = measureImageQuality(new Uint8Array(16).fill(20), 4, 4)
+
+      expect(quality).toEqual({ brightness: 20, sharpness: 0 })
+      expect(findImageQualityIssues(quality)).toEqual(['blurry', 'dark'])
+    })
+  })
+
+  describe('エラーケース', () => {
+    test('デコードできない画像は判定せず、問題なしとして扱う', async () => {
+      expect(await assessImageQuality('data:image/heic;base64,AAAAGGZ0eXBoZWljAAAAAG1pZjFoZWlj')).toEqual([])
+    })
+  })
+})
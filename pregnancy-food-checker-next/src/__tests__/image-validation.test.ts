@@ -0,0 +1,142 @@
+/**
+ * 画像データの実体検証のテスト
+ */
+
+import { decodeBase64, detectImageType, encodeBase64, inspectImage } from '../lib/image-validation'
+
+// 3x2ピクセルの画像
+const JPEG_BASE64 = '/9j/2wBDAAYEBQYFBAYGBQYHBwYIChAKCgkJChQODwwQFxQYGBcUFhYaHSUfGhsjHBYWICwgIyYnKSopGR8tMC0oMCUoKSj/2wBDAQcHBwoIChMKChMoGhYaKCgoKCgoKCgoKCgoKCgoKCgoKCgoKCgoKCgoKCgoKCgoKCgoKCgoKCgoKCgoKCgoKCj/wAARCAACAAMDASIAAhEBAxEB/8QAFQABAQAAAAAAAAAAAAAAAAAAAAf/xAAUEAEAAAAAAAAAAAAAAAAAAAAA/8QAFQEBAQAAAAAAAAAAAAAAAAAABgj/xAAUEQEAAAAAAAAAAAAAAAAAAAAA/9oADAMBAAIRAxEAPwCdABykX//Z'
+const WEBP_LOSSY_BASE64 = 'UklGRjwAAABXRUJQVlA4IDAAAADQAQCdASoDAAIAAUAmJaACdLoB+AADsAD+8ut//NgVzXPv9//S4P0uD9Lg/9KQAAA='
+const WEBP_LOSSLESS_BASE64 = 'UklGRhwAAABXRUJQVlA4TA8AAAAvAkAAAAcQ/Y/+ByKi/wEA'
+// 1x1ピクセルのPNG
+const PNG_BASE64 = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChAHGu+CJKQAAAABJRU5ErkJggg=='
+
+const bytesOf = (base64: string) => decodeBase64(base64)!
+
+const concat = (...parts: Uint8Array[]) => {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0))
+  let offset = 0
+  parts.forEach(part => {
+    result.set(part, offset)
+    offset += part.length
+  })
+  return result
+}
+
+const ascii = (text: string) => Uint8Array.from(text, char => char.charCodeAt(0))
+
+const uint32 = (value: number) => new Uint8Array([value >>> 24, (value >>> 16) & 0xFF, (value >>> 8) & 0xFF, value & 0xFF])
+
+// ISO BMFFのボックス
+const box = (type: string, payload: Uint8Array) => concat(uint32(8 + payload.length), ascii(type), payload)
+
+const createHeic = (width: number, height: number) => concat(
+  box('ftyp', concat(ascii('heic'), uint32(0), ascii('mif1heic'))),
+  box('meta', concat(uint32(0), box('iprp', box('ipco', box('ispe', concat(uint32(0), uint32(width), uint32(height))))))),
+  box('mdat', new Uint8Array([1, 2, 3, 4]))
+)
+
+describe('Image Validation', () => {
+  describe('detectImageType', () => {
+    test('マジックバイトから形式を判別できる', () => {
+      expect(detectImageType(bytesOf(JPEG_BASE64))).toBe('image/jpeg')
+      expect(detectImageType(bytesOf(PNG_BASE64))).toBe('image/png')
+      expect(detectImageType(bytesOf(WEBP_LOSSY_BASE64))).toBe('image/webp')
+      expect(detectImageType(createHeic(4032, 3024))).toBe('image/heic')
+    })
+
+    test('画像でないデータは判別できない', () => {
+      expect(detectImageType(ascii('<svg xmlns="http://www.w3.org/2000/svg"></svg>'))).toBeNull()
+      expect(detectImageType(ascii('GIF89a'))).toBeNull()
+      expect(detectImageType(new Uint8Array())).toBeNull()
+    })
+  })
+
+  describe('inspectImage', () => {
+    describe('あるべき挙動', () => {
+      test('各形式の縦横サイズを取得できる', () => {
+        expect(inspectImage(bytesOf(JPEG_BASE64)).image).toEqual({ mimeType: 'image/jpeg', width: 3, height: 2 })
+        expect(inspectImage(bytesOf(PNG_BASE64)).image).toEqual({ mimeType: 'image/png', width: 1, height: 1 })
+        expect(inspectImage(bytesOf(WEBP_LOSSY_BASE64)).image).toEqual({ mimeType: 'image/webp', width: 3, height: 2 })
+        expect(inspectImage(bytesOf(WEBP_LOSSLESS_BASE64)).image).toEqual({ mimeType: 'image/webp', width: 3, height: 2 })
+        expect(inspectImage(createHeic(4032, 3024)).image).toEqual({ mimeType: 'image/heic', width: 4032, height: 3024 })
+      })
+
+      test('JPEGのEOIの後ろに付け足されたデータ（MPF・モーションフォト）は画像に含めない', () => {
+        const jpeg = bytesOf(JPEG_BASE64)
+        const mpf = concat(jpeg, bytesOf(JPEG_BASE64))
+        const motionPhoto = concat(jpeg, box('ftyp', ascii('mp42')), box('mdat', new Uint8Array([1, 2, 3, 4])))
+
+        expect(inspectImage(mpf)).toEqual({ isValid: true, image: { mimeType: 'image/jpeg', width: 3, height: 2 }, length: jpeg.length })
+        expect(inspectImage(motionPhoto).length).toBe(jpeg.length)
+      })
+    })
+
+    describe('エラーケース', () => {
+      test('途中で途切れた画像は拒否される', () => {
+        const samples = [JPEG_BASE64, PNG_BASE64, WEBP_LOSSY_BASE64].map(bytesOf)
+
+        samples.forEach(bytes => {
+          const result = inspectImage(bytes.subarray(0, bytes.length - 6))
+          expect(result.isValid).toBe(false)
+          expect(result.error).toBe('画像データが途中で途切れています')
+        })
+        expect(inspectImage(createHeic(10, 10).subarray(0, 60)).error).toBe('画像データが途中で途切れています')
+      })
+
+      test('末尾に別のデータを連結したポリグロットは拒否される（JPEGは後ろのデータを画像に含めない）', () => {
+        const zip = concat(new Uint8Array([0x50, 0x4B, 0x03, 0x04]), ascii('payload.js'))
+        const html = ascii('<script>alert(1)</script>')
+
+        expect(inspectImage(concat(bytesOf(JPEG_BASE64), zip)).length).toBe(bytesOf(JPEG_BASE64).length)
+        expect(inspectImage(concat(bytesOf(PNG_BASE64), html)).error).toBe('画像データの後ろに不正なデータが含まれています')
+        expect(inspectImage(concat(bytesOf(WEBP_LOSSY_BASE64), html)).error).toBe('画像データの後ろに不正なデータが含まれています')
+      })
+
+      test('画像でないデータは拒否される', () => {
+        expect(inspectImage(ascii('<html><body>hello</body></html>')).error).toBe('画像形式を判別できません')
+      })
+
+      test('縦横サイズが大きすぎる画像は拒否される', () => {
+        const png = bytesOf(PNG_BASE64)
+        png.set(uint32(20000), 16)
+
+        expect(inspectImage(png).error).toBe('画像の縦横サイズが大きすぎます')
+        expect(inspectImage(createHeic(10000, 10000)).error).toBe('画像の縦横サイズが大きすぎます')
+      })
+
+      test('縦横サイズが0の画像は拒否される', () => {
+        const png = bytesOf(PNG_BASE64)
+        png.set(uint32(0), 20)
+
+        expect(inspectImage(png).error).toBe('画像サイズを判別できません')
+      })
+
+      test('PNGの先頭チャンクがIHDRでない場合は拒否される', () => {
+        const png = bytesOf(PNG_BASE64)
+        png.set(ascii('tEXt'), 12)
+
+        expect(inspectImage(png).error).toBe('画像データが破損しています')
+      })
+    })
+  })
+
+  describe('decodeBase64', () => {
+    test('全体をデコードできる', () => {
+      expect(Array.from(decodeBase64('AQID')!)).toEqual([1, 2, 3])
+    })
+
+    test('長さや文字が不正な場合は null を返す', () => {
+      expect(decodeBase64('AQI')).toBeNull()
+      expect(decodeBase64('AQ=D')).toBeNull()
+      expect(decodeBase64('')).toBeNull()
+    })
+  })
+
+  describe('encodeBase64', () => {
+    test('バイト列の一部をエンコードできる', () => {
+      expect(encodeBase64(new Uint8Array([0, 1, 2, 3, 255]).subarray(1, 4))).toBe('AQID')
+      expect(encodeBase64(bytesOf(JPEG_BASE64))).toBe(JPEG_BASE64)
+    })
+  })
+})
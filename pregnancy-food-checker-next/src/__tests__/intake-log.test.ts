@@ -0,0 +1,105 @@
+/**
+ * 量に注意が必要な食品の摂取記録のテスト
+ */
+
+import {
+  createIntakeRecord,
+  describeIntakeWarning,
+  findIntakeCategory,
+  IntakeRecord,
+  loadIntakeLog,
+  saveIntakeLog,
+  summarizeIntake
+} from '../lib/intake-log'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+// 端末の時刻で正午（日付の境目をまたがないようにする）
+const NOW = new Date(2025, 5, 15, 12, 0, 0).getTime()
+
+const record = (foodName: string, loggedAt: number, servings = 1): IntakeRecord => {
+  const category = findIntakeCategory(foodName)
+  if (!category) throw new Error(`記録の対象外です: ${foodName}`)
+  return createIntakeRecord({ category, foodName, servings }, loggedAt)
+}
+
+describe('Intake Log', () => {
+  describe('あるべき挙動', () => {
+    test('知識ベースの区分から記録の対象を判定する', () => {
+      expect(findIntakeCategory('マグロの刺身')).toBe('mercury')
+      expect(findIntakeCategory('カフェラテ')).toBe('caffeine')
+      expect(findIntakeCategory('レバニラ炒め')).toBe('vitamin_a')
+      expect(findIntakeCategory('キハダマグロ')).toBeNull()
+      expect(findIntakeCategory('デカフェのコーヒー')).toBeNull()
+      expect(findIntakeCategory('白米')).toBeNull()
+    })
+
+    test('一致した表記を含む別の食品は記録の対象にしない', () => {
+      expect(findIntakeCategory('はるさめサラダ')).toBeNull()
+      expect(findIntakeCategory('はるさめとサメの煮付け')).toBe('mercury')
+    })
+
+    test('カフェインは今日の分、魚とビタミンAは7日間の分をまとめる', () => {
+      const summaries = summarizeIntake([
+        record('コーヒー', NOW - 2 * 60 * 60 * 1000),
+        record('コーヒー', NOW - DAY_MS), // 昨日の分は数えない
+        record('マグロ丼', NOW - 3 * DAY_MS),
+        record('メカジキのソテー', NOW - 6 * DAY_MS),
+        record('うなぎの蒲焼き', NOW - 8 * DAY_MS) // 7日より前の分は数えない
+      ], NOW)
+
+      expect(summaries.map(({ guideline, servings, status }) => [guideline.category, servings, status])).toEqual([
+        ['mercury', 2, 'over'],
+        ['caffeine', 1, 'approaching']
+      ])
+    })
+
+    test('目安との比較に応じて注意を返す', () => {
+      const [caffeine] = summarizeIntake([record('コーヒー', NOW, 2)], NOW)
+
+      expect(caffeine.status).toBe('reached')
+      expect(describeIntakeWarning(caffeine)).toContain('今日はカフェインを2杯記録しています。目安（2杯）に達しました。')
+      expect(describeIntakeWarning({ ...caffeine, servings: 0.5, status: 'ok' })).toBeNull()
+    })
+  })
+
+  describe('端末内での保存', () => {
+    beforeEach(() => {
+      window.localStorage.clear()
+    })
+
+    test('保存した記録を読み込める', () => {
+      const records = [record('コーヒー', NOW), record('マグロ丼', NOW - DAY_MS)]
+      saveIntakeLog(records, NOW)
+
+      expect(loadIntakeLog(NOW)).toEqual(records)
+    })
+
+    test('7日を過ぎた記録は保存も読み込みもしない', () => {
+      saveIntakeLog([record('コーヒー', NOW - 8 * DAY_MS), record('コーヒー', NOW)], NOW)
+      expect(loadIntakeLog(NOW)).toHaveLength(1)
+
+      expect(loadIntakeLog(NOW + 7 * DAY_MS)).toEqual([])
+    })
+
+    test('記録が無くなると保存を削除する', () => {
+      saveIntakeLog([record('コーヒー', NOW)], NOW)
+      saveIntakeLog([], NOW)
+
+      expect(window.localStorage.getItem('intakeLog')).toBeNull()
+    })
+  })
+
+  describe('エラーケース', () => {
+    test('壊れた保存内容や不正な記録は読み込まない', () => {
+      window.localStorage.setItem('intakeLog', '{not json')
+      expect(loadIntakeLog(NOW)).toEqual([])
+
+      window.localStorage.setItem('intakeLog', JSON.stringify([
+        { id: 'a', category: 'alcohol', foodName: 'ビール', servings: 1, loggedAt: NOW },
+        { id: 'b', category: 'caffeine', foodName: 'コーヒー', servings: -1, loggedAt: NOW },
+        { id: 'c', category: 'caffeine', foodName: 'コーヒー', servings: 1, loggedAt: NOW }
+      ]))
+      expect(loadIntakeLog(NOW).map(stored => stored.id)).toEqual(['c'])
+    })
+  })
+})
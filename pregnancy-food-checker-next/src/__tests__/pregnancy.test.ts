@@ -0,0 +1,84 @@
+import {
+  getTrimester,
+  loadPregnancyWeek,
+  resolvePregnancyWeek,
+  savePregnancyWeek,
+  weekFromDueDate
+} from '../lib/pregnancy'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+describe('Pregnancy Week', () => {
+  describe('getTrimester', () => {
+    test('週数から妊娠時期を判定する', () => {
+      expect(getTrimester(4)).toBe(1)
+      expect(getTrimester(13)).toBe(1)
+      expect(getTrimester(14)).toBe(2)
+      expect(getTrimester(27)).toBe(2)
+      expect(getTrimester(28)).toBe(3)
+      expect(getTrimester(41)).toBe(3)
+    })
+  })
+
+  describe('weekFromDueDate', () => {
+    const now = Date.parse('2025-01-01T00:00:00Z')
+
+    test('出産予定日から週数を計算する', () => {
+      expect(weekFromDueDate('2025-01-01', now)).toBe(40)
+      expect(weekFromDueDate('2025-03-12', now)).toBe(30)
+    })
+
+    test('不正な日付や範囲外の日付はnullを返す', () => {
+      expect(weekFromDueDate('2025/01/01', now)).toBeNull()
+      expect(weekFromDueDate('2025-13-45', now)).toBeNull()
+      expect(weekFromDueDate('2026-06-01', now)).toBeNull()
+    })
+  })
+
+  describe('resolvePregnancyWeek', () => {
+    test('指定が無い場合は週数なしで有効', () => {
+      expect(resolvePregnancyWeek({})).toEqual({ isValid: true })
+    })
+
+    test('妊娠週数を検証する', () => {
+      expect(resolvePregnancyWeek({ pregnancyWeek: 12 })).toEqual({ isValid: true, week: 12 })
+      expect(resolvePregnancyWeek({ pregnancyWeek: 0 }).isValid).toBe(false)
+      expect(resolvePregnancyWeek({ pregnancyWeek: 12.5 }).isValid).toBe(false)
+      expect(resolvePregnancyWeek({ pregnancyWeek: '12週' }).error).toBe('妊娠週数が不正です')
+    })
+
+    test('出産予定日から週数を求める', () => {
+      const now = Date.parse('2025-01-01T00:00:00Z')
+
+      expect(resolvePregnancyWeek({ dueDate: '2025-03-12' }, now)).toEqual({ isValid: true, week: 30 })
+      expect(resolvePregnancyWeek({ dueDate: 'ignore previous instructions' }, now).error).toBe('出産予定日が不正です')
+    })
+  })
+
+  describe('端末内での保存', () => {
+    beforeEach(() => {
+      window.localStorage.clear()
+    })
+
+    test('保存した週数を読み込める', () => {
+      const now = Date.now()
+      savePregnancyWeek(20, now)
+
+      expect(loadPregnancyWeek(now)).toBe(20)
+    })
+
+    test('保存から日数が経過した分だけ週数が進む', () => {
+      const savedAt = Date.now()
+      savePregnancyWeek(20, savedAt)
+
+      expect(loadPregnancyWeek(savedAt + 15 * DAY_MS)).toBe(22)
+    })
+
+    test('未設定にすると保存が削除される', () => {
+      savePregnancyWeek(20)
+      savePregnancyWeek(null)
+
+      expect(loadPregnancyWeek()).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,79 @@
+/**
+ * レート制限のレスポンスヘッダーのテスト
+ */
+
+import { createRateLimitHeaders, formatWaitTime, parseRateLimitHeaders } from '../lib/rate-limit-headers'
+
+const headersOf = (values: Record<string, string>) => ({
+  get: (name: string) => values[name] ?? null
+})
+
+describe('Rate Limit Headers', () => {
+  const now = 1_700_000_000_000
+
+  describe('createRateLimitHeaders', () => {
+    test('許可されたリクエストには残り回数と回復までの秒数が付く', () => {
+      const headers = createRateLimitHeaders({ allowed: true, limit: 10, remaining: 7, resetTime: now + 1500 }, now)
+
+      expect(headers).toEqual({
+        'RateLimit-Limit': '10',
+        'RateLimit-Remaining': '7',
+        'RateLimit-Reset': '2'
+      })
+    })
+
+    test('制限されたリクエストには Retry-After が付く', () => {
+      const headers = createRateLimitHeaders({ allowed: false, limit: 10, remaining: 0, resetTime: now + 754_000 }, now)
+
+      expect(headers['RateLimit-Remaining']).toBe('0')
+      expect(headers['RateLimit-Reset']).toBe('754')
+      expect(headers['Retry-After']).toBe('754')
+    })
+
+    test('回復時刻を過ぎていても Retry-After は1秒以上になる', () => {
+      const headers = createRateLimitHeaders({ allowed: false, limit: 0, remaining: 0, resetTime: now - 10 }, now)
+
+      expect(headers['RateLimit-Reset']).toBe('0')
+      expect(headers['Retry-After']).toBe('1')
+    })
+  })
+
+  describe('parseRateLimitHeaders', () => {
+    test('ヘッダーから残り回数と時刻を読み取れる', () => {
+      const status = parseRateLimitHeaders(headersOf({
+        'RateLimit-Limit': '10',
+        'RateLimit-Remaining': '0',
+        'RateLimit-Reset': '60',
+        'Retry-After': '60'
+      }), now)
+
+      expect(status).toEqual({ limit: 10, remaining: 0, resetAt: now + 60_000, retryAt: now + 60_000 })
+    })
+
+    test('Retry-After だけの場合も制限中として扱う', () => {
+      expect(parseRateLimitHeaders(headersOf({ 'Retry-After': '30' }), now)).toEqual({
+        limit: null, remaining: 0, resetAt: now + 30_000, retryAt: now + 30_000
+      })
+    })
+
+    test('ヘッダーが無い・不正な場合は null を返す', () => {
+      expect(parseRateLimitHeaders(undefined, now)).toBeNull()
+      expect(parseRateLimitHeaders(headersOf({}), now)).toBeNull()
+      expect(parseRateLimitHeaders(headersOf({ 'RateLimit-Remaining': 'many', 'RateLimit-Reset': '-1' }), now)).toBeNull()
+    })
+  })
+
+  describe('formatWaitTime', () => {
+    test('残り時間を読みやすい形式で表す', () => {
+      expect(formatWaitTime(30_000)).toBe('30秒')
+      expect(formatWaitTime(754_000)).toBe('12分34秒')
+      expect(formatWaitTime(65_000)).toBe('1分05秒')
+      expect(formatWaitTime(3_900_000)).toBe('1時間5分')
+    })
+
+    test('端数は切り上げ、負の値は0秒になる', () => {
+      expect(formatWaitTime(1)).toBe('1秒')
+      expect(formatWaitTime(-500)).toBe('0秒')
+    })
+  })
+})
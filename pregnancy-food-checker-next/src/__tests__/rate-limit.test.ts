@@ -1,4 +1,39 @@
-import { rateLimit } from '../lib/rate-limit'
+import { createMemoryStore, createRedisStore, getRateLimitAlgorithm, getRouteRateLimitConfig, rateLimit, RateLimitAlgorithm } from '../lib/rate-limit'
+import { RedisReply } from '../lib/redis-client'
+
+// EVALで送られるスクリプトと同じ振る舞いをするRedisのフェイク（fixed-window と sliding-log のみ）
+const createFakeRedisClient = () => {
+  const counters = new Map<string, { count: number; expiresAt: number }>()
+  const logs = new Map<string, number[]>()
+  const commands: string[][] = []
+
+  return {
+    commands,
+    sendCommand: jest.fn(async (args: string[]): Promise<RedisReply> => {
+      commands.push(args)
+      const [command, script, , key, windowMs] = args
+      if (command !== 'EVAL') throw new Error(`unexpected command: ${command}`)
+
+      if (script.includes('ZADD')) {
+        const [, , , , now, window, limit] = args.map(Number)
+        const log = (logs.get(key) ?? []).filter(time => time > now - window)
+        const allowed = log.length < limit
+        if (allowed) log.push(now)
+        logs.set(key, log)
+        return [allowed ? 1 : 0, log.length, String(log[0] ?? now)]
+      }
+
+      const now = Date.now()
+      const counter = counters.get(key)
+      if (!counter || counter.expiresAt <= now) {
+        counters.set(key, { count: 1, expiresAt: now + Number(windowMs) })
+        return [1, Number(windowMs)]
+      }
+      counter.count++
+      return [counter.count, counter.expiresAt - now]
+    })
+  }
+}
 
 // テスト用のモックリクエスト作成関数
 const createMockRequest = (options: {
@@ -52,29 +87,29 @@ describe('Rate Limiting', () => {
   })
 
   describe('あるべき挙動', () => {
-    test('制限内のリクエストは許可される', () => {
+    test('制限内のリクエストは許可される', async () => {
       const request = createMockRequest({ 
         ip: '192.168.1.1', 
         userAgent: 'test-browser' 
       })
 
       // 1回目のリクエスト
-      const result1 = limiter.check(request)
+      const result1 = await limiter.check(request)
       expect(result1.allowed).toBe(true)
       expect(result1.remaining).toBe(2)
 
       // 2回目のリクエスト
-      const result2 = limiter.check(request)
+      const result2 = await limiter.check(request)
       expect(result2.allowed).toBe(true)
       expect(result2.remaining).toBe(1)
 
       // 3回目のリクエスト
-      const result3 = limiter.check(request)
+      const result3 = await limiter.check(request)
       expect(result3.allowed).toBe(true)
       expect(result3.remaining).toBe(0)
     })
 
-    test('制限を超えたリクエストは拒否される', () => {
+    test('制限を超えたリクエストは拒否される', async () => {
       const request = createMockRequest({ 
         ip: '192.168.1.1', 
         userAgent: 'test-browser' 
@@ -82,17 +117,17 @@ describe('Rate Limiting', () => {
 
       // 制限まで使い切る
       for (let i = 0; i < testConfig.maxRequests; i++) {
-        limiter.check(request)
+        await limiter.check(request)
       }
 
       // 制限を超えるリクエスト
-      const result = limiter.check(request)
+      const result = await limiter.check(request)
       expect(result.allowed).toBe(false)
       expect(result.remaining).toBe(0)
       expect(result.resetTime).toBeDefined()
     })
 
-    test('異なるクライアントは独立して制限される', () => {
+    test('異なるクライアントは独立して制限される', async () => {
       const request1 = createMockRequest({ 
         ip: '192.168.1.1', 
         userAgent: 'test-browser-1' 
@@ -104,15 +139,15 @@ describe('Rate Limiting', () => {
 
       // クライアント1が制限まで使用
       for (let i = 0; i < testConfig.maxRequests; i++) {
-        limiter.check(request1)
+        await limiter.check(request1)
       }
 
       // クライアント1は制限される
-      const result1 = limiter.check(request1)
+      const result1 = await limiter.check(request1)
       expect(result1.allowed).toBe(false)
 
       // クライアント2は制限されない
-      const result2 = limiter.check(request2)
+      const result2 = await limiter.check(request2)
       expect(result2.allowed).toBe(true)
       expect(result2.remaining).toBe(2)
     })
@@ -125,22 +160,22 @@ describe('Rate Limiting', () => {
 
       // 制限まで使い切る
       for (let i = 0; i < testConfig.maxRequests; i++) {
-        limiter.check(request)
+        await limiter.check(request)
       }
 
       // 制限を超えるリクエストは拒否される
-      expect(limiter.check(request).allowed).toBe(false)
+      expect((await limiter.check(request)).allowed).toBe(false)
 
       // 時間を進める（実際のテストでは待機時間を短くする）
       await new Promise(resolve => setTimeout(resolve, testConfig.windowMs + 100))
 
       // 時間窓がリセットされて再度許可される
-      const result = limiter.check(request)
+      const result = await limiter.check(request)
       expect(result.allowed).toBe(true)
       expect(result.remaining).toBe(2)
     })
 
-    test('同じIPでも異なるUser-Agentは別クライアントとして扱われる', () => {
+    test('User-Agentを変えても同じクライアントとして扱われる', async () => {
       const request1 = createMockRequest({ 
         ip: '192.168.1.1', 
         userAgent: 'browser-1' 
@@ -150,43 +185,366 @@ describe('Rate Limiting', () => {
         userAgent: 'browser-2' 
       })
 
-      // 同じIPでも異なるUser-Agentは独立
-      const result1 = limiter.check(request1)
-      const result2 = limiter.check(request2)
+      // User-Agentは自由に書き換えられるため、識別には使わない
+      const result1 = await limiter.check(request1)
+      const result2 = await limiter.check(request2)
 
       expect(result1.allowed).toBe(true)
       expect(result1.remaining).toBe(2)
       expect(result2.allowed).toBe(true)
-      expect(result2.remaining).toBe(2)
+      expect(result2.remaining).toBe(1)
     })
 
-    test('不明なIPやUser-Agentでも正常に動作する', () => {
+    test('x-forwarded-forの先頭を書き換えても制限を回避できない', async () => {
+      // プロキシが末尾に実際の接続元を付け足す
+      const spoofed = (fakeIp: string) => createMockRequest({ ip: `${fakeIp}, 203.0.113.7` })
+
+      for (let i = 0; i < testConfig.maxRequests; i++) {
+        await limiter.check(spoofed(`10.0.0.${i}`))
+      }
+
+      expect((await limiter.check(spoofed('10.0.0.99'))).allowed).toBe(false)
+    })
+
+    test('不明なIPやUser-Agentでも正常に動作する', async () => {
       const request = createMockRequest({}) // IP, User-Agent共に未設定
 
-      const result = limiter.check(request)
+      const result = await limiter.check(request)
       expect(result.allowed).toBe(true)
       expect(result.remaining).toBe(2)
     })
   })
 
   describe('エッジケース', () => {
-    test('非常に短い時間窓でも正常に動作する', () => {
+    test('非常に短い時間窓でも正常に動作する', async () => {
       const shortLimiter = rateLimit({ maxRequests: 1, windowMs: 1 })
       const request = createMockRequest({ ip: '192.168.1.1' })
+      // ストアの呼び出しは非同期のため、2回のチェックが同じ時間窓に入るよう時刻を固定する
+      const now = jest.spyOn(Date, 'now').mockReturnValue(Date.now())
 
-      const result1 = shortLimiter.check(request)
+      const result1 = await shortLimiter.check(request)
       expect(result1.allowed).toBe(true)
 
-      const result2 = shortLimiter.check(request)
+      const result2 = await shortLimiter.check(request)
       expect(result2.allowed).toBe(false)
+      now.mockRestore()
     })
 
-    test('maxRequests=0の場合はすべて拒否される', () => {
+    test('maxRequests=0の場合はすべて拒否される', async () => {
       const strictLimiter = rateLimit({ maxRequests: 0, windowMs: 1000 })
       const request = createMockRequest({ ip: '192.168.1.1' })
 
-      const result = strictLimiter.check(request)
+      const result = await strictLimiter.check(request)
       expect(result.allowed).toBe(false)
     })
   })
+
+  describe('ストア', () => {
+    afterEach(() => {
+      jest.restoreAllMocks()
+    })
+
+    test('Redisストアでは複数のインスタンスでカウンターが共有される', async () => {
+      const client = createFakeRedisClient()
+      const store = createRedisStore(client)
+      const request = createMockRequest({ ip: '10.0.0.1', userAgent: 'test-browser' })
+
+      // サーバーレス環境で別々のインスタンスが同じRedisを使う状況
+      const instance1 = rateLimit({ ...testConfig, store })
+      const instance2 = rateLimit({ ...testConfig, store })
+
+      expect((await instance1.check(request)).remaining).toBe(2)
+      expect((await instance2.check(request)).remaining).toBe(1)
+      expect((await instance1.check(request)).remaining).toBe(0)
+
+      const result = await instance2.check(request)
+      expect(result.allowed).toBe(false)
+      expect(result.resetTime).toBeGreaterThan(Date.now())
+    })
+
+    test('増加と期限設定は1つのスクリプトで不可分に実行される', async () => {
+      const client = createFakeRedisClient()
+      const limiter = rateLimit({ ...testConfig, store: createRedisStore(client), prefix: 'ratelimit:test' })
+
+      await limiter.check(createMockRequest({ ip: '10.0.0.2' }))
+
+      expect(client.commands).toHaveLength(1)
+      const [command, script, keyCount, key, windowMs] = client.commands[0]
+      expect(command).toBe('EVAL')
+      expect(script).toContain("redis.call('INCR', KEYS[1])")
+      expect(script).toContain("redis.call('PEXPIRE', KEYS[1], ARGV[1])")
+      expect(keyCount).toBe('1')
+      expect(key).toMatch(/^ratelimit:test:/)
+      expect(windowMs).toBe('1000')
+    })
+
+    test('ストアに接続できない場合はインスタンス内のカウンターで制限を続ける', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {})
+      const unavailable = jest.fn().mockRejectedValue(new Error('ECONNREFUSED'))
+      const store = { fixedWindow: unavailable, slidingLog: unavailable, slidingWindow: unavailable, tokenBucket: unavailable }
+      const limiter = rateLimit({ ...testConfig, store })
+      const request = createMockRequest({ ip: '10.0.0.3' })
+
+      for (let i = 0; i < testConfig.maxRequests; i++) {
+        expect((await limiter.check(request)).allowed).toBe(true)
+      }
+      expect((await limiter.check(request)).allowed).toBe(false)
+    })
+
+    test('インメモリストアは期限が切れると新しいカウンターになる', async () => {
+      const store = createMemoryStore()
+
+      const now = Date.now()
+
+      expect((await store.fixedWindow('key', 1000, now)).count).toBe(1)
+      expect((await store.fixedWindow('key', 1000, now)).count).toBe(2)
+      expect((await store.fixedWindow('key', 1000, now + 2000)).count).toBe(1)
+    })
+
+    test('インメモリストアは他のキーの期限切れを毎回ではなく一定間隔ごとにまとめて削除する', async () => {
+      const store = createMemoryStore()
+      const scan = jest.spyOn(Map.prototype, 'entries')
+      const now = Date.now()
+
+      for (let i = 0; i < 100; i++) {
+        await store.fixedWindow(`key-${i}`, 1000, now + i)
+      }
+      expect(scan).toHaveBeenCalledTimes(1)
+
+      await store.fixedWindow('key-0', 1000, now + 60 * 1000)
+      expect(scan).toHaveBeenCalledTimes(2)
+      scan.mockRestore()
+    })
+
+    test('Redisストアでも sliding-log で制限される', async () => {
+      const client = createFakeRedisClient()
+      const limiter = rateLimit({ ...testConfig, algorithm: 'sliding-log', store: createRedisStore(client) })
+      const request = createMockRequest({ ip: '10.0.0.4' })
+
+      for (let i = 0; i < testConfig.maxRequests; i++) {
+        expect((await limiter.check(request)).allowed).toBe(true)
+      }
+      expect((await limiter.check(request)).allowed).toBe(false)
+      expect(client.commands[0][1]).toContain("redis.call('ZREMRANGEBYSCORE', KEYS[1]")
+    })
+
+    test('Redisストアの peek は記録しないよう指定してスクリプトを実行する', async () => {
+      const client = { sendCommand: jest.fn().mockResolvedValue([1, 0, '0']) }
+      const limiter = rateLimit({ ...testConfig, algorithm: 'sliding-log', store: createRedisStore(client) })
+
+      const result = await limiter.peek(createMockRequest({ ip: '10.0.0.8' }))
+
+      expect(result).toMatchObject({ allowed: true, remaining: 3 })
+      const args = client.sendCommand.mock.calls[0][0]
+      expect(args[args.length - 1]).toBe('0')
+      expect(args[1]).toContain("if ARGV[5] ~= '0' then")
+    })
+
+    test('各アルゴリズムはRedisへ1回のEVALで判定と更新を行う', async () => {
+      const replies: Record<string, RedisReply> = {
+        'sliding-window': [1, 1, 0],
+        'token-bucket': [1, '2.5']
+      }
+
+      for (const [algorithm, reply] of Object.entries(replies)) {
+        const client = { sendCommand: jest.fn().mockResolvedValue(reply) }
+        const limiter = rateLimit({ ...testConfig, algorithm: algorithm as RateLimitAlgorithm, store: createRedisStore(client) })
+
+        const result = await limiter.check(createMockRequest({ ip: '10.0.0.5' }))
+
+        expect(result.allowed).toBe(true)
+        expect(client.sendCommand).toHaveBeenCalledTimes(1)
+        expect(client.sendCommand.mock.calls[0][0][0]).toBe('EVAL')
+      }
+    })
+
+    test('sliding-window では現在と1つ前のウィンドウのキーが渡される', async () => {
+      const client = { sendCommand: jest.fn().mockResolvedValue([1, 1, 0]) }
+      const limiter = rateLimit({ ...testConfig, algorithm: 'sliding-window', store: createRedisStore(client), prefix: 'rl' })
+      jest.spyOn(Date, 'now').mockReturnValue(5500)
+
+      await limiter.check(createMockRequest({ ip: '10.0.0.6' }))
+
+      const [, , keyCount, currentKey, previousKey] = client.sendCommand.mock.calls[0][0]
+      expect(keyCount).toBe('2')
+      expect(currentKey).toMatch(/^rl:.+:5$/)
+      expect(previousKey).toMatch(/^rl:.+:4$/)
+    })
+
+    test('Redisから不正な応答が返った場合はインスタンス内のカウンターで判定する', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {})
+      const client = { sendCommand: jest.fn().mockResolvedValue('OK') }
+      const limiter = rateLimit({ ...testConfig, algorithm: 'token-bucket', store: createRedisStore(client) })
+
+      const result = await limiter.check(createMockRequest({ ip: '10.0.0.7' }))
+
+      expect(result.allowed).toBe(true)
+      expect(result.remaining).toBe(2)
+    })
+  })
+
+  describe('アルゴリズム', () => {
+    // ウィンドウの境界に揃えた基準時刻
+    const start = 1_000_000
+    const request = createMockRequest({ ip: '192.168.1.10' })
+    let now: number
+
+    beforeEach(() => {
+      now = start
+      jest.spyOn(Date, 'now').mockImplementation(() => now)
+    })
+
+    afterEach(() => {
+      jest.restoreAllMocks()
+    })
+
+    const checkTimes = async (target: ReturnType<typeof rateLimit>, times: number) => {
+      const results = []
+      for (let i = 0; i < times; i++) {
+        results.push(await target.check(request))
+      }
+      return results
+    }
+
+    test('fixed-window はウィンドウの境界をまたぐと上限の2倍まで通ってしまう', async () => {
+      const fixed = rateLimit({ ...testConfig, algorithm: 'fixed-window' })
+
+      now = start + 999
+      await checkTimes(fixed, 3)
+      now = start + 2001
+      const results = await checkTimes(fixed, 3)
+
+      expect(results.every(result => result.allowed)).toBe(true)
+    })
+
+    test('sliding-log は境界をまたいでも直近の時間窓で上限を守る', async () => {
+      const slidingLog = rateLimit({ ...testConfig, algorithm: 'sliding-log' })
+
+      now = start + 999
+      expect((await checkTimes(slidingLog, 3)).map(result => result.remaining)).toEqual([2, 1, 0])
+
+      now = start + 1500
+      const denied = await slidingLog.check(request)
+      expect(denied.allowed).toBe(false)
+      // 最も古いリクエストが時間窓から外れる時刻
+      expect(denied.resetTime).toBe(start + 1999)
+
+      now = start + 1999
+      const allowed = await slidingLog.check(request)
+      expect(allowed.allowed).toBe(true)
+      expect(allowed.remaining).toBe(2)
+    })
+
+    test('sliding-window は1つ前のウィンドウの件数を経過時間に応じて数える', async () => {
+      const slidingWindow = rateLimit({ ...testConfig, algorithm: 'sliding-window' })
+
+      now = start + 999
+      await checkTimes(slidingWindow, 3)
+
+      // 次のウィンドウの開始直後は、前のウィンドウの3件がほぼそのまま数えられる
+      now = start + 1000
+      const denied = await slidingWindow.check(request)
+      expect(denied.allowed).toBe(false)
+      expect(denied.resetTime).toBe(start + 1334)
+
+      // 半分経過すると前のウィンドウは1.5件と推定され、あと1件だけ許可される
+      now = start + 1500
+      const allowed = await slidingWindow.check(request)
+      expect(allowed.allowed).toBe(true)
+      expect(allowed.remaining).toBe(0)
+      expect((await slidingWindow.check(request)).allowed).toBe(false)
+    })
+
+    test('token-bucket は burst まで連続で許可し、その後は補充された分だけ許可する', async () => {
+      const tokenBucket = rateLimit({ ...testConfig, algorithm: 'token-bucket', burst: 5 })
+
+      const results = await checkTimes(tokenBucket, 6)
+      expect(results.map(result => result.allowed)).toEqual([true, true, true, true, true, false])
+      expect(results[4].remaining).toBe(0)
+      expect(results[0].limit).toBe(5)
+      // 1000msに3個補充されるので、次の1個は334ms後
+      expect(results[5].resetTime).toBe(start + 334)
+
+      now = start + 334
+      expect((await tokenBucket.check(request)).allowed).toBe(true)
+      expect((await tokenBucket.check(request)).allowed).toBe(false)
+
+      // 十分に時間が経つと burst までしか貯まらない
+      now = start + 10_000
+      expect((await checkTimes(tokenBucket, 6)).filter(result => result.allowed)).toHaveLength(5)
+    })
+
+    test('peek はどのアルゴリズムでも回数を消費せずに残り回数を返す', async () => {
+      const algorithms: RateLimitAlgorithm[] = ['fixed-window', 'sliding-log', 'sliding-window', 'token-bucket']
+
+      for (const algorithm of algorithms) {
+        const target = rateLimit({ ...testConfig, algorithm })
+        now = start + 100
+        expect(await target.peek(request)).toMatchObject({ allowed: true, remaining: 3 })
+        await checkTimes(target, 2)
+        expect(await target.peek(request)).toMatchObject({ allowed: true, remaining: 1 })
+        expect(await target.peek(request)).toMatchObject({ allowed: true, remaining: 1 })
+        await target.check(request)
+        expect((await target.peek(request)).allowed).toBe(false)
+      }
+    })
+
+    test('maxRequests=0の場合はどのアルゴリズムでもすべて拒否される', async () => {
+      const algorithms: RateLimitAlgorithm[] = ['fixed-window', 'sliding-log', 'sliding-window', 'token-bucket']
+
+      for (const algorithm of algorithms) {
+        const strict = rateLimit({ maxRequests: 0, windowMs: 1000, algorithm })
+        expect((await strict.check(request)).allowed).toBe(false)
+      }
+    })
+  })
+
+  describe('getRouteRateLimitConfig', () => {
+    const defaults = { maxRequests: 10, windowMs: 60 * 60 * 1000, algorithm: 'sliding-log' as const }
+
+    test('ルートごとの環境変数で上限・時間窓・アルゴリズム・バースト容量を変更できる', () => {
+      expect(getRouteRateLimitConfig('analyze-text', defaults, {
+        RATE_LIMIT_ANALYZE_TEXT_MAX_REQUESTS: '30',
+        RATE_LIMIT_ANALYZE_TEXT_WINDOW_SECONDS: '600',
+        RATE_LIMIT_ANALYZE_TEXT_ALGORITHM: 'token-bucket',
+        RATE_LIMIT_ANALYZE_TEXT_BURST: '5',
+        RATE_LIMIT_ANALYZE_MAX_REQUESTS: '3'
+      })).toEqual({ maxRequests: 30, windowMs: 600 * 1000, algorithm: 'token-bucket', burst: 5 })
+    })
+
+    test('ルートの指定が無ければ全体のアルゴリズムとバースト容量、デフォルトの上限を使う', () => {
+      expect(getRouteRateLimitConfig('analyze', defaults, { RATE_LIMIT_ALGORITHM: 'token-bucket', RATE_LIMIT_BURST: '4' }))
+        .toEqual({ maxRequests: 10, windowMs: 60 * 60 * 1000, algorithm: 'token-bucket', burst: 4 })
+      expect(getRouteRateLimitConfig('analyze', defaults, {}))
+        .toEqual({ maxRequests: 10, windowMs: 60 * 60 * 1000, algorithm: 'sliding-log', burst: undefined })
+    })
+
+    test('不正な値の場合はデフォルトを使う', () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {})
+
+      expect(getRouteRateLimitConfig('analyze', defaults, {
+        RATE_LIMIT_ANALYZE_MAX_REQUESTS: 'many',
+        RATE_LIMIT_ANALYZE_WINDOW_SECONDS: '0',
+        RATE_LIMIT_ANALYZE_ALGORITHM: 'leaky-bucket',
+        RATE_LIMIT_ANALYZE_BURST: '1.5'
+      })).toEqual(getRouteRateLimitConfig('analyze', defaults, {}))
+      expect(warn).toHaveBeenCalledTimes(4)
+      warn.mockRestore()
+    })
+  })
+
+  describe('getRateLimitAlgorithm', () => {
+    test('環境変数で指定されたアルゴリズムを返す', () => {
+      expect(getRateLimitAlgorithm('sliding-log', { RATE_LIMIT_ALGORITHM: 'token-bucket' })).toBe('token-bucket')
+      expect(getRateLimitAlgorithm('sliding-log', {})).toBe('sliding-log')
+    })
+
+    test('未対応の値の場合はデフォルトを使う', () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {})
+
+      expect(getRateLimitAlgorithm('sliding-log', { RATE_LIMIT_ALGORITHM: 'leaky-bucket' })).toBe('sliding-log')
+      expect(warn).toHaveBeenCalled()
+      warn.mockRestore()
+    })
+  })
 })
@@ -0,0 +1,110 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Redisプロトコルクライアントのテスト
+ * プロセス内でRESPを話すフェイクサーバーを立てて検証する
+ */
+
+import net from 'net'
+import { createRedisClient, encodeCommand, parseReply, RedisReplyError } from '../lib/redis-client'
+
+// 受け取ったコマンドを記録し、handler の返すRESP文字列で応答するフェイクサーバー
+const startFakeServer = async (handler: (args: string[]) => string) => {
+  const received: string[][] = []
+  const server = net.createServer(socket => {
+    let buffer = Buffer.alloc(0)
+    socket.on('data', chunk => {
+      buffer = Buffer.concat([buffer, chunk])
+      let parsed
+      while ((parsed = parseReply(buffer)) !== null) {
+        buffer = buffer.subarray(parsed.offset)
+        const args = parsed.reply as string[]
+        received.push(args)
+        socket.write(handler(args))
+      }
+    })
+  })
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+  const { port } = server.address() as net.AddressInfo
+  return { port, received, close: () => new Promise(resolve => server.close(resolve)) }
+}
+
+describe('Redis Client', () => {
+  describe('encodeCommand / parseReply', () => {
+    test('コマンドをRESPの配列としてエンコードできる', () => {
+      expect(encodeCommand(['SET', 'キー', 'v'])).toBe('*3\r\n$3\r\nSET\r\n$6\r\nキー\r\n$1\r\nv\r\n')
+    })
+
+    test('各種の応答を読み取れる', () => {
+      expect(parseReply(Buffer.from('+OK\r\n'))).toEqual({ reply: 'OK', offset: 5 })
+      expect(parseReply(Buffer.from(':42\r\n'))!.reply).toBe(42)
+      expect(parseReply(Buffer.from('$5\r\nhello\r\n'))!.reply).toBe('hello')
+      expect(parseReply(Buffer.from('$-1\r\n'))!.reply).toBeNull()
+      expect(parseReply(Buffer.from('*2\r\n:3\r\n:1000\r\n'))!.reply).toEqual([3, 1000])
+      expect(parseReply(Buffer.from('-ERR wrong\r\n'))!.reply).toBeInstanceOf(RedisReplyError)
+    })
+
+    test('データが足りない場合は null を返す', () => {
+      expect(parseReply(Buffer.from('$5\r\nhel'))).toBeNull()
+      expect(parseReply(Buffer.from('*2\r\n:3\r\n'))).toBeNull()
+      expect(parseReply(Buffer.from(''))).toBeNull()
+    })
+  })
+
+  describe('createRedisClient', () => {
+    test('認証・DB選択の後にコマンドを送り、応答を返す', async () => {
+      const server = await startFakeServer(args => args[0] === 'EVAL' ? '*2\r\n:1\r\n:60000\r\n' : '+OK\r\n')
+      const client = createRedisClient(`redis://:secret@127.0.0.1:${server.port}/2`)
+
+      try {
+        const reply = await client.sendCommand(['EVAL', 'return 1', '1', 'key', '60000'])
+
+        expect(reply).toEqual([1, 60000])
+        expect(server.received).toEqual([
+          ['AUTH', 'secret'],
+          ['SELECT', '2'],
+          ['EVAL', 'return 1', '1', 'key', '60000']
+        ])
+      } finally {
+        client.close()
+        await server.close()
+      }
+    })
+
+    test('同時に送ったコマンドにはそれぞれの応答が返る', async () => {
+      const server = await startFakeServer(args => `:${args[1]}\r\n`)
+      const client = createRedisClient(`redis://127.0.0.1:${server.port}`)
+
+      try {
+        const replies = await Promise.all(['1', '2', '3'].map(n => client.sendCommand(['ECHO', n])))
+        expect(replies).toEqual([1, 2, 3])
+      } finally {
+        client.close()
+        await server.close()
+      }
+    })
+
+    test('エラー応答は RedisReplyError になる', async () => {
+      const server = await startFakeServer(() => '-NOSCRIPT No matching script\r\n')
+      const client = createRedisClient(`redis://127.0.0.1:${server.port}`)
+
+      try {
+        await expect(client.sendCommand(['EVALSHA', 'abc', '0'])).rejects.toThrow('NOSCRIPT')
+      } finally {
+        client.close()
+        await server.close()
+      }
+    })
+
+    test('接続できない場合はエラーになる', async () => {
+      const server = await startFakeServer(() => '+OK\r\n')
+      const { port } = server
+      await server.close()
+
+      const client = createRedisClient(`redis://127.0.0.1:${port}`)
+      await expect(client.sendCommand(['PING'])).rejects.toThrow()
+    })
+  })
+})
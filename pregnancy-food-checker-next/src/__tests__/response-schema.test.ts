@@ -0,0 +1,148 @@
+/**
+ * モデルの回答（JSON）のスキーマ検証のテスト
+ */
+
+import { extractCompletedFoods, extractJson, FOOD_RESPONSE_SCHEMA, ResponseSchemaError, validateFoodResponse } from '../lib/response-schema'
+
+const errorsOf = (text: string) => validateFoodResponse(text).errors.map(error => [error.code, error.path])
+
+describe('Response Schema', () => {
+  describe('extractJson', () => {
+    test('コードブロックの後に説明文が続いてもJSONを取り出せる', () => {
+      const text = '```json\n{"foods": [{"name": "寿司", "level": "caution", "details": "生魚"}]}\n```\n\n以上が判定結果です。{注意}'
+
+      expect(extractJson(text)).toEqual({ found: true, value: { foods: [{ name: '寿司', level: 'caution', details: '生魚' }] } })
+    })
+
+    test('複数のオブジェクトがある場合は foods を含むものを選ぶ', () => {
+      const text = '{"note": "判定します"}\n{"foods": [{"name": "白米", "level": "safe", "details": ""}]}\n{"extra": true}'
+
+      expect(extractJson(text)).toEqual({ found: true, value: { foods: [{ name: '白米', level: 'safe', details: '' }] } })
+    })
+
+    test('文字列の中の括弧は数えない', () => {
+      const text = '{"foods": [{"name": "}{カレー", "level": "safe", "details": "\\"辛口\\"}"}]}'
+
+      expect(extractJson(text)).toEqual({ found: true, value: { foods: [{ name: '}{カレー', level: 'safe', details: '"辛口"}' }] } })
+    })
+
+    test('JSONが無い・解析できない場合は理由を返す', () => {
+      expect(extractJson('判定できませんでした')).toEqual({ found: false, error: 'NOT_FOUND' })
+      expect(extractJson('{"foods": [{"name": "test",}]}')).toEqual({ found: false, error: 'PARSE_ERROR' })
+    })
+  })
+
+  describe('extractCompletedFoods', () => {
+    test('受信途中の回答から、閉じ括弧まで届いた食品のみを取り出す', () => {
+      const text = '{"foods": [{"name": "刺身", "level": "caution"}, {"name": "白米", "lev'
+
+      expect(extractCompletedFoods(text)).toEqual([{ name: '刺身', level: 'caution' }])
+      expect(extractCompletedFoods(`${text}el": "safe"}]}`)).toEqual([{ name: '刺身', level: 'caution' }, { name: '白米', level: 'safe' }])
+    })
+
+    test('foods の配列が届く前は空になる', () => {
+      expect(extractCompletedFoods('{"fo')).toEqual([])
+      expect(extractCompletedFoods('```json\n{"foods": [')).toEqual([])
+    })
+  })
+
+  describe('validateFoodResponse', () => {
+    describe('あるべき挙動', () => {
+      test('スキーマどおりの回答は受け入れられる', () => {
+        const text = JSON.stringify({
+          foods: [
+            { name: '焼き魚', level: 'safe', details: '', image: 1 },
+            { name: '生ハム', level: 'avoid', details: 'リステリア菌', image: 2 }
+          ]
+        })
+
+        expect(validateFoodResponse(text)).toEqual({ isValid: true, errors: [] })
+      })
+
+      test('levelが無い旧形式（risk）の回答も受け入れられる', () => {
+        expect(validateFoodResponse(JSON.stringify({ foods: [{ name: '白米', risk: false, details: '' }] })).isValid).toBe(true)
+      })
+
+      test('Geminiに渡すスキーマは4段階のlevelを必須にする', () => {
+        expect(FOOD_RESPONSE_SCHEMA.properties.foods.items.properties.level.enum).toEqual(['avoid', 'limit', 'caution', 'safe'])
+        expect(FOOD_RESPONSE_SCHEMA.properties.foods.items.required).toContain('level')
+      })
+
+      test('confidenceは省略できる（対応していないプロバイダー向け）', () => {
+        expect(validateFoodResponse(JSON.stringify({ foods: [{ name: '白米', level: 'safe', details: '' }] })).isValid).toBe(true)
+        expect(validateFoodResponse(JSON.stringify({ foods: [{ name: '白米', level: 'safe', confidence: 0.8, details: '' }] })).isValid).toBe(true)
+      })
+    })
+
+    describe('エラーケース', () => {
+      test('必須の項目が無い場合は MISSING_FIELD になる', () => {
+        expect(errorsOf('{"result": []}')).toEqual([['MISSING_FIELD', 'foods'], ['EXTRA_KEY', 'result']])
+        expect(errorsOf(JSON.stringify({ foods: [{ details: '' }] }))).toEqual([
+          ['MISSING_FIELD', 'foods[0].name'],
+          ['MISSING_FIELD', 'foods[0].level']
+        ])
+      })
+
+      test('型が異なる場合は WRONG_TYPE になる', () => {
+        const text = JSON.stringify({
+          foods: [
+            { name: 123, level: 'safe', details: '' },
+            { name: '漬物', level: 'safe', details: ['塩分'], image: 0 },
+            'みそ汁'
+          ]
+        })
+
+        expect(errorsOf(text)).toEqual([
+          ['WRONG_TYPE', 'foods[0].name'],
+          ['WRONG_TYPE', 'foods[1].details'],
+          ['WRONG_TYPE', 'foods[1].image'],
+          ['WRONG_TYPE', 'foods[2]']
+        ])
+        expect(errorsOf('{"foods": "なし"}')).toEqual([['WRONG_TYPE', 'foods']])
+      })
+
+      test('0〜1以外のconfidenceは WRONG_TYPE になる', () => {
+        expect(errorsOf(JSON.stringify({ foods: [{ name: '刺身', level: 'caution', confidence: 80, details: '' }] }))).toEqual([
+          ['WRONG_TYPE', 'foods[0].confidence']
+        ])
+      })
+
+      test('定義されていない項目は EXTRA_KEY になる', () => {
+        const text = JSON.stringify({ foods: [{ name: '刺身', level: 'caution', details: '', calories: 200 }] })
+
+        expect(errorsOf(text)).toEqual([['EXTRA_KEY', 'foods[0].calories']])
+      })
+
+      test('4段階以外のlevelは INVALID_VALUE になる', () => {
+        expect(errorsOf(JSON.stringify({ foods: [{ name: '謎', level: 'dangerous', details: '' }] }))).toEqual([
+          ['INVALID_VALUE', 'foods[0].level']
+        ])
+      })
+
+      test('定義されていないアレルゲンは INVALID_VALUE になる', () => {
+        expect(errorsOf(JSON.stringify({ foods: [{ name: '豆腐', level: 'safe', details: '', allergens: ['soy'] }] }))).toEqual([
+          ['INVALID_VALUE', 'foods[0].allergens']
+        ])
+        expect(errorsOf(JSON.stringify({ foods: [{ name: '卵焼き', level: 'safe', details: '', allergens: ['egg'] }] }))).toEqual([])
+      })
+
+      test('炭水化物・糖類の推定が数値でない、または糖類が炭水化物より多い場合は違反になる', () => {
+        expect(errorsOf(JSON.stringify({ foods: [{ name: '白米', level: 'safe', details: '', carbs_g: -1, sugar_g: '0' }] }))).toEqual([
+          ['WRONG_TYPE', 'foods[0].carbs_g'],
+          ['WRONG_TYPE', 'foods[0].sugar_g']
+        ])
+        expect(errorsOf(JSON.stringify({ foods: [{ name: 'ケーキ', level: 'safe', details: '', carbs_g: 30, sugar_g: 45 }] }))).toEqual([
+          ['INVALID_VALUE', 'foods[0].sugar_g']
+        ])
+        expect(errorsOf(JSON.stringify({ foods: [{ name: 'ケーキ', level: 'safe', details: '', carbs_g: 45, sugar_g: 30 }] }))).toEqual([])
+      })
+
+      test('JSONでない回答は INVALID_JSON になる', () => {
+        const [error] = validateFoodResponse('申し訳ありませんが判定できません').errors
+
+        expect(error).toBeInstanceOf(ResponseSchemaError)
+        expect(error.code).toBe('INVALID_JSON')
+      })
+    })
+  })
+})
@@ -0,0 +1,93 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Server-Sent Events の送受信のテスト
+ */
+
+import {
+  createServerSentEventStream,
+  formatServerSentEvent,
+  isEventStream,
+  parseServerSentEvents,
+  readServerSentEvents,
+  ServerSentEvent
+} from '../lib/server-sent-events'
+
+// 文字列を指定した区切りで分けて届けるストリーム
+const createChunkedStream = (chunks: string[]) => {
+  const encoder = new TextEncoder()
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)))
+      controller.close()
+    }
+  })
+}
+
+const readAll = async (body: ReadableStream<Uint8Array>) => {
+  const events: ServerSentEvent[] = []
+  await readServerSentEvents(body, event => events.push(event))
+  return events
+}
+
+describe('Server-Sent Events', () => {
+  describe('あるべき挙動', () => {
+    test('送信する形式にしたイベントを読み取れる', () => {
+      const text = formatServerSentEvent('stage', { stage: 'validated' }) + formatServerSentEvent('food', { name: '刺身' })
+
+      expect(parseServerSentEvents(text)).toEqual({
+        events: [
+          { event: 'stage', data: '{"stage":"validated"}' },
+          { event: 'food', data: '{"name":"刺身"}' }
+        ],
+        rest: ''
+      })
+    })
+
+    test('途中までのイベントは続きが届くまで解析しない', () => {
+      expect(parseServerSentEvents('data: {"a":1}\n\ndata: {"b"')).toEqual({
+        events: [{ event: 'message', data: '{"a":1}' }],
+        rest: 'data: {"b"'
+      })
+    })
+
+    test('チャンクの区切りが文字やイベントの途中でも正しく読み取れる', async () => {
+      const text = formatServerSentEvent('food', { name: '生ハム' }) + 'data: {"done":true}\r\n\r\n'
+      const bytes = new TextEncoder().encode(text)
+      // マルチバイト文字（生ハム）の途中で区切る
+      const stream = new ReadableStream<Uint8Array>({
+        start(controller) {
+          [bytes.subarray(0, 28), bytes.subarray(28, 45), bytes.subarray(45)].forEach(chunk => controller.enqueue(chunk))
+          controller.close()
+        }
+      })
+
+      expect(await readAll(stream)).toEqual([
+        { event: 'food', data: '{"name":"生ハム"}' },
+        { event: 'message', data: '{"done":true}' }
+      ])
+    })
+
+    test('最後の空行が無くても、閉じた時点のイベントを読み取る', async () => {
+      expect(await readAll(createChunkedStream(['data: {"last":', 'true}']))).toEqual([{ event: 'message', data: '{"last":true}' }])
+    })
+
+    test('送ったイベントを順に流し、終わるとストリームを閉じる', async () => {
+      const stream = createServerSentEventStream(async send => {
+        send('stage', { stage: 'validated' })
+        await Promise.resolve()
+        send('done', { success: true })
+      })
+
+      expect((await readAll(stream)).map(event => event.event)).toEqual(['stage', 'done'])
+    })
+
+    test('Content-Type でイベントストリームかどうかを判定する', () => {
+      expect(isEventStream(new Headers({ 'Content-Type': 'text/event-stream; charset=utf-8' }))).toBe(true)
+      expect(isEventStream(new Headers({ 'Content-Type': 'application/json' }))).toBe(false)
+      expect(isEventStream(undefined)).toBe(false)
+    })
+  })
+})
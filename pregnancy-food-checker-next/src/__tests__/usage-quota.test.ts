@@ -0,0 +1,267 @@
+/**
+ * モデルAPI利用量の全体上限のテスト
+ */
+
+import {
+  createMemoryUsageStore,
+  createRedisUsageStore,
+  createUsageQuota,
+  estimateTokens,
+  getUsageCaps,
+  getUsagePeriods,
+  UsageQuota,
+  UsageQuotaExceededError,
+  withUsageQuota
+} from '../lib/usage-quota'
+import { VisionProvider } from '../lib/vision-provider'
+
+// 2026-10-19 12:00（日本時間）
+const NOON_JST = Date.UTC(2026, 9, 19, 3)
+
+const createProvider = (response: Awaited<ReturnType<VisionProvider['analyze']>>) => ({
+  name: 'test',
+  label: 'テスト',
+  supportedImageTypes: ['image/jpeg'],
+  getConfigError: () => null,
+  analyze: jest.fn().mockResolvedValue(response)
+})
+
+// モデルAPIを1回呼び出したときと同じく、予約してからトークン数を記録する
+const callModel = async (quota: UsageQuota, tokens: number) => {
+  const reservation = await quota.reserve()
+  await reservation.commit(tokens)
+}
+
+describe('Usage Quota', () => {
+  let now: number
+
+  beforeEach(() => {
+    now = NOON_JST
+    jest.spyOn(Date, 'now').mockImplementation(() => now)
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  describe('getUsagePeriods', () => {
+    test('日本時間で日・月を区切る', () => {
+      const periods = getUsagePeriods(NOON_JST)
+
+      expect(periods.day).toEqual({ id: '2026-10-19', resetTime: Date.UTC(2026, 9, 19, 15) })
+      expect(periods.month).toEqual({ id: '2026-10', resetTime: Date.UTC(2026, 9, 31, 15) })
+    })
+
+    test('UTCではまだ前日でも、日本時間の0時を過ぎれば翌日になる', () => {
+      expect(getUsagePeriods(Date.UTC(2026, 9, 19, 15)).day.id).toBe('2026-10-20')
+      expect(getUsagePeriods(Date.UTC(2026, 9, 31, 14, 59)).month.id).toBe('2026-10')
+      expect(getUsagePeriods(Date.UTC(2026, 9, 31, 15)).month.id).toBe('2026-11')
+    })
+  })
+
+  describe('あるべき挙動', () => {
+    test('1日のリクエスト数が上限に達すると断られる', async () => {
+      const quota = createUsageQuota({ store: createMemoryUsageStore(), caps: { dailyRequests: 2 } })
+
+      await callModel(quota, 100)
+      expect((await quota.check()).allowed).toBe(true)
+      await callModel(quota, 100)
+
+      const result = await quota.check()
+      expect(result.allowed).toBe(false)
+      expect(result.period).toBe('day')
+      expect(result.message).toBe('本日の上限に達しました。明日またお試しください。')
+      expect(result.resetTime).toBe(Date.UTC(2026, 9, 19, 15))
+    })
+
+    test('翌日になると1日の上限は解除される', async () => {
+      const quota = createUsageQuota({ store: createMemoryUsageStore(), caps: { dailyRequests: 1 } })
+
+      await callModel(quota, 100)
+      expect((await quota.check()).allowed).toBe(false)
+
+      now = NOON_JST + 24 * 60 * 60 * 1000
+      expect((await quota.check()).allowed).toBe(true)
+    })
+
+    test('1か月のトークン数が上限に達すると月の上限として断られる', async () => {
+      const quota = createUsageQuota({ store: createMemoryUsageStore(), caps: { dailyRequests: 10, monthlyTokens: 1000 } })
+
+      await callModel(quota, 600)
+      now = NOON_JST + 24 * 60 * 60 * 1000
+      await callModel(quota, 600)
+
+      const result = await quota.check()
+      expect(result.allowed).toBe(false)
+      expect(result.period).toBe('month')
+      expect(result.message).toBe('今月の上限に達しました。来月またお試しください。')
+    })
+
+    test('管理画面向けに今日・今月の利用量と上限を返す', async () => {
+      const quota = createUsageQuota({ store: createMemoryUsageStore(), caps: { dailyTokens: 5000, monthlyRequests: 300 } })
+
+      await callModel(quota, 1200.4)
+      await callModel(quota, 800)
+
+      const usage = await quota.getUsage()
+      expect(usage.day).toEqual({
+        period: '2026-10-19',
+        requests: 2,
+        tokens: 2000,
+        requestCap: null,
+        tokenCap: 5000,
+        resetTime: Date.UTC(2026, 9, 19, 15)
+      })
+      expect(usage.month).toMatchObject({ period: '2026-10', requests: 2, tokens: 2000, requestCap: 300, tokenCap: null })
+    })
+
+    test('上限が設定されていなければ常に許可される', async () => {
+      const quota = createUsageQuota({ store: createMemoryUsageStore(), caps: {} })
+
+      for (let i = 0; i < 5; i++) {
+        await callModel(quota, 10_000)
+      }
+      expect((await quota.check()).allowed).toBe(true)
+    })
+  })
+
+  describe('withUsageQuota', () => {
+    test('モデルが報告したトークン数を記録する', async () => {
+      const quota = createUsageQuota({ store: createMemoryUsageStore(), caps: {} })
+      const provider = withUsageQuota(createProvider({ text: '{}', usage: { totalTokens: 1234 } }), quota)
+
+      await provider.analyze({ images: ['data:image/jpeg;base64,AAAA'], prompt: 'prompt' })
+
+      expect((await quota.getUsage()).day).toMatchObject({ requests: 1, tokens: 1234 })
+    })
+
+    test('トークン数が報告されない場合は概算で記録する', async () => {
+      const quota = createUsageQuota({ store: createMemoryUsageStore(), caps: {} })
+      const provider = withUsageQuota(createProvider({ text: '{"foods":[]}' }), quota)
+      const request = { images: ['data:image/jpeg;base64,AAAA', 'data:image/jpeg;base64,BBBB'], prompt: '食品を判定してください' }
+
+      await provider.analyze(request)
+
+      expect((await quota.getUsage()).day.tokens).toBe(estimateTokens(request, '{"foods":[]}'))
+      expect(estimateTokens(request, '{"foods":[]}')).toBe(2 * 258 + 11 + 12)
+    })
+
+    test('上限に達している場合はモデルを呼ばない', async () => {
+      const quota = createUsageQuota({ store: createMemoryUsageStore(), caps: { dailyRequests: 1 } })
+      const inner = createProvider({ text: '{}' })
+      const provider = withUsageQuota(inner, quota)
+
+      await provider.analyze({ prompt: 'prompt' })
+      await expect(provider.analyze({ prompt: 'prompt' })).rejects.toBeInstanceOf(UsageQuotaExceededError)
+      expect(inner.analyze).toHaveBeenCalledTimes(1)
+    })
+
+    test('同時に呼ばれても上限を超えてモデルを呼ばない', async () => {
+      const quota = createUsageQuota({ store: createMemoryUsageStore(), caps: { dailyRequests: 2 } })
+      const inner = createProvider({ text: '{}' })
+      const provider = withUsageQuota(inner, quota)
+
+      const results = await Promise.allSettled(Array.from({ length: 5 }, () => provider.analyze({ prompt: 'prompt' })))
+
+      expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(2)
+      expect(inner.analyze).toHaveBeenCalledTimes(2)
+      expect((await quota.getUsage()).day.requests).toBe(2)
+    })
+
+    test('モデルの呼び出しに失敗した場合は予約を取り消す', async () => {
+      const quota = createUsageQuota({ store: createMemoryUsageStore(), caps: { dailyRequests: 1 } })
+      const inner = createProvider({ text: '{}' })
+      inner.analyze.mockRejectedValueOnce(new Error('503 Service Unavailable'))
+      const provider = withUsageQuota(inner, quota)
+
+      await expect(provider.analyze({ prompt: 'prompt' })).rejects.toThrow('503')
+      expect((await quota.getUsage()).day.requests).toBe(0)
+
+      await expect(provider.analyze({ prompt: 'prompt' })).resolves.toEqual({ text: '{}' })
+      expect((await quota.getUsage()).day.requests).toBe(1)
+    })
+  })
+
+  describe('エラーケース', () => {
+    test('ストアに接続できない場合は許可する', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {})
+      const store = {
+        get: jest.fn().mockRejectedValue(new Error('ECONNREFUSED')),
+        add: jest.fn().mockRejectedValue(new Error('ECONNREFUSED')),
+        reserve: jest.fn().mockRejectedValue(new Error('ECONNREFUSED'))
+      }
+      const quota = createUsageQuota({ store, caps: { dailyRequests: 0 } })
+
+      expect((await quota.check()).allowed).toBe(true)
+      expect((await quota.reserve()).allowed).toBe(true)
+    })
+
+    test('利用量の記録に失敗しても結果は返される', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {})
+      const store = {
+        get: jest.fn().mockResolvedValue({ requests: 0, tokens: 0 }),
+        add: jest.fn().mockRejectedValue(new Error('ECONNREFUSED')),
+        reserve: jest.fn().mockResolvedValue(null)
+      }
+      const provider = withUsageQuota(createProvider({ text: '{}' }), createUsageQuota({ store, caps: {} }))
+
+      await expect(provider.analyze({ prompt: 'prompt' })).resolves.toEqual({ text: '{}' })
+    })
+  })
+
+  describe('Redisストア', () => {
+    test('加算と期限設定は1つのスクリプトで実行される', async () => {
+      const client = { sendCommand: jest.fn().mockResolvedValue([3, 4500]) }
+      const store = createRedisUsageStore(client)
+
+      expect(await store.add('usage:day:2026-10-19', { requests: 1, tokens: 1500 }, 60_000)).toEqual({ requests: 3, tokens: 4500 })
+
+      const [command, script, keyCount, key, ...args] = client.sendCommand.mock.calls[0][0]
+      expect(command).toBe('EVAL')
+      expect(script).toContain("redis.call('HINCRBY', KEYS[1], 'tokens', ARGV[2])")
+      expect(keyCount).toBe('1')
+      expect(key).toBe('usage:day:2026-10-19')
+      expect(args).toEqual(['1', '1500', '60000'])
+    })
+
+    test('上限の確認とリクエスト数の加算は1つのスクリプトで実行される', async () => {
+      const client = { sendCommand: jest.fn().mockResolvedValueOnce(0).mockResolvedValueOnce(2) }
+      const store = createRedisUsageStore(client)
+      const entries = [
+        { key: 'usage:month:2026-10', limits: { requests: 300 }, ttlMs: 120_000 },
+        { key: 'usage:day:2026-10-19', limits: { tokens: 5000 }, ttlMs: 60_000 }
+      ]
+
+      expect(await store.reserve(entries)).toBeNull()
+      expect(await store.reserve(entries)).toBe(1)
+
+      const [command, script, keyCount, ...args] = client.sendCommand.mock.calls[0][0]
+      expect(command).toBe('EVAL')
+      expect(script).toContain("redis.call('HINCRBY', KEYS[i], 'requests', 1)")
+      expect(keyCount).toBe('2')
+      expect(args).toEqual(['usage:month:2026-10', 'usage:day:2026-10-19', '300', '-1', '120000', '-1', '5000', '60000'])
+    })
+
+    test('未作成のキーは0として読み取られる', async () => {
+      const client = { sendCommand: jest.fn().mockResolvedValue([null, null]) }
+
+      expect(await createRedisUsageStore(client).get('usage:month:2026-10')).toEqual({ requests: 0, tokens: 0 })
+      expect(client.sendCommand).toHaveBeenCalledWith(['HMGET', 'usage:month:2026-10', 'requests', 'tokens'])
+    })
+  })
+
+  describe('getUsageCaps', () => {
+    test('環境変数から上限を読み取り、未設定・不正な値は上限なしにする', () => {
+      expect(getUsageCaps({
+        USAGE_DAILY_REQUEST_LIMIT: '500',
+        USAGE_DAILY_TOKEN_LIMIT: 'many',
+        USAGE_MONTHLY_TOKEN_LIMIT: '10000000'
+      })).toEqual({
+        dailyRequests: 500,
+        dailyTokens: undefined,
+        monthlyRequests: undefined,
+        monthlyTokens: 10000000
+      })
+    })
+  })
+})
@@ -0,0 +1,218 @@
+/**
+ * Vision API プロバイダーのユニットテスト
+ */
+
+import {
+  createGeminiProvider,
+  createMockProvider,
+  createOpenAICompatibleProvider,
+  findUnsupportedImageType,
+  getVisionProvider,
+  VisionProviderError
+} from '../lib/vision-provider'
+import { validateFoodResponse } from '../lib/response-schema'
+
+const mockFetch = jest.fn()
+global.fetch = mockFetch
+
+const validImageData = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChAHGu+CJKQAAAABJRU5ErkJggg=='
+
+describe('Vision Provider', () => {
+  beforeEach(() => {
+    jest.resetAllMocks()
+  })
+
+  describe('getVisionProvider', () => {
+    test('未指定の場合はGeminiが選択される', () => {
+      expect(getVisionProvider({}).name).toBe('gemini')
+    })
+
+    test('環境変数でプロバイダーを切り替えられる', () => {
+      expect(getVisionProvider({ VISION_PROVIDER: 'openai' }).name).toBe('openai')
+      expect(getVisionProvider({ VISION_PROVIDER: 'MOCK' }).name).toBe('mock')
+    })
+
+    test('未対応のプロバイダーはエラーになる', () => {
+      expect(() => getVisionProvider({ VISION_PROVIDER: 'unknown' })).toThrow('未対応のVISION_PROVIDERです')
+    })
+  })
+
+  describe('findUnsupportedImageType', () => {
+    test('HEICはGeminiのみが受け付ける', () => {
+      const images = [validImageData, 'data:image/heic;base64,AAAA']
+
+      expect(findUnsupportedImageType(createGeminiProvider({}), images)).toBeNull()
+      expect(findUnsupportedImageType(createOpenAICompatibleProvider({}), images)).toBe('image/heic')
+      expect(findUnsupportedImageType(createOpenAICompatibleProvider({}), [validImageData])).toBeNull()
+    })
+  })
+
+  describe('Gemini', () => {
+    test('APIキーが無い場合は設定エラーを返す', () => {
+      expect(createGeminiProvider({}).getConfigError()).toBe('Gemini APIキーが設定されていません')
+      expect(createGeminiProvider({ GEMINI_API_KEY: 'key' }).getConfigError()).toBeNull()
+    })
+
+    test('正しいリクエストを送信してテキストを返す', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: async () => ({
+          candidates: [{ content: { parts: [{ text: '{"foods": []}' }] } }]
+        })
+      })
+
+      const provider = createGeminiProvider({ GEMINI_API_KEY: 'test-key' })
+      const result = await provider.analyze({ images: [validImageData], prompt: 'テストプロンプト' })
+
+      expect(result.text).toBe('{"foods": []}')
+      expect(result.usage).toBeUndefined()
+      const [url, init] = mockFetch.mock.calls[0]
+      expect(url).toContain('models/gemini-1.5-flash:generateContent?key=test-key')
+      const body = JSON.parse(init.body)
+      expect(body.contents[0].parts[0].text).toBe('テストプロンプト')
+      expect(body.contents[0].parts[1].inline_data.data).toBe(validImageData.split(',')[1])
+      expect(body.generationConfig).toBeUndefined()
+    })
+
+    test('スキーマを指定するとJSONの構造化出力を求める', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: async () => ({ candidates: [{ content: { parts: [{ text: '{"foods": []}' }] } }] })
+      })
+      const responseSchema = { type: 'OBJECT', properties: { foods: { type: 'ARRAY' } } }
+
+      await createGeminiProvider({ GEMINI_API_KEY: 'k' }).analyze({ prompt: 'p', responseSchema })
+
+      const body = JSON.parse(mockFetch.mock.calls[0][1].body)
+      expect(body.generationConfig).toEqual({ responseMimeType: 'application/json', responseSchema })
+    })
+
+    test('使用トークン数が報告された場合は返す', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: async () => ({
+          candidates: [{ content: { parts: [{ text: '{"foods": []}' }] } }],
+          usageMetadata: { promptTokenCount: 900, candidatesTokenCount: 80, totalTokenCount: 980 }
+        })
+      })
+
+      const result = await createGeminiProvider({ GEMINI_API_KEY: 'test-key' }).analyze({ prompt: 'テストプロンプト' })
+
+      expect(result.usage).toEqual({ totalTokens: 980 })
+    })
+
+    test('複数の画像は送信順にパートとして追加される', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: async () => ({ candidates: [{ content: { parts: [{ text: 'ok' }] } }] })
+      })
+
+      await createGeminiProvider({ GEMINI_API_KEY: 'k' })
+        .analyze({ images: [validImageData, 'data:image/png;base64,c2Vjb25k'], prompt: 'p' })
+
+      const body = JSON.parse(mockFetch.mock.calls[0][1].body)
+      expect(body.contents[0].parts).toHaveLength(3)
+      expect(body.contents[0].parts[2].inline_data.data).toBe('c2Vjb25k')
+      expect(body.contents[0].parts[1].inline_data.mime_type).toBe('image/png')
+    })
+
+    test('GEMINI_MODELでモデルを変更できる', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: async () => ({ candidates: [{ content: { parts: [{ text: 'ok' }] } }] })
+      })
+
+      await createGeminiProvider({ GEMINI_API_KEY: 'k', GEMINI_MODEL: 'gemini-2.0-flash' })
+        .analyze({ images: [validImageData], prompt: 'p' })
+
+      expect(mockFetch.mock.calls[0][0]).toContain('models/gemini-2.0-flash:generateContent')
+    })
+
+    test('HTTPエラーはステータス付きのエラーになる', async () => {
+      mockFetch.mockResolvedValue({
+        ok: false,
+        status: 503,
+        text: async () => 'Service Unavailable'
+      })
+
+      const provider = createGeminiProvider({ GEMINI_API_KEY: 'k' })
+      const error = await provider.analyze({ images: [validImageData], prompt: 'p' }).catch(e => e)
+
+      expect(error).toBeInstanceOf(VisionProviderError)
+      expect(error.code).toBe('HTTP_ERROR')
+      expect(error.status).toBe(503)
+    })
+
+    test('候補やテキストが無い場合はそれぞれのエラーになる', async () => {
+      const provider = createGeminiProvider({ GEMINI_API_KEY: 'k' })
+
+      mockFetch.mockResolvedValueOnce({ ok: true, json: async () => ({ candidates: [] }) })
+      await expect(provider.analyze({ images: [validImageData], prompt: 'p' }))
+        .rejects.toMatchObject({ code: 'NO_CANDIDATES' })
+
+      mockFetch.mockResolvedValueOnce({ ok: true, json: async () => ({ candidates: [{ content: { parts: [] } }] }) })
+      await expect(provider.analyze({ images: [validImageData], prompt: 'p' }))
+        .rejects.toMatchObject({ code: 'NO_TEXT' })
+    })
+  })
+
+  describe('OpenAI互換', () => {
+    test('APIキーもベースURLも無い場合は設定エラーを返す', () => {
+      expect(createOpenAICompatibleProvider({}).getConfigError()).toBe('OpenAI互換APIキーが設定されていません')
+      expect(createOpenAICompatibleProvider({ OPENAI_BASE_URL: 'http://localhost:11434/v1' }).getConfigError()).toBeNull()
+    })
+
+    test('Chat Completions形式でリクエストを送信する', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: async () => ({
+          choices: [{ message: { content: '{"foods": []}' } }],
+          usage: { prompt_tokens: 700, completion_tokens: 50, total_tokens: 750 }
+        })
+      })
+
+      const provider = createOpenAICompatibleProvider({
+        OPENAI_API_KEY: 'sk-test',
+        OPENAI_BASE_URL: 'http://localhost:8080/v1/',
+        OPENAI_MODEL: 'local-vision'
+      })
+      const result = await provider.analyze({ images: [validImageData], prompt: 'テストプロンプト' })
+
+      expect(result.text).toBe('{"foods": []}')
+      expect(result.usage).toEqual({ totalTokens: 750 })
+      const [url, init] = mockFetch.mock.calls[0]
+      expect(url).toBe('http://localhost:8080/v1/chat/completions')
+      expect(init.headers.Authorization).toBe('Bearer sk-test')
+      const body = JSON.parse(init.body)
+      expect(body.model).toBe('local-vision')
+      expect(body.messages[0].content[0]).toEqual({ type: 'text', text: 'テストプロンプト' })
+      expect(body.messages[0].content[1].image_url.url).toBe(validImageData)
+    })
+
+    test('HTTPエラーはステータス付きのエラーになる', async () => {
+      mockFetch.mockResolvedValue({ ok: false, status: 429, text: async () => 'Too Many Requests' })
+
+      await expect(
+        createOpenAICompatibleProvider({ OPENAI_API_KEY: 'k' }).analyze({ images: [validImageData], prompt: 'p' })
+      ).rejects.toMatchObject({ code: 'HTTP_ERROR', status: 429 })
+    })
+  })
+
+  describe('モック', () => {
+    test('ネットワークを使わずにデフォルトのレスポンスを返す', async () => {
+      const result = await createMockProvider({}).analyze({ images: [validImageData], prompt: 'p' })
+
+      expect(mockFetch).not.toHaveBeenCalled()
+      expect(JSON.parse(result.text).foods.length).toBeGreaterThan(0)
+      // 実際のモデルと同じく、判定に求めるスキーマに一致する
+      expect(validateFoodResponse(result.text).isValid).toBe(true)
+    })
+
+    test('MOCK_VISION_RESPONSEでレスポンスを差し替えられる', async () => {
+      const text = '{"foods": [{"name": "生ハム", "level": "avoid", "confidence": 0.9, "details": "テスト"}]}'
+      const result = await createMockProvider({ MOCK_VISION_RESPONSE: text }).analyze({ images: [validImageData], prompt: 'p' })
+
+      expect(result.text).toBe(text)
+    })
+  })
+})
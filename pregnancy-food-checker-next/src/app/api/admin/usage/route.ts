@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateBasicAuth } from '@/lib/auth'
+import { usageQuota } from '@/lib/request-guard'
+
+/**
+ * 管理者向け: モデルAPIの今日・今月の利用量と上限を返す
+ * API_USERNAME / API_PASSWORD によるBasic認証が必要
+ */
+export async function GET(request: NextRequest) {
+  const authResult = validateBasicAuth(request)
+  if (!authResult.isValid) {
+    console.log('Admin auth failed:', authResult.error)
+    return NextResponse.json(
+      { error: authResult.error },
+      { status: 401, headers: { 'WWW-Authenticate': 'Basic realm="admin", charset="UTF-8"' } }
+    )
+  }
+
+  try {
+    const usage = await usageQuota.getUsage()
+    return NextResponse.json(
+      { success: true, usage },
+      { headers: { 'Cache-Control': 'no-store' } }
+    )
+  } catch (error) {
+    console.error('利用量の取得エラー:', error)
+    return NextResponse.json(
+      { error: '利用量を取得できませんでした' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { sanitizeAndValidateFoodText, splitKnownFoods } from '@/lib/security'
+import { resolvePregnancyWeek } from '@/lib/pregnancy'
+import { callVisionAPI, createAnalysisResult } from '@/lib/analysis'
+import { AnalyzeSuccessResponse, API_CONTRACT_VERSION, parseAnalyzeTextRequest } from '@/lib/api-contract'
+import { needsCarbEstimate } from '@/lib/carbohydrate'
+import { analyzeTextLimiter, guardAnalyzeRequest, usageQuota } from '@/lib/request-guard'
+import { withUsageQuota } from '@/lib/usage-quota'
+import { getVisionProvider } from '@/lib/vision-provider'
+
+/**
+ * 料理名・食材名のテキストから妊娠中のリスクを判定する
+ * レストランのメニューを見ながら確認する用途を想定
+ */
+export async function POST(request: NextRequest) {
+  console.log('Text API called at:', new Date().toISOString())
+
+  // 1-4. Rate Limiting・Content-Type・Referrer・User-Agent チェック（すべてのレスポンスにレート制限のヘッダーを付ける）
+  return guardAnalyzeRequest(request, () => analyzeText(request), { limiter: analyzeTextLimiter })
+}
+
+async function analyzeText(request: NextRequest): Promise<NextResponse> {
+  try {
+    // JSONとして読めない本文も、入力の誤りとして返す
+    const parsed = parseAnalyzeTextRequest(await request.json().catch(() => null))
+    if (!parsed.isValid) {
+      console.log('Error: Invalid request body:', parsed.error)
+      return NextResponse.json(
+        { error: parsed.error },
+        { status: 400 }
+      )
+    }
+    const body = parsed.request!
+
+    // 5. 妊娠週数（任意）の検証
+    const pregnancyWeekResult = resolvePregnancyWeek({
+      pregnancyWeek: body.pregnancyWeek,
+      dueDate: body.dueDate
+    })
+    if (!pregnancyWeekResult.isValid) {
+      console.log('Pregnancy week validation failed:', pregnancyWeekResult.error)
+      return NextResponse.json(
+        { error: pregnancyWeekResult.error },
+        { status: 400 }
+      )
+    }
+    const pregnancyWeek = pregnancyWeekResult.week
+    const { profile } = body
+    const allergens = profile?.allergens
+    const estimateCarbs = needsCarbEstimate(profile)
+
+    // 6. テキストのサニタイゼーションと検証（利用者の入力がプロンプトに入るため）
+    const sanitizationResult = sanitizeAndValidateFoodText(body.text, { pregnancyWeek, profile })
+    if (!sanitizationResult.isSafe) {
+      console.log('Text validation failed:', sanitizationResult.reason)
+      return NextResponse.json(
+        { error: sanitizationResult.reason },
+        { status: 400 }
+      )
+    }
+
+    // 7. 食品名の修正による再判定では、名前を変えていない食品に修正前の判定を使い、追加・変更した食品のみモデルに問い合わせる
+    const { knownFoods, newItems } = splitKnownFoods(sanitizationResult.items!, body.previousFoods ?? [])
+    if (newItems.length === 0) {
+      console.log(`All ${knownFoods.length} items were judged before; skipping model call`)
+      const response: AnalyzeSuccessResponse = {
+        success: true,
+        version: API_CONTRACT_VERSION,
+        result: createAnalysisResult(knownFoods, { pregnancyWeek, allergens, estimateCarbs })
+      }
+      return NextResponse.json(response)
+    }
+    const promptResult = knownFoods.length > 0
+      ? sanitizeAndValidateFoodText(newItems, { pregnancyWeek, profile })
+      : sanitizationResult
+
+    // モデルの呼び出しごとに全体の利用量を記録する
+    const provider = withUsageQuota(getVisionProvider(), usageQuota)
+    const configError = provider.getConfigError()
+    if (configError) {
+      console.log(`Error: ${provider.name} provider is not configured`)
+      return NextResponse.json(
+        { error: configError },
+        { status: 500 }
+      )
+    }
+
+    console.log(`Calling ${provider.name} provider with ${newItems.length} items...`)
+    const result = await callVisionAPI(provider, { prompt: promptResult.sanitizedPrompt! }, pregnancyWeek, { knownFoods, allergens, estimateCarbs })
+
+    const response: AnalyzeSuccessResponse = {
+      success: true,
+      version: API_CONTRACT_VERSION,
+      result
+    }
+    return NextResponse.json(response)
+
+  } catch (error) {
+    console.error('テキスト分析エラー:', error)
+    return NextResponse.json(
+      { error: '分析中にエラーが発生しました。時間をおいて再度お試しください。' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,262 +1,256 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { rateLimit } from '@/lib/rate-limit'
-import { sanitizeAndValidatePrompt, validateApiResponse } from '@/lib/security'
-import { validateReferrer, validateContentType, validateUserAgent } from '@/lib/auth'
+import { sanitizeAndValidateImages } from '@/lib/security'
+import { resolvePregnancyWeek } from '@/lib/pregnancy'
+import { callVisionAPI } from '@/lib/analysis'
+import {
+  AnalysisProgressEvent,
+  AnalysisResult,
+  AnalyzeErrorResponse,
+  AnalyzeSuccessResponse,
+  API_CONTRACT_VERSION,
+  parseAnalyzeImageRequest
+} from '@/lib/api-contract'
+import { AnalysisCacheKey, createAnalysisCache, getAnalysisCacheStore, getAnalysisCacheTtlMs } from '@/lib/analysis-cache'
+import { FOOD_KNOWLEDGE_VERSION } from '@/lib/food-knowledge'
+import { describeDietaryProfile, DietaryProfile } from '@/lib/dietary-profile'
+import { needsCarbEstimate } from '@/lib/carbohydrate'
+import { computeImageHash } from '@/lib/image-hash'
+import { assessImageQuality } from '@/lib/image-quality'
+import { guardAnalyzeRequest, usageQuota } from '@/lib/request-guard'
+import { withUsageQuota } from '@/lib/usage-quota'
+import { findUnsupportedImageType, getVisionProvider, VisionProvider } from '@/lib/vision-provider'
+import { createServerSentEventStream, EVENT_STREAM_CONTENT_TYPE } from '@/lib/server-sent-events'
 
-// Rate limiting設定（1時間に10回まで）
-const limiter = rateLimit({
-  maxRequests: 10,
-  windowMs: 60 * 60 * 1000 // 1時間
+// 同じ写真の再送信には、モデルを呼ばずに保存済みの結果を返す
+const analysisCache = createAnalysisCache<AnalysisResult>({
+  store: getAnalysisCacheStore(),
+  ttlMs: getAnalysisCacheTtlMs()
 })
 
-async function callGeminiAPI(imageData: string, safePrompt: string) {
-  const apiKey = process.env.GEMINI_API_KEY
-  if (!apiKey) {
-    return {
-      safe: false,
-      detected_food: null,
-      message: 'Gemini APIキーが設定されていません',
-      details: ''
-    }
-  }
-
-  const maxRetries = 3
-  const baseDelay = 1000 // 1秒
-
-  for (let attempt = 0; attempt < maxRetries; attempt++) {
-    try {
-      // 画像データ（data:image/...;base64,....）からbase64部分を抽出
-      const [, imageB64] = imageData.split(',')
-
-      // 安全なプロンプトを使用（パラメータとして受け取る）
-      const prompt = safePrompt
-
-      const requestBody = {
-        contents: [
-          {
-            parts: [
-              { text: prompt },
-              {
-                inline_data: {
-                  mime_type: "image/jpeg",
-                  data: imageB64
-                }
-              }
-            ]
-          }
-        ]
-      }
+type ValidAnalyzeInput = {
+  images: string[]
+  prompt: string
+  pregnancyWeek?: number
+  profile?: DietaryProfile
+  getCacheKey: () => Promise<AnalysisCacheKey>
+}
 
-      const response = await fetch(
-        `https://generativelanguage.googleapis.com/v1beta/models/gemini-1.5-flash:generateContent?key=${apiKey}`,
-        {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify(requestBody)
-        }
-      )
+type AnalyzeInput = { error: NextResponse } | ValidAnalyzeInput
 
-      if (!response.ok) {
-        const errorText = await response.text()
-        // const error = JSON.parse(errorText) // エラー詳細は必要に応じて使用
-        
-        // 503 (サーバー過負荷) の場合はリトライ
-        if (response.status === 503 && attempt < maxRetries - 1) {
-          const delay = baseDelay * Math.pow(2, attempt) // 指数バックオフ
-          console.log(`Gemini API過負荷 (試行 ${attempt + 1}/${maxRetries})。${delay}ms後にリトライします...`)
-          await new Promise(resolve => setTimeout(resolve, delay))
-          continue
-        }
-        
-        throw new Error(`Gemini API error: ${response.status} - ${errorText}`)
-      }
+export async function POST(request: NextRequest) {
+  console.log('API called at:', new Date().toISOString())
 
-      // 成功した場合の処理
-      const data = await response.json()
-      
-      // エラーハンドリングを強化
-      if (!data.candidates || data.candidates.length === 0) {
-        return {
-          safe: false,
-          detected_food: null,
-          message: 'Geminiからレスポンスが得られませんでした',
-          details: JSON.stringify(data)
-        }
-      }
+  // 本文は1回しか読めないため、キャッシュの検索と分析で同じ検証結果を使う
+  const body = await request.json().catch(() => null)
+  let input: AnalyzeInput | null = null
+  const getInput = () => (input ??= validateAnalyzeInput(body))
 
-      const text = data.candidates[0]?.content?.parts?.[0]?.text || ''
-      
-      if (!text) {
-        return {
-          safe: false,
-          detected_food: null,
-          message: 'Geminiからテキストレスポンスが得られませんでした',
-          details: JSON.stringify(data.candidates[0])
-        }
-      }
+  // Accept: text/event-stream の場合は、分析の進み具合をイベントストリームで返す
+  const stream = request.headers.get('accept')?.includes(EVENT_STREAM_CONTENT_TYPE) ?? false
 
-      // レスポンスの検証とサニタイゼーション
-      const validation = validateApiResponse(text)
-      if (!validation.isValid || !validation.sanitizedResponse) {
-        return {
-          safe: false,
-          detected_food: null,
-          message: 'APIレスポンスの検証に失敗しました',
-          details: validation.error || ''
-        }
-      }
+  // 1-4. Rate Limiting・Content-Type・Referrer・User-Agent チェック（すべてのレスポンスにレート制限のヘッダーを付ける）
+  return guardAnalyzeRequest(request, () => analyzeImages(getInput(), stream), {
+    findCached: () => findCachedAnalysis(getInput())
+  })
+}
 
-      const foods = validation.sanitizedResponse.foods
-      const riskyFoods = foods.filter((f: { name: string; risk: boolean; details: string }) => f.risk === true)
-      const safe = riskyFoods.length === 0
+/**
+ * リクエスト本文の検証
+ */
+function validateAnalyzeInput(body: unknown): AnalyzeInput {
+  // 複数枚は images、従来の1枚のみのリクエストは image で受け付ける
+  const parsed = parseAnalyzeImageRequest(body)
+  if (!parsed.isValid) {
+    console.log('Error: Invalid request body:', parsed.error)
+    return {
+      error: NextResponse.json(
+        { error: parsed.error },
+        { status: 400 }
+      )
+    }
+  }
+  const { images, profile } = parsed.request!
 
-      if (safe) {
-        return {
-          safe: true,
-          detected_food: [],
-          message: 'この食事は妊娠中でもリスクが低そうです。メニューや原材料を確認し、食事を楽しんでください。',
-          details: ''
-        }
-      } else {
-        return {
-          safe: false,
-          detected_food: riskyFoods.map((f: { name: string; risk: boolean; details: string }) => f.name),
-          message: 'リスクがある食品が含まれている可能性があります。詳細をご確認ください。',
-          details: riskyFoods.map((f: { name: string; risk: boolean; details: string }) => `${f.name}: ${f.details}`).join('\n')
-        }
-      }
+  // 5. 妊娠週数（任意）の検証
+  const pregnancyWeekResult = resolvePregnancyWeek({
+    pregnancyWeek: parsed.request!.pregnancyWeek,
+    dueDate: parsed.request!.dueDate
+  })
+  if (!pregnancyWeekResult.isValid) {
+    console.log('Pregnancy week validation failed:', pregnancyWeekResult.error)
+    return {
+      error: NextResponse.json(
+        { error: pregnancyWeekResult.error },
+        { status: 400 }
+      )
+    }
+  }
+  const pregnancyWeek = pregnancyWeekResult.week
 
-    } catch (error) {
-      console.error(`Gemini API呼び出しエラー (試行 ${attempt + 1}/${maxRetries}):`, error)
-      
-      // 最後の試行でエラーの場合、エラーメッセージを返す
-      if (attempt === maxRetries - 1) {
-        console.log('Gemini API接続に失敗しました。')
-        return {
-          safe: false,
-          detected_food: null,
-          message: '一時的にGeminiが使用できません。時間をおいて試してみてください。',
-          details: ''
-        }
-      }
-      
-      // リトライの場合は少し待機
-      if (attempt < maxRetries - 1) {
-        const delay = baseDelay * Math.pow(2, attempt)
-        await new Promise(resolve => setTimeout(resolve, delay))
-      }
+  // 6. 画像データのサニタイゼーションと検証
+  const sanitizationResult = sanitizeAndValidateImages(images, { pregnancyWeek, profile })
+  if (!sanitizationResult.isSafe) {
+    console.log('Image validation failed:', sanitizationResult.reason)
+    return {
+      error: NextResponse.json(
+        { error: sanitizationResult.reason },
+        { status: 400 }
+      )
     }
   }
 
-  // ここには到達しないはずですが、念のため
+  const sanitizedImages = sanitizationResult.sanitizedImages!
+  console.log('Image count:', sanitizedImages.length, 'total length:', images.reduce((sum, image) => sum + image.length, 0))
+
+  let cacheKey: Promise<AnalysisCacheKey> | null = null
   return {
-    safe: false,
-    detected_food: null,
-    message: '一時的にGeminiが使用できません。時間をおいて試してみてください。',
-    details: ''
+    images: sanitizedImages,
+    prompt: sanitizationResult.sanitizedPrompt!,
+    pregnancyWeek,
+    profile,
+    // ハッシュの計算は検索と保存で1回だけ行う
+    getCacheKey: () => (cacheKey ??= Promise.all(sanitizedImages.map(computeImageHash)).then(hashes => ({
+      hashes,
+      context: `${getVisionProvider().name}:${FOOD_KNOWLEDGE_VERSION}:v${API_CONTRACT_VERSION}:${pregnancyWeek ?? 'none'}:${describeDietaryProfile(profile)}`
+    })))
   }
 }
 
-export async function POST(request: NextRequest) {
-  console.log('API called at:', new Date().toISOString())
-  
+/**
+ * ほぼ同じ画像の保存済みの結果があれば、そのレスポンスを返す
+ */
+async function findCachedAnalysis(input: AnalyzeInput): Promise<NextResponse | null> {
+  if ('error' in input || !analysisCache.enabled) {
+    return null
+  }
+
   try {
-    // 1. Rate Limiting チェック
-    const rateLimitResult = limiter.check(request)
-    if (!rateLimitResult.allowed) {
-      console.log('Rate limit exceeded')
-      return NextResponse.json(
-        { 
-          error: 'リクエスト制限に達しました。しばらく時間をおいてからお試しください。',
-          retryAfter: rateLimitResult.resetTime 
-        },
-        { status: 429 }
-      )
+    const result = await analysisCache.find(await input.getCacheKey())
+    if (!result) {
+      return null
     }
-
-    // 2. Content-Type チェック
-    const contentTypeValidation = validateContentType(request)
-    if (!contentTypeValidation.isValid) {
-      console.log('Invalid content type:', contentTypeValidation.error)
-      return NextResponse.json(
-        { error: 'リクエスト形式が不正です' },
-        { status: 400 }
-      )
+    console.log('Analysis cache hit')
+    const response: AnalyzeSuccessResponse = {
+      success: true,
+      version: API_CONTRACT_VERSION,
+      result,
+      cached: true
     }
+    return NextResponse.json(response)
+  } catch (error) {
+    console.error('キャッシュの検索に失敗しました:', error)
+    return null
+  }
+}
 
-    // 3. Referrer チェック（開発環境では無効化）
-    if (process.env.NODE_ENV === 'production') {
-      const referrerValidation = validateReferrer(request)
-      if (!referrerValidation.isValid) {
-        console.log('Invalid referrer:', referrerValidation.error)
-        return NextResponse.json(
-          { error: 'アクセス元が不正です' },
-          { status: 403 }
-        )
-      }
-    }
+const ANALYSIS_ERROR_MESSAGE = '分析中にエラーが発生しました。時間をおいて再度お試しください。'
 
-    // 4. User-Agent チェック
-    const userAgentValidation = validateUserAgent(request)
-    if (!userAgentValidation.isValid) {
-      console.log('Invalid user agent:', userAgentValidation.error)
-      return NextResponse.json(
-        { error: 'アクセスが拒否されました' },
-        { status: 403 }
-      )
+/**
+ * 食事の写真から妊娠中のリスクを判定する
+ * 分析を始める前のエラーは、ストリーミングの場合もJSONで返す
+ */
+async function analyzeImages(input: AnalyzeInput, stream: boolean): Promise<NextResponse> {
+  try {
+    if ('error' in input) {
+      return input.error
     }
 
-    const body = await request.json()
-    console.log('Request body received, has image:', !!body?.image)
-
-    if (!body || !body.image) {
-      console.log('Error: No image data provided')
+    // Vision API呼び出し（安全なプロンプトを使用、呼び出しごとに全体の利用量を記録する）
+    const provider = withUsageQuota(getVisionProvider(), usageQuota)
+    const configError = provider.getConfigError()
+    if (configError) {
+      console.log(`Error: ${provider.name} provider is not configured`)
       return NextResponse.json(
-        { error: '画像データが提供されていません' },
-        { status: 400 }
+        { error: configError },
+        { status: 500 }
       )
     }
 
-    const imageData = body.image
-
-    // 5. 画像データのサニタイゼーションと検証
-    const sanitizationResult = sanitizeAndValidatePrompt(imageData)
-    if (!sanitizationResult.isSafe) {
-      console.log('Image validation failed:', sanitizationResult.reason)
+    // HEIC等、利用中のモデルが受け付けない形式
+    const unsupportedImageType = findUnsupportedImageType(provider, input.images)
+    if (unsupportedImageType) {
+      console.log(`Error: ${provider.name} provider does not support ${unsupportedImageType}`)
       return NextResponse.json(
-        { error: sanitizationResult.reason },
+        { error: 'この形式の画像（HEIC等）には対応していません。JPEGやPNG形式の画像をお試しください。' },
         { status: 400 }
       )
     }
 
-    console.log('Image data length:', imageData.length)
-
-    // Gemini API呼び出し（安全なプロンプトを使用）
-    if (!process.env.GEMINI_API_KEY) {
-      console.log('Error: GEMINI_API_KEY not set')
-      return NextResponse.json(
-        { error: 'Gemini APIキーが設定されていません' },
-        { status: 500 }
-      )
+    if (stream) {
+      return streamAnalysis(input, provider)
     }
-    
-    console.log('Calling Gemini API...')
-    const result = await callGeminiAPI(imageData, sanitizationResult.sanitizedPrompt!)
-    console.log('Gemini API result:', result)
-
-    return NextResponse.json({
-      success: true,
-      result: result
-    })
+    return NextResponse.json(await runAnalysis(input, provider))
 
   } catch (error) {
     console.error('分析エラー:', error)
     console.error('Error stack:', error instanceof Error ? error.stack : 'No stack trace')
     return NextResponse.json(
-      { error: '分析中にエラーが発生しました。時間をおいて再度お試しください。' },
+      { error: ANALYSIS_ERROR_MESSAGE },
       { status: 500 }
     )
   }
 }
+
+/**
+ * 分析の進み具合（stage・food）を送りながら分析し、最後に done（結果）か error を送る
+ */
+function streamAnalysis(input: ValidAnalyzeInput, provider: VisionProvider): NextResponse {
+  const body = createServerSentEventStream(async send => {
+    send('stage', { stage: 'validated' })
+    try {
+      send('done', await runAnalysis(input, provider, event => send(event.event, event.data)))
+    } catch (error) {
+      console.error('分析エラー:', error)
+      const errorResponse: AnalyzeErrorResponse = { error: ANALYSIS_ERROR_MESSAGE }
+      send('error', errorResponse)
+    }
+  })
+
+  return new NextResponse(body, {
+    headers: {
+      'Content-Type': `${EVENT_STREAM_CONTENT_TYPE}; charset=utf-8`,
+      'Cache-Control': 'no-cache, no-transform',
+      'X-Accel-Buffering': 'no' // プロキシでまとめて送られないようにする
+    }
+  })
+}
+
+/**
+ * 写真の品質判定・モデルの呼び出し・結果の保存を行い、成功レスポンスを返す
+ */
+async function runAnalysis(
+  input: ValidAnalyzeInput,
+  provider: VisionProvider,
+  onProgress?: (event: AnalysisProgressEvent) => void
+): Promise<AnalyzeSuccessResponse> {
+  // ぼやけた・暗い写真は、モデルの回答によらず判定を信頼できないものとする
+  const imageIssues = (await Promise.all(input.images.map(assessImageQuality))).flat()
+  if (imageIssues.length > 0) {
+    console.log('Image quality issues:', imageIssues.join(', '))
+  }
+
+  console.log(`Calling ${provider.name} provider...`)
+  const result = await callVisionAPI(provider, { images: input.images, prompt: input.prompt }, input.pregnancyWeek, {
+    imageIssues,
+    allergens: input.profile?.allergens,
+    estimateCarbs: needsCarbEstimate(input.profile),
+    onProgress
+  })
+  console.log('Vision API result:', result)
+
+  // 判定できた結果のみ保存する（一時的なエラーのメッセージは保存しない）
+  if (analysisCache.enabled && 'risk_level' in result) {
+    try {
+      await analysisCache.save(await input.getCacheKey(), result)
+    } catch (error) {
+      console.error('キャッシュの保存に失敗しました:', error)
+    }
+  }
+
+  return {
+    success: true,
+    version: API_CONTRACT_VERSION,
+    result,
+    cached: false
+  }
+}
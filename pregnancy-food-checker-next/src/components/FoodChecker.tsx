@@ -1,26 +1,259 @@
 'use client'
 
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent } from '@/components/ui/card'
-import { Camera, CheckCircle, AlertTriangle } from 'lucide-react'
+import { Camera, CheckCircle, AlertTriangle, OctagonAlert, Scale, Flame, HelpCircle, History, Loader2, Trash2, X } from 'lucide-react'
 import Image from 'next/image'
+import { RISK_LEVELS, RiskLevel } from '@/lib/risk-level'
+import {
+  AnalysisResult,
+  AnalyzeStageData,
+  AnalyzeSuccessResponse,
+  createErrorResult,
+  FoodEntry,
+  LOW_CONFIDENCE_THRESHOLD,
+  parseAnalyzeErrorResponse,
+  parseAnalyzeResponse,
+  parseAnalyzeStreamEvent,
+  UncertaintyReason
+} from '@/lib/api-contract'
+import { EVENT_STREAM_CONTENT_TYPE, isEventStream, readServerSentEvents } from '@/lib/server-sent-events'
+import { MAX_IMAGES_PER_REQUEST } from '@/lib/security'
+import { createThumbnail, prepareImageForUpload } from '@/lib/image-processing'
+import { createAnalysisHistory, createHistoryEntry, getHistoryStore, HistoryEntry } from '@/lib/analysis-history'
+import {
+  ALLERGEN_LABELS,
+  ALLERGENS,
+  DIETARY_CONDITION_LABELS,
+  DIETARY_CONDITIONS,
+  DietaryProfile,
+  isEmptyDietaryProfile,
+  loadDietaryProfile,
+  saveDietaryProfile
+} from '@/lib/dietary-profile'
+import { CARB_BAND_GUIDANCE, CarbBand, MEAL_CARB_RANGE_G } from '@/lib/carbohydrate'
+import {
+  createIntakeRecord,
+  describeIntakeWarning,
+  findIntakeCategory,
+  INTAKE_GUIDELINES,
+  IntakeRecord,
+  IntakeStatus,
+  IntakeSummary,
+  loadIntakeLog,
+  PERIOD_LABELS,
+  saveIntakeLog,
+  summarizeIntake
+} from '@/lib/intake-log'
+import { formatWaitTime, parseRateLimitHeaders, RateLimitStatus } from '@/lib/rate-limit-headers'
+import {
+  getTrimester,
+  loadPregnancyWeek,
+  savePregnancyWeek,
+  MAX_PREGNANCY_WEEK,
+  MIN_PREGNANCY_WEEK,
+  TRIMESTER_LABELS
+} from '@/lib/pregnancy'
 
 const API_BASE_URL = ''  // Next.js API routesは同一ドメインなので空文字
 
-interface AnalysisResult {
-  safe: boolean
-  message: string
-  details: string
+const PREGNANCY_WEEK_OPTIONS = Array.from(
+  { length: MAX_PREGNANCY_WEEK - MIN_PREGNANCY_WEEK + 1 },
+  (_, i) => MIN_PREGNANCY_WEEK + i
+)
+
+// 'unknown' はエラー時など判定段階が得られなかった場合、'uncertain' は判定を信頼できない場合
+const RESULT_STYLES: Record<RiskLevel | 'unknown' | 'uncertain', {
+  title: string
+  label: string // 食品ごとの判定に付ける短い表示
+  icon: typeof CheckCircle
+  card: string
+  iconColor: string
+  text: string
+  button: string
+  border: string
+}> = {
+  avoid: {
+    title: '避けたほうがよい食品があります',
+    label: '避ける',
+    icon: OctagonAlert,
+    card: 'bg-red-50',
+    iconColor: 'text-red-500',
+    text: 'text-red-700',
+    button: 'bg-red-500 hover:bg-red-600',
+    border: 'border-red-100'
+  },
+  limit: {
+    title: '量に注意が必要です',
+    label: '量に注意',
+    icon: Scale,
+    card: 'bg-amber-50',
+    iconColor: 'text-amber-500',
+    text: 'text-amber-700',
+    button: 'bg-amber-500 hover:bg-amber-600',
+    border: 'border-amber-100'
+  },
+  caution: {
+    title: '加熱状態に注意してください',
+    label: '加熱に注意',
+    icon: Flame,
+    card: 'bg-yellow-50',
+    iconColor: 'text-yellow-500',
+    text: 'text-yellow-700',
+    button: 'bg-yellow-500 hover:bg-yellow-600',
+    border: 'border-yellow-100'
+  },
+  safe: {
+    title: 'リスク低',
+    label: 'リスク低',
+    icon: CheckCircle,
+    card: 'bg-green-50',
+    iconColor: 'text-green-500',
+    text: 'text-green-700',
+    button: 'bg-green-500 hover:bg-green-600',
+    border: 'border-green-100'
+  },
+  unknown: {
+    title: '注意が必要です',
+    label: '不明',
+    icon: AlertTriangle,
+    card: 'bg-orange-50',
+    iconColor: 'text-orange-500',
+    text: 'text-orange-700',
+    button: 'bg-orange-500 hover:bg-orange-600',
+    border: 'border-orange-100'
+  },
+  uncertain: {
+    title: '判定できませんでした',
+    label: '判別があいまい',
+    icon: HelpCircle,
+    card: 'bg-slate-50',
+    iconColor: 'text-slate-500',
+    text: 'text-slate-700',
+    button: 'bg-slate-500 hover:bg-slate-600',
+    border: 'border-slate-200'
+  }
+}
+
+const UNCERTAINTY_MESSAGES: Record<UncertaintyReason, string> = {
+  low_confidence: '写っている食品をはっきり見分けられませんでした。',
+  blurry: '写真がぼやけているようです。',
+  dark: '写真が暗いようです。'
+}
+
+// 分析中の進み具合の表示
+const describeStage = ({ stage, attempt, reason }: AnalyzeStageData): string => {
+  switch (stage) {
+    case 'validated':
+      return '写真を確認しました'
+    case 'uploading':
+      return 'AIに問い合わせています'
+    case 'retry':
+      return reason === 'schema'
+        ? `回答の形式を直してもらっています（${attempt ?? 2}回目）`
+        : `混み合っているため再試行しています（${attempt ?? 2}回目）`
+    case 'parsing':
+      return '回答を確認しています'
+  }
+}
+
+// 結果全体の表示（判別があいまいな場合を優先する）
+// 信頼できない判定では「リスク低」と示さない（リスクのある食品が見つかった場合はその段階で示す）
+const getResultStyle = (result: AnalysisResult) => {
+  const level = result.risk_level ?? (result.safe ? 'safe' : 'unknown')
+  return RESULT_STYLES[level === 'safe' && (result.uncertain_reasons ?? []).length > 0 ? 'uncertain' : level]
+}
+
+// 履歴に表示する日時
+const formatHistoryDate = (createdAt: number) =>
+  new Date(createdAt).toLocaleString('ja-JP', { year: 'numeric', month: 'numeric', day: 'numeric', hour: '2-digit', minute: '2-digit' })
+
+// チェックボックスの選択を切り替える
+const toggleItem = <T,>(items: T[], item: T) => (items.includes(item) ? items.filter(other => other !== item) : [...items, item])
+
+// 摂取量の状況ごとの表示色
+const INTAKE_STATUS_STYLES: Record<IntakeStatus, RiskLevel> = {
+  ok: 'safe',
+  approaching: 'caution',
+  reached: 'limit',
+  over: 'avoid'
+}
+
+// 1食の炭水化物の目安との比較ごとの表示色
+const CARB_BAND_STYLES: Record<CarbBand, RiskLevel> = {
+  low: 'caution',
+  moderate: 'safe',
+  high: 'limit'
 }
 
+// 目安の期間内に記録した量と、目安に近づいた場合の注意
+function IntakeSummaryList({ summaries }: { summaries: IntakeSummary[] }) {
+  return (
+    <ul className="space-y-2">
+      {summaries.map(summary => {
+        const { guideline, servings, status } = summary
+        const style = RESULT_STYLES[INTAKE_STATUS_STYLES[status]]
+        const warning = describeIntakeWarning(summary)
+        return (
+          <li key={guideline.category} className="text-xs">
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-gray-700">{guideline.label}（{PERIOD_LABELS[guideline.period]}）</span>
+              <span className={`px-2 py-0.5 rounded-full ${style.card} ${style.text}`}>
+                {servings}/{guideline.maxServings}{guideline.unit}
+              </span>
+            </div>
+            {warning && <p className={`mt-1 ${style.text}`}>{warning}{guideline.note}</p>}
+          </li>
+        )
+      })}
+    </ul>
+  )
+}
+
+// 注意が必要な食品から順に並べる（同じ段階の中では認識された順）
+const sortFoodsByRisk = (foods: FoodEntry[]) =>
+  [...foods].sort((a, b) => RISK_LEVELS.indexOf(a.level) - RISK_LEVELS.indexOf(b.level))
+
 export default function FoodChecker() {
-  const [currentView, setCurrentView] = useState('main') // 'main', 'result'
-  const [selectedImage, setSelectedImage] = useState<string | null>(null)
+  const [currentView, setCurrentView] = useState('main') // 'main', 'result', 'history'
+  const [selectedImages, setSelectedImages] = useState<string[]>([])
+  const [imageProgress, setImageProgress] = useState<number | null>(null) // 画像処理中の進捗（0〜1）
+  const [imageError, setImageError] = useState<string | null>(null)
   const [analysisResult, setAnalysisResult] = useState<AnalysisResult | null>(null)
   const [isAnalyzing, setIsAnalyzing] = useState(false)
   const [isCameraMode, setIsCameraMode] = useState(false)
   const [isWebView, setIsWebView] = useState(false)
+  const [pregnancyWeek, setPregnancyWeek] = useState<number | null>(() => loadPregnancyWeek())
+  const [inputMode, setInputMode] = useState<'photo' | 'text'>('photo')
+  const [menuText, setMenuText] = useState('')
+  const [rateLimitStatus, setRateLimitStatus] = useState<RateLimitStatus | null>(null)
+  const [editingFoods, setEditingFoods] = useState<string[] | null>(null) // 食品名の修正中は入力中の名前
+  const [progressSteps, setProgressSteps] = useState<AnalyzeStageData[]>([]) // 分析中に届いた段階（イベントストリームの場合のみ）
+  const [partialFoods, setPartialFoods] = useState<FoodEntry[]>([]) // 分析中に見つかった食品
+  const [now, setNow] = useState(() => Date.now())
+  const [history] = useState(() => createAnalysisHistory({ store: getHistoryStore() }))
+  const [historyEntries, setHistoryEntries] = useState<HistoryEntry[]>([])
+  const [currentHistoryEntry, setCurrentHistoryEntry] = useState<HistoryEntry | null>(null) // 表示中の結果の履歴（修正して再チェックした場合は上書きする）
+  const [isViewingHistory, setIsViewingHistory] = useState(false) // 履歴画面から結果を開いている
+  const [intakeLog, setIntakeLog] = useState<IntakeRecord[]>(() => loadIntakeLog())
+  const [dietaryProfile, setDietaryProfile] = useState<DietaryProfile>(() => loadDietaryProfile())
+  const [loggedFoods, setLoggedFoods] = useState<Record<string, string>>({}) // 表示中の結果で記録した食品名と記録のID
+
+  // 利用制限の残り時間を1秒ごとに更新し、回復したら表示を消す
+  useEffect(() => {
+    if (!rateLimitStatus) return
+    const timer = setInterval(() => {
+      const current = Date.now()
+      setNow(current)
+      if (current >= rateLimitStatus.resetAt && (rateLimitStatus.retryAt === null || current >= rateLimitStatus.retryAt)) {
+        setRateLimitStatus(null)
+      }
+    }, 1000)
+    return () => clearInterval(timer)
+  }, [rateLimitStatus])
+
+  const isRateLimited = rateLimitStatus?.retryAt != null && rateLimitStatus.retryAt > now
 
   // WebView環境検出
   const detectWebView = () => {
@@ -48,17 +281,70 @@ export default function FoodChecker() {
     setIsWebView(detectWebView())
   })
 
-  const handleImageUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0]
-    if (file) {
-      const reader = new FileReader()
-      reader.onload = (e) => {
-        setSelectedImage(e.target?.result as string)
+  const handleImageUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    // 上限枚数を超える分は読み込まない
+    const files = Array.from(event.target.files ?? []).slice(0, MAX_IMAGES_PER_REQUEST - selectedImages.length)
+    // 同じファイルを続けて選択できるようにする
+    event.target.value = ''
+    if (files.length === 0) return
+
+    setImageError(null)
+    setImageProgress(0)
+    try {
+      // 送信前に縮小・再エンコードし、位置情報などのメタデータを取り除く
+      for (let i = 0; i < files.length; i++) {
+        const image = await prepareImageForUpload(files[i], {
+          onProgress: (progress) => setImageProgress((i + progress) / files.length)
+        })
+        setSelectedImages(prev => prev.length < MAX_IMAGES_PER_REQUEST ? [...prev, image] : prev)
       }
-      reader.readAsDataURL(file)
+    } catch (error) {
+      console.error('画像処理エラー:', error)
+      setImageError('画像を読み込めませんでした。別の画像をお試しください。')
+    } finally {
+      setImageProgress(null)
     }
   }
 
+  const removeImage = (index: number) => {
+    setSelectedImages(prev => prev.filter((_, i) => i !== index))
+  }
+
+  const handlePregnancyWeekChange = (event: React.ChangeEvent<HTMLSelectElement>) => {
+    const week = event.target.value ? Number(event.target.value) : null
+    setPregnancyWeek(week)
+    savePregnancyWeek(week)
+  }
+
+  // アレルギー・持病の設定（端末内にのみ保存する）
+  const updateDietaryProfile = (profile: DietaryProfile) => {
+    setDietaryProfile(profile)
+    saveDietaryProfile(profile)
+  }
+
+  const updateIntakeLog = (records: IntakeRecord[]) => {
+    setIntakeLog(records)
+    saveIntakeLog(records)
+  }
+
+  // 結果の食品を「食べた」として記録する（同じ結果から同じ食品は1回だけ）
+  const logIntake = (food: FoodEntry) => {
+    const category = findIntakeCategory(food.name)
+    if (!category || loggedFoods[food.name]) return
+    const record = createIntakeRecord({ category, foodName: food.name })
+    updateIntakeLog([...intakeLog, record])
+    setLoggedFoods(logged => ({ ...logged, [food.name]: record.id }))
+  }
+
+  const undoIntake = (foodName: string) => {
+    updateIntakeLog(intakeLog.filter(record => record.id !== loggedFoods[foodName]))
+    setLoggedFoods(logged => {
+      const next = { ...logged }
+      delete next[foodName]
+      return next
+    })
+  }
+
   const handleCameraCapture = async () => {
     setIsCameraMode(true)
     
@@ -95,137 +381,625 @@ export default function FoodChecker() {
     alert('カメラ機能を使用するには、外部ブラウザ（Safari、Chrome等）で開いてください。\n\nURLがコピーされました。\nブラウザのアドレスバーに貼り付けてアクセスしてください。')
   }
 
-  const handleAnalyze = async () => {
-    if (!selectedImage) return
-    
+  /**
+   * 分析APIを呼び出して結果画面を表示する
+   * 表示した結果を返す（レート制限で結果画面に進まなかった場合は null）
+   */
+  const requestAnalysis = async (endpoint: '/api/analyze' | '/api/analyze-text', body: Record<string, unknown>): Promise<AnalysisResult | null> => {
     setIsAnalyzing(true)
+    setProgressSteps([])
+    setPartialFoods([])
     
     try {
-      // APIエンドポイントにPOSTリクエストを送信
-      const body = {
-        image: selectedImage
-      }
-      const response = await fetch(`${API_BASE_URL}/api/analyze`, {
+      const response = await fetch(`${API_BASE_URL}${endpoint}`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          // 写真の分析は進み具合をイベントストリームで受け取る（保存済みの結果やエラーはJSONで返る）
+          Accept: `${EVENT_STREAM_CONTENT_TYPE}, application/json`,
         },
-        body: JSON.stringify(body)
+        body: JSON.stringify({
+          ...body,
+          ...(pregnancyWeek ? { pregnancyWeek } : {}),
+          ...(isEmptyDietaryProfile(dietaryProfile) ? {} : { profile: dietaryProfile })
+        })
       })
+
+      // 残り回数と回復までの時間（ヘッダーがあるレスポンスのみ）
+      const status = parseRateLimitHeaders(response.headers)
+      if (status) {
+        setNow(Date.now())
+        setRateLimitStatus(status)
+      }
       
       if (!response.ok) {
-        // レート制限の場合の特別な処理
+        // レート制限の場合は結果画面に進まず、回復までの時間を表示する
+        if (response.status === 429 && status?.retryAt) {
+          return null
+        }
         if (response.status === 429) {
           throw new Error('利用制限に達しました。しばらく時間をおいてからお試しください。')
         }
+
+        // 入力の誤り（HEICを変換できない、N枚目の画像が不正等）と、アプリ全体の利用上限（「本日の上限に達しました」等）は
+        // サーバーのメッセージをそのまま表示する
+        if (response.status === 400 || response.status === 503) {
+          const errorData = parseAnalyzeErrorResponse(await response.json().catch(() => null))
+          if (errorData && (response.status === 400 || errorData.quotaExceeded)) {
+            const result = createErrorResult(errorData.error)
+            setAnalysisResult(result)
+            setCurrentView('result')
+            return result
+          }
+        }
         
         // その他のエラー
-        try {
-          const errorData = await response.json()
-          throw new Error(errorData.error || '分析に失敗しました')
-        } catch {
-          throw new Error('分析に失敗しました')
-        }
+        throw new Error('分析に失敗しました')
       }
       
-      const data = await response.json()
-      
-      if (data.success) {
-        setAnalysisResult({
-          safe: data.result.safe,
-          message: data.result.message,
-          details: data.result.details || ''
-        })
-        setCurrentView('result')
-      } else {
-        throw new Error(data.error || '分析に失敗しました')
+      // 共通の型に沿ったレスポンスか確かめてから表示する
+      const parsed = isEventStream(response.headers) && response.body
+        ? await readAnalysisStream(response.body)
+        : parseAnalyzeResponse(await response.json())
+      if (!parsed.isValid) {
+        console.error('分析結果の検証エラー:', parsed.error)
       }
+      const result = parsed.isValid ? parsed.response!.result : createErrorResult(parsed.error!)
+      setAnalysisResult(result)
+      setCurrentView('result')
+      return result
     } catch (error) {
       console.error('分析エラー:', error)
-      setAnalysisResult({
-        safe: false,
-        message: '分析中にエラーが発生しました。もう一度お試しください。',
-        details: ''
-      })
+      const result = createErrorResult('分析中にエラーが発生しました。もう一度お試しください。')
+      setAnalysisResult(result)
       setCurrentView('result')
+      return result
     } finally {
       setIsAnalyzing(false)
     }
   }
 
+  /**
+   * イベントストリームを読み、進み具合を表示しながら最後の結果（done か error）を待つ
+   */
+  const readAnalysisStream = async (body: ReadableStream<Uint8Array>): Promise<{ isValid: boolean; response?: AnalyzeSuccessResponse; error?: string }> => {
+    let outcome: { isValid: boolean; response?: AnalyzeSuccessResponse; error?: string } = { isValid: false, error: '分析に失敗しました' }
+
+    await readServerSentEvents(body, ({ event, data }) => {
+      const parsedEvent = parseAnalyzeStreamEvent(event, data)
+      switch (parsedEvent?.event) {
+        case 'stage':
+          setProgressSteps(steps => [...steps, parsedEvent.data])
+          // 問い合わせ直した場合、食品は最初から送り直される
+          if (parsedEvent.data.stage === 'retry') {
+            setPartialFoods([])
+          }
+          break
+        case 'food':
+          setPartialFoods(foods => [...foods, parsedEvent.data])
+          break
+        case 'done':
+          outcome = { isValid: true, response: parsedEvent.data }
+          break
+        case 'error':
+          outcome = { isValid: false, error: parsedEvent.data.error }
+          break
+      }
+    })
+    return outcome
+  }
+
+  const handleAnalyze = async () => {
+    if (inputMode === 'photo' ? selectedImages.length === 0 : !menuText.trim()) return
+
+    // 写真とテキストでエンドポイントを切り替える
+    const result = inputMode === 'photo'
+      ? await requestAnalysis('/api/analyze', { images: selectedImages })
+      : await requestAnalysis('/api/analyze-text', { text: menuText })
+
+    // 判定できた結果だけを履歴に残す（エラーは残さない）
+    if (result?.risk_level) {
+      const thumbnails = inputMode === 'photo'
+        ? (await Promise.all(selectedImages.map(image => createThumbnail(image)))).filter((image): image is string => image !== null)
+        : []
+      const entry = createHistoryEntry({ mode: inputMode, thumbnails, text: inputMode === 'text' ? menuText : undefined, result })
+      if (await history.save(entry)) {
+        setCurrentHistoryEntry(entry)
+      }
+    }
+  }
+
+  /**
+   * 修正した食品名で判定し直す（画像は送らず、テキストの判定を使う）
+   * 名前を変えていない食品は修正前の判定を引き継ぐ
+   */
+  const handleRecheck = async () => {
+    const names = (editingFoods ?? []).map(name => name.trim()).filter(Boolean)
+    if (names.length === 0 || !analysisResult) return
+
+    // 名前に読点やカンマを含む食品も1つの食品として判定されるよう、配列で送る
+    const result = await requestAnalysis('/api/analyze-text', { text: names, previousFoods: analysisResult.foods })
+    const text = names.join('\n')
+    if (result) {
+      setEditingFoods(null)
+      if (inputMode === 'text') {
+        setMenuText(text)
+      }
+    }
+
+    // 修正した結果で、同じチェックの履歴を置き換える
+    if (result?.risk_level && currentHistoryEntry) {
+      const entry: HistoryEntry = { ...currentHistoryEntry, result, ...(inputMode === 'text' ? { text } : {}) }
+      if (await history.save(entry)) {
+        setCurrentHistoryEntry(entry)
+      }
+    }
+  }
+
+  const openHistory = async () => {
+    setHistoryEntries(await history.list())
+    setCurrentView('history')
+  }
+
+  // 履歴の結果を、分析した直後と同じ結果画面で表示する
+  const openHistoryEntry = (entry: HistoryEntry) => {
+    setAnalysisResult(entry.result)
+    setInputMode(entry.mode)
+    setSelectedImages(entry.thumbnails)
+    setMenuText(entry.text ?? '')
+    setCurrentHistoryEntry(entry)
+    setIsViewingHistory(true)
+    setCurrentView('result')
+  }
+
+  const removeHistoryEntry = async (id: string) => {
+    await history.remove(id)
+    setHistoryEntries(entries => entries.filter(entry => entry.id !== id))
+  }
+
+  const clearHistory = async () => {
+    if (!window.confirm('これまでのチェックの履歴をすべて削除しますか？')) return
+    await history.clear()
+    setHistoryEntries([])
+  }
+
+  const backToHistory = async () => {
+    resetApp()
+    await openHistory()
+  }
+
+  const updateEditingFood = (index: number, name: string) => {
+    setEditingFoods(foods => foods && foods.map((food, i) => (i === index ? name : food)))
+  }
+
   const resetApp = () => {
     setCurrentView('main')
-    setSelectedImage(null)
+    setSelectedImages([])
+    setImageError(null)
+    setMenuText('')
     setAnalysisResult(null)
+    setEditingFoods(null)
+    setCurrentHistoryEntry(null)
+    setIsViewingHistory(false)
+    setLoggedFoods({})
     setIsAnalyzing(false)
   }
 
+  if (currentView === 'history') {
+    return (
+      <div className="min-h-screen bg-gradient-to-b from-pink-50 to-green-50 flex flex-col">
+        <div className="flex-1 flex flex-col items-center p-6">
+          <div className="w-full max-w-md space-y-4">
+            <div className="text-center">
+              <h2 className="text-2xl font-bold text-gray-800 mb-2">これまでのチェック</h2>
+              <p className="text-xs text-gray-500">
+                履歴はこの端末の中にのみ保存され、サーバーには送信されません。古い履歴は自動的に削除されます。
+              </p>
+            </div>
+
+            {historyEntries.length === 0 ? (
+              <p className="text-sm text-gray-600 text-center py-8">まだ履歴はありません</p>
+            ) : (
+              <ul className="space-y-3">
+                {historyEntries.map(entry => {
+                  const entryStyle = getResultStyle(entry.result)
+                  const date = formatHistoryDate(entry.createdAt)
+                  return (
+                    <li key={entry.id} className={`flex items-center gap-3 bg-white rounded-lg border ${entryStyle.border} p-3`}>
+                      <button
+                        type="button"
+                        onClick={() => openHistoryEntry(entry)}
+                        aria-label={`${date}の結果を開く`}
+                        className="flex flex-1 items-center gap-3 text-left min-w-0"
+                      >
+                        {entry.thumbnails.length > 0 ? (
+                          <Image
+                            src={entry.thumbnails[0]}
+                            alt=""
+                            width={56}
+                            height={56}
+                            className="w-14 h-14 shrink-0 object-cover rounded-lg"
+                          />
+                        ) : (
+                          <div className={`w-14 h-14 shrink-0 rounded-lg flex items-center justify-center ${entryStyle.card}`}>
+                            <entryStyle.icon className={`w-6 h-6 ${entryStyle.iconColor}`} />
+                          </div>
+                        )}
+                        <div className="min-w-0">
+                          <div className="flex items-center gap-2 mb-1">
+                            <span className="text-xs text-gray-500">{date}</span>
+                            <span className={`text-xs px-2 py-0.5 rounded-full ${entryStyle.card} ${entryStyle.text}`}>
+                              {entryStyle.label}
+                            </span>
+                          </div>
+                          <p className="text-sm text-gray-700 truncate">
+                            {entry.result.foods.length > 0 ? entry.result.foods.map(food => food.name).join('、') : '食品を判別できませんでした'}
+                          </p>
+                        </div>
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => removeHistoryEntry(entry.id)}
+                        aria-label={`${date}の履歴を削除`}
+                        className="p-1 text-gray-400 hover:text-red-500"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </li>
+                  )
+                })}
+              </ul>
+            )}
+
+            {historyEntries.length > 0 && (
+              <Button
+                variant="outline"
+                onClick={clearHistory}
+                className="w-full text-red-600 border-red-200 rounded-full hover:bg-red-50"
+              >
+                履歴をすべて削除
+              </Button>
+            )}
+            <Button
+              onClick={resetApp}
+              className="w-full py-3 bg-green-500 hover:bg-green-600 text-white font-medium rounded-full"
+            >
+              チェック画面に戻る
+            </Button>
+          </div>
+        </div>
+
+        {/* Bottom Navigation */}
+        <footer className="bg-gradient-to-r from-pink-100 via-green-100 to-pink-100 border-t border-gray-200 p-4 text-center text-xs text-gray-500 select-none">
+          <div className="mb-2">
+            <span>妊娠中の食事チェッカー &copy; 2025</span>
+            <span className="mx-2">|</span>
+            <span>健康と安全をサポートします</span>
+          </div>
+          <div className="text-gray-600 leading-relaxed">
+            ※このアプリは、妊娠中の食事選びの参考として個人が制作したものです。表示される情報は、すべてのリスクを網羅・保証するものではありません。ご心配な場合や体調に不安があるときは、必ず医師や専門家にご相談ください。
+          </div>
+        </footer>
+      </div>
+    )
+  }
+
   if (currentView === 'result' && analysisResult) {
+    const uncertainReasons = analysisResult.uncertain_reasons ?? []
+    const resultStyle = getResultStyle(analysisResult)
+    const uncertaintyNotice = `${uncertainReasons.map(reason => UNCERTAINTY_MESSAGES[reason]).join('')}${inputMode === 'photo'
+      ? '明るい場所でピントを合わせて、料理全体が写るように撮り直してください。'
+      : '料理名や食材名をより具体的に入力してください。'}`
+    // 量に注意が必要で、食べた量を記録できる食品（同じ名前は1つにまとめる）
+    const intakeFoods = analysisResult.foods.filter((food, index, foods) =>
+      findIntakeCategory(food.name) !== null && foods.findIndex(other => other.name === food.name) === index
+    )
+    const allergenFoods = analysisResult.foods.filter(food => food.allergens && food.allergens.length > 0)
+    const { carbohydrate } = analysisResult
+    const carbStyle = carbohydrate ? RESULT_STYLES[CARB_BAND_STYLES[carbohydrate.band]] : null
+    const intakeSummaries = summarizeIntake(intakeLog).filter(summary =>
+      intakeFoods.some(food => findIntakeCategory(food.name) === summary.guideline.category)
+    )
+    const ResultIcon = resultStyle.icon
+
     return (
       <div className="min-h-screen bg-gradient-to-b from-pink-50 to-green-50 flex flex-col">
         <div className="flex-1 flex flex-col items-center justify-center p-6">
-          <Card className={`w-full max-w-md ${analysisResult.safe ? 'bg-green-50' : 'bg-orange-50'} border-none shadow-lg`}>
+          <Card className={`w-full max-w-md ${resultStyle.card} border-none shadow-lg`}>
             <CardContent className="p-8 text-center">
-              {analysisResult.safe ? (
-                <CheckCircle className="w-16 h-16 text-green-500 mx-auto mb-6" />
-              ) : (
-                <AlertTriangle className="w-16 h-16 text-orange-500 mx-auto mb-6" />
-              )}
+              <ResultIcon className={`w-16 h-16 ${resultStyle.iconColor} mx-auto mb-6`} />
               
-              <h2 className={`text-2xl font-bold mb-4 ${analysisResult.safe ? 'text-green-700' : 'text-orange-700'}`}>
-                {analysisResult.safe ? 'リスク低' : '注意が必要です'}
+              <h2 className={`text-2xl font-bold mb-4 ${resultStyle.text}`}>
+                {resultStyle.title}
               </h2>
               
-              <p className="text-gray-700 mb-6 leading-relaxed">
-                {analysisResult.message}
-              </p>
+              {resultStyle === RESULT_STYLES.uncertain ? (
+                <p className="text-gray-700 mb-6 leading-relaxed">
+                  {uncertaintyNotice}下の結果は参考としてご覧ください。
+                </p>
+              ) : (
+                <p className="text-gray-700 mb-6 leading-relaxed">
+                  {analysisResult.message}
+                </p>
+              )}
+
+              {/* リスクのある食品が見つかった場合も、判定の確かさは別に知らせる */}
+              {resultStyle !== RESULT_STYLES.uncertain && uncertainReasons.length > 0 && (
+                <div role="note" className={`mb-6 flex items-start gap-2 text-left text-sm ${RESULT_STYLES.uncertain.text} bg-white/70 rounded-lg p-3`}>
+                  <HelpCircle className={`w-4 h-4 mt-0.5 shrink-0 ${RESULT_STYLES.uncertain.iconColor}`} />
+                  <span>{uncertaintyNotice}ほかにも注意が必要な食品が含まれている可能性があります。</span>
+                </div>
+              )}
+
+              {analysisResult.pregnancy_week && (
+                <p className="text-xs text-gray-500 -mt-4 mb-6">
+                  妊娠{analysisResult.pregnancy_week}週（{TRIMESTER_LABELS[getTrimester(analysisResult.pregnancy_week)]}）の注意点をふまえて判定しました
+                </p>
+              )}
               
-              {selectedImage && (
-                <div className="mb-6">
-                  <Image 
-                    src={selectedImage} 
-                    alt="分析された食事" 
-                    width={128}
-                    height={128}
-                    className="w-32 h-32 object-cover rounded-lg mx-auto shadow-md"
-                  />
+              {inputMode === 'text' && menuText && (
+                <div className="mb-6 text-sm text-gray-600 bg-white/70 rounded-lg p-3 whitespace-pre-line">
+                  {menuText}
+                </div>
+              )}
+
+              {inputMode === 'photo' && selectedImages.length > 0 && (
+                <div className="mb-6 flex flex-wrap justify-center gap-2">
+                  {selectedImages.map((image, index) => (
+                    <Image 
+                      key={index}
+                      src={image} 
+                      alt={`分析された食事${index + 1}`} 
+                      width={128}
+                      height={128}
+                      className={`${selectedImages.length === 1 ? 'w-32 h-32' : 'w-20 h-20'} object-cover rounded-lg shadow-md`}
+                    />
+                  ))}
                 </div>
               )}
               
-              {analysisResult.details && (
+              {editingFoods && (
                 <div className="text-sm text-gray-600 mb-6 text-left">
-                  <h3 className="font-semibold text-center mb-3 text-orange-700">詳細情報</h3>
+                  <h3 className={`font-semibold text-center mb-1 ${resultStyle.text}`}>食品名を修正</h3>
+                  <p className="text-xs text-gray-500 text-center mb-3">
+                    違う食品の名前を直したり、写っていない食品を削除・追加したりして判定し直せます
+                  </p>
+                  <div className="space-y-2">
+                    {editingFoods.map((name, index) => (
+                      <div key={index} className="flex items-center gap-2">
+                        <input
+                          type="text"
+                          value={name}
+                          onChange={event => updateEditingFood(index, event.target.value)}
+                          maxLength={50}
+                          aria-label={`${index + 1}番目の食品名`}
+                          className="flex-1 p-2 text-sm text-gray-700 border border-gray-300 rounded-lg focus:outline-none focus:border-green-400"
+                        />
+                        <button
+                          type="button"
+                          onClick={() => setEditingFoods(foods => foods && foods.filter((_, i) => i !== index))}
+                          aria-label={`${name || `${index + 1}番目の食品`}を削除`}
+                          className="p-1 text-gray-500 hover:text-gray-700"
+                        >
+                          <X className="w-4 h-4" />
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setEditingFoods(foods => foods && [...foods, ''])}
+                    className="w-full mt-2 text-gray-700 rounded-full"
+                  >
+                    食品を追加
+                  </Button>
+                  {isRateLimited && (
+                    <p className="text-xs text-gray-700 text-center mt-2">
+                      あと {formatWaitTime(rateLimitStatus!.retryAt! - now)} で再度チェックできます
+                    </p>
+                  )}
+                  <div className="flex gap-2 mt-3">
+                    <Button
+                      variant="outline"
+                      onClick={() => setEditingFoods(null)}
+                      disabled={isAnalyzing}
+                      className="flex-1 rounded-full"
+                    >
+                      キャンセル
+                    </Button>
+                    <Button
+                      onClick={handleRecheck}
+                      disabled={editingFoods.every(food => !food.trim()) || isAnalyzing || isRateLimited}
+                      className="flex-1 bg-green-500 hover:bg-green-600 text-white rounded-full disabled:opacity-50"
+                    >
+                      {isAnalyzing ? '分析中...' : '修正した内容で再チェック'}
+                    </Button>
+                  </div>
+                </div>
+              )}
+
+              {/* アレルギーは妊娠中のリスクとは別に表示する */}
+              {!editingFoods && allergenFoods.length > 0 && (
+                <div role="alert" className="text-sm mb-6 text-left bg-white border border-purple-200 rounded-lg p-3">
+                  <h3 className="font-semibold text-center text-purple-700 mb-1">アレルギーの注意</h3>
+                  <p className="text-xs text-gray-500 text-center mb-3">
+                    設定したアレルゲンを含む可能性がある食品です。原材料の表示やお店で必ず確認してください
+                  </p>
+                  <ul className="space-y-2">
+                    {allergenFoods.map(food => (
+                      <li key={food.name} className="flex items-center justify-between gap-2">
+                        <span className="font-medium text-gray-700">{food.name}</span>
+                        <span className="shrink-0 text-xs px-2 py-0.5 rounded-full bg-purple-50 text-purple-700">
+                          {food.allergens!.map(allergen => ALLERGEN_LABELS[allergen]).join('・')}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {/* 炭水化物の推定も妊娠中のリスクとは別に表示する */}
+              {!editingFoods && carbohydrate && carbStyle && (
+                <div className="text-sm mb-6 text-left bg-white border border-gray-200 rounded-lg p-3">
+                  <h3 className="font-semibold text-center text-gray-700 mb-3">炭水化物の目安</h3>
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-gray-700">
+                      合計 <span className="font-semibold">約{carbohydrate.carbs_g}g</span>（うち糖類 約{carbohydrate.sugar_g}g）
+                    </span>
+                    <span className={`shrink-0 text-xs px-2 py-0.5 rounded-full ${carbStyle.card} ${carbStyle.text}`}>
+                      {CARB_BAND_GUIDANCE[carbohydrate.band].label}
+                    </span>
+                  </div>
+                  <p className={`text-xs mt-1 ${carbStyle.text}`}>
+                    {CARB_BAND_GUIDANCE[carbohydrate.band].message}
+                  </p>
+                  <ul className="space-y-1 mt-3 text-xs text-gray-600">
+                    {analysisResult.foods.filter(food => food.carbs_g !== undefined).map(food => (
+                      <li key={food.name} className="flex items-center justify-between gap-2">
+                        <span>{food.name}</span>
+                        <span className="shrink-0">約{food.carbs_g}g</span>
+                      </li>
+                    ))}
+                  </ul>
+                  <p className="text-xs text-gray-500 mt-3">
+                    量はAIによる推定です。1食の目安（{MEAL_CARB_RANGE_G.min}〜{MEAL_CARB_RANGE_G.max}g）は一般的な範囲のため、主治医や管理栄養士の指示がある場合はそちらを優先してください
+                  </p>
+                </div>
+              )}
+
+              {!editingFoods && analysisResult.risk_level && (
+                <div className="text-sm text-gray-600 mb-6 text-left">
+                  <h3 className={`font-semibold text-center mb-1 ${resultStyle.text}`}>認識した食品</h3>
+                  <p className="text-xs text-gray-500 text-center mb-3">
+                    実際の食事と異なる場合は、判定結果をうのみにせず「食品名を修正」から直して確認してください
+                  </p>
+                  {analysisResult.foods.length === 0 && (
+                    <p className="text-xs text-gray-700 text-center">食品を判別できませんでした</p>
+                  )}
                   <div className="space-y-3">
-                    {analysisResult.details.split('\n').map((detail: string, index: number) => {
-                      const [foodName, ...descParts] = detail.split(':')
-                      const description = descParts.join(':').trim()
-                      
-                      if (foodName && description) {
-                        return (
-                          <div key={index} className="bg-white p-3 rounded-lg border border-orange-100">
-                            <div className="font-medium text-orange-800 mb-1">
-                              {foodName.trim()}
-                            </div>
-                            <div className="text-gray-700 text-xs leading-relaxed">
-                              {description}
-                            </div>
+                    {sortFoodsByRisk(analysisResult.foods).map((food, index) => (
+                      <div key={index} className={`bg-white p-3 rounded-lg border ${resultStyle.border}`}>
+                        <div className="flex items-center justify-between gap-2 mb-1">
+                          <span className={`font-medium ${RESULT_STYLES[food.level].text}`}>
+                            {food.name}
+                          </span>
+                          <span className="shrink-0 flex gap-1">
+                            {food.confidence !== undefined && food.confidence < LOW_CONFIDENCE_THRESHOLD && (
+                              <span className={`text-xs px-2 py-0.5 rounded-full ${RESULT_STYLES.uncertain.card} ${RESULT_STYLES.uncertain.text}`}>
+                                {RESULT_STYLES.uncertain.label}
+                              </span>
+                            )}
+                            <span className={`text-xs px-2 py-0.5 rounded-full ${RESULT_STYLES[food.level].card} ${RESULT_STYLES[food.level].text}`}>
+                              {RESULT_STYLES[food.level].label}
+                            </span>
+                          </span>
+                        </div>
+                        {food.details && (
+                          <div className="text-gray-700 text-xs leading-relaxed">
+                            {food.details}
+                          </div>
+                        )}
+                        {food.source && (
+                          <div className="text-gray-400 text-xs mt-1">
+                            出典: {food.source}
                           </div>
-                        )
-                      }
-                      return null
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setEditingFoods(analysisResult.foods.map(food => food.name))}
+                    className="w-full mt-3 text-gray-700 rounded-full"
+                  >
+                    食品名を修正
+                  </Button>
+                </div>
+              )}
+
+              {!editingFoods && intakeFoods.length > 0 && (
+                <div className="text-sm text-gray-600 mb-6 text-left">
+                  <h3 className={`font-semibold text-center mb-1 ${resultStyle.text}`}>食べた量の記録</h3>
+                  <p className="text-xs text-gray-500 text-center mb-3">
+                    1日・1週間の量に目安がある食品です。食べた場合は記録すると、目安に近づいたときにお知らせします
+                  </p>
+                  <div className="space-y-2">
+                    {intakeFoods.map(food => {
+                      const guideline = INTAKE_GUIDELINES[findIntakeCategory(food.name)!]
+                      return (
+                        <div key={food.name} className={`flex items-center justify-between gap-2 bg-white p-3 rounded-lg border ${resultStyle.border}`}>
+                          <div>
+                            <div className="font-medium text-gray-700">{food.name}</div>
+                            <div className="text-xs text-gray-500">{guideline.label}・1{guideline.unit}として記録</div>
+                          </div>
+                          {loggedFoods[food.name] ? (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => undoIntake(food.name)}
+                              aria-label={`${food.name}の記録を取り消す`}
+                              className="shrink-0 rounded-full"
+                            >
+                              記録済み（取り消す）
+                            </Button>
+                          ) : (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => logIntake(food)}
+                              aria-label={`${food.name}を食べたので記録`}
+                              className="shrink-0 rounded-full"
+                            >
+                              食べたので記録
+                            </Button>
+                          )}
+                        </div>
+                      )
                     })}
                   </div>
+                  {intakeSummaries.length > 0 && (
+                    <div className="mt-3">
+                      <IntakeSummaryList summaries={intakeSummaries} />
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {!editingFoods && analysisResult.images && analysisResult.images.length > 1 && (
+                <div className="text-sm text-gray-600 mb-6 text-left">
+                  <h3 className={`font-semibold text-center mb-3 ${resultStyle.text}`}>画像ごとの結果</h3>
+                  <div className="space-y-2">
+                    {analysisResult.images.map(image => (
+                      <div key={image.image} className={`bg-white p-3 rounded-lg border ${resultStyle.border}`}>
+                        <div className={`font-medium mb-1 ${RESULT_STYLES[image.risk_level].text}`}>
+                          {image.image}枚目: {RESULT_STYLES[image.risk_level].title}
+                        </div>
+                        <div className="text-gray-700 text-xs leading-relaxed">
+                          {image.foods.length > 0 ? image.foods.join('、') : '食品を判別できませんでした'}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
                 </div>
               )}
               
-              <Button 
-                onClick={resetApp}
-                className={`w-full py-3 text-white font-medium rounded-full ${
-                  analysisResult.safe ? 'bg-green-500 hover:bg-green-600' : 'bg-orange-500 hover:bg-orange-600'
-                }`}
-              >
-                新しい写真をチェック
-              </Button>
+              {isViewingHistory ? (
+                <Button 
+                  onClick={backToHistory}
+                  className={`w-full py-3 text-white font-medium rounded-full ${resultStyle.button}`}
+                >
+                  履歴に戻る
+                </Button>
+              ) : (
+                <Button 
+                  onClick={resetApp}
+                  className={`w-full py-3 text-white font-medium rounded-full ${resultStyle.button}`}
+                >
+                  {inputMode === 'photo' ? (uncertainReasons.length > 0 ? '写真を撮り直す' : '新しい写真をチェック') : '別の料理をチェック'}
+                </Button>
+              )}
             </CardContent>
           </Card>
         </div>
@@ -245,6 +1019,8 @@ export default function FoodChecker() {
     )
   }
 
+  const mainIntakeSummaries = summarizeIntake(intakeLog)
+
   return (
     <div className="min-h-screen bg-gradient-to-b from-pink-50 to-green-50 flex flex-col">
       {/* Header */}
@@ -255,6 +1031,15 @@ export default function FoodChecker() {
         <h1 className="text-3xl font-bold text-gray-800">
           食事チェッカー
         </h1>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={openHistory}
+          className="mt-3 text-gray-600 rounded-full"
+        >
+          <History className="w-4 h-4" />
+          これまでのチェック
+        </Button>
       </div>
 
       {/* Main Content */}
@@ -282,69 +1067,263 @@ export default function FoodChecker() {
             </div>
           )}
 
+          {/* Input Mode */}
+          <div className="grid grid-cols-2 gap-2 bg-white/70 border border-gray-200 rounded-full p-1" role="tablist">
+            <button
+              type="button"
+              role="tab"
+              aria-selected={inputMode === 'photo'}
+              onClick={() => setInputMode('photo')}
+              className={`py-2 text-sm rounded-full ${inputMode === 'photo' ? 'bg-green-500 text-white' : 'text-gray-600'}`}
+            >
+              写真でチェック
+            </button>
+            <button
+              type="button"
+              role="tab"
+              aria-selected={inputMode === 'text'}
+              onClick={() => setInputMode('text')}
+              className={`py-2 text-sm rounded-full ${inputMode === 'text' ? 'bg-green-500 text-white' : 'text-gray-600'}`}
+            >
+              メニュー名でチェック
+            </button>
+          </div>
+
           {/* Image Preview */}
-          {selectedImage && (
+          {inputMode === 'photo' && selectedImages.length > 0 && (
             <div className="text-center mb-6">
-              <Image 
-                src={selectedImage} 
-                alt="選択された画像" 
-                width={192}
-                height={192}
-                className="w-48 h-48 object-cover rounded-lg mx-auto shadow-md"
-              />
+              <div className="flex flex-wrap justify-center gap-3">
+                {selectedImages.map((image, index) => (
+                  <div key={index} className="relative">
+                    <Image 
+                      src={image} 
+                      alt={`選択された画像${index + 1}`} 
+                      width={192}
+                      height={192}
+                      className={`${selectedImages.length === 1 ? 'w-48 h-48' : 'w-24 h-24'} object-cover rounded-lg shadow-md`}
+                    />
+                    <button
+                      type="button"
+                      onClick={() => removeImage(index)}
+                      aria-label={`${index + 1}枚目の画像を削除`}
+                      className="absolute -top-2 -right-2 bg-white rounded-full p-1 shadow text-gray-600 hover:text-red-500"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+              <p className="text-xs text-gray-500 mt-2">
+                {selectedImages.length}/{MAX_IMAGES_PER_REQUEST}枚（主菜・副菜・メニュー表などをまとめてチェックできます）
+              </p>
             </div>
           )}
 
-          {/* Upload Button */}
-          <div className="space-y-4">
-            {/* Camera Capture Button */}
-            <div className="relative">
-              <input
-                type="file"
-                accept="image/*"
-                capture="environment"
-                onChange={handleImageUpload}
-                className="hidden"
-                id="camera-capture"
-                autoFocus
+          {/* Image Processing Progress */}
+          {inputMode === 'photo' && imageProgress !== null && (
+            <div className="text-center text-xs text-gray-500" role="status">
+              <div className="w-full h-2 bg-gray-200 rounded-full overflow-hidden mb-1">
+                <div
+                  className="h-full bg-green-400 transition-all"
+                  style={{ width: `${Math.round(imageProgress * 100)}%` }}
+                />
+              </div>
+              画像を準備中...（{Math.round(imageProgress * 100)}%）
+            </div>
+          )}
+
+          {inputMode === 'photo' && imageError && (
+            <p className="text-sm text-red-600 text-center" role="alert">{imageError}</p>
+          )}
+
+          {/* Pregnancy Week */}
+          <div className="flex items-center justify-between bg-white/70 border border-gray-200 rounded-lg px-4 py-3">
+            <label htmlFor="pregnancy-week" className="text-sm text-gray-700">
+              妊娠週数
+            </label>
+            <select
+              id="pregnancy-week"
+              value={pregnancyWeek ?? ''}
+              onChange={handlePregnancyWeekChange}
+              className="text-sm text-gray-700 bg-transparent focus:outline-none"
+            >
+              <option value="">未設定</option>
+              {PREGNANCY_WEEK_OPTIONS.map(week => (
+                <option key={week} value={week}>
+                  {week}週（{TRIMESTER_LABELS[getTrimester(week)]}）
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {/* Dietary Profile */}
+          <details className="bg-white/70 border border-gray-200 rounded-lg px-4 py-3">
+            <summary className="text-sm text-gray-700 cursor-pointer">
+              アレルギー・持病（{isEmptyDietaryProfile(dietaryProfile)
+                ? '未設定'
+                : [
+                  ...dietaryProfile.allergens.map(allergen => ALLERGEN_LABELS[allergen]),
+                  ...dietaryProfile.conditions.map(condition => DIETARY_CONDITION_LABELS[condition])
+                ].join('・')}）
+            </summary>
+            <p className="text-xs text-gray-500 mt-2">
+              設定はこの端末の中にのみ保存されます。アレルゲンを含む可能性がある食品は、妊娠中のリスクとは別にお知らせします
+            </p>
+            <fieldset className="mt-3">
+              <legend className="text-xs text-gray-600 mb-1">食物アレルギー</legend>
+              <div className="grid grid-cols-2 gap-1">
+                {ALLERGENS.map(allergen => (
+                  <label key={allergen} className="flex items-center gap-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={dietaryProfile.allergens.includes(allergen)}
+                      onChange={() => updateDietaryProfile({ ...dietaryProfile, allergens: toggleItem(dietaryProfile.allergens, allergen) })}
+                    />
+                    {ALLERGEN_LABELS[allergen]}
+                  </label>
+                ))}
+              </div>
+            </fieldset>
+            <fieldset className="mt-3">
+              <legend className="text-xs text-gray-600 mb-1">持病</legend>
+              {DIETARY_CONDITIONS.map(condition => (
+                <label key={condition} className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={dietaryProfile.conditions.includes(condition)}
+                    onChange={() => updateDietaryProfile({ ...dietaryProfile, conditions: toggleItem(dietaryProfile.conditions, condition) })}
+                  />
+                  {DIETARY_CONDITION_LABELS[condition]}
+                </label>
+              ))}
+              <p className="text-xs text-gray-500 mt-1">
+                妊娠糖尿病を設定すると、食事の炭水化物の量（推定）と1食の目安も表示します
+              </p>
+            </fieldset>
+          </details>
+
+          {/* 量に注意が必要な食品の記録 */}
+          {mainIntakeSummaries.length > 0 && (
+            <div className="bg-white/70 border border-gray-200 rounded-lg px-4 py-3">
+              <p className="text-sm text-gray-700 mb-2">食べた量の記録</p>
+              <IntakeSummaryList summaries={mainIntakeSummaries} />
+            </div>
+          )}
+
+          {/* Menu Text Input */}
+          {inputMode === 'text' && (
+            <div>
+              <textarea
+                value={menuText}
+                onChange={(e) => setMenuText(e.target.value)}
+                maxLength={500}
+                rows={4}
+                aria-label="料理名や食材名"
+                placeholder={'料理名や食材名を入力してください\n例: サーモンのカルパッチョ、生ハムサラダ'}
+                className="w-full p-4 text-sm text-gray-700 border-2 border-gray-300 rounded-2xl focus:outline-none focus:border-green-400"
               />
-              <Button 
-                variant="outline"
-                onClick={handleCameraCapture}
-                disabled={isCameraMode}
-                className="w-full py-4 text-gray-700 border-2 border-gray-300 rounded-full hover:bg-gray-50 disabled:opacity-50"
-              >
-                {isCameraMode ? '📷 カメラ準備中...' : isWebView ? '📷 写真を撮影（制限有り）' : '📷 写真を撮影'}
-              </Button>
+              <p className="text-xs text-gray-500 mt-1">改行や「、」で区切ると複数の料理をまとめてチェックできます</p>
             </div>
+          )}
+
+          {/* Upload Button */}
+          {inputMode === 'photo' && (
+            <div className="space-y-4">
+              {/* Camera Capture Button */}
+              <div className="relative">
+                <input
+                  type="file"
+                  accept="image/*,.heic,.heif"
+                  capture="environment"
+                  onChange={handleImageUpload}
+                  className="hidden"
+                  id="camera-capture"
+                  autoFocus
+                />
+                <Button 
+                  variant="outline"
+                  onClick={handleCameraCapture}
+                  disabled={isCameraMode || selectedImages.length >= MAX_IMAGES_PER_REQUEST}
+                  className="w-full py-4 text-gray-700 border-2 border-gray-300 rounded-full hover:bg-gray-50 disabled:opacity-50"
+                >
+                  {isCameraMode ? '📷 カメラ準備中...' : isWebView ? '📷 写真を撮影（制限有り）' : '📷 写真を撮影'}
+                </Button>
+              </div>
             
-            {/* File Upload Button */}
-            <div className="relative">
-              <input
-                type="file"
-                accept="image/*"
-                onChange={handleImageUpload}
-                className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
-                id="file-upload"
-                aria-label="画像をアップロード"
-              />
-              <Button 
-                variant="outline"
-                className="w-full py-4 text-gray-700 border-2 border-gray-300 rounded-full hover:bg-gray-50"
-              >
-                📁 ファイルから選択
-              </Button>
+              {/* File Upload Button */}
+              <div className="relative">
+                <input
+                  type="file"
+                  accept="image/*,.heic,.heif"
+                  multiple
+                  onChange={handleImageUpload}
+                  disabled={selectedImages.length >= MAX_IMAGES_PER_REQUEST}
+                  className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
+                  id="file-upload"
+                  aria-label="画像をアップロード"
+                />
+                <Button 
+                  variant="outline"
+                  className="w-full py-4 text-gray-700 border-2 border-gray-300 rounded-full hover:bg-gray-50"
+                >
+                  📁 ファイルから選択
+                </Button>
+              </div>
             </div>
-          </div>
+          )}
 
           {/* Analyze Button */}
           <Button 
             onClick={handleAnalyze}
-            disabled={!selectedImage || isAnalyzing}
+            disabled={(inputMode === 'photo' ? selectedImages.length === 0 || imageProgress !== null : !menuText.trim()) || isAnalyzing || isRateLimited}
             className="w-full py-4 bg-green-500 hover:bg-green-600 text-white font-medium rounded-full disabled:opacity-50 disabled:cursor-not-allowed"
           >
             {isAnalyzing ? '分析中...' : 'チェック開始'}
           </Button>
+
+          {/* 分析の進み具合 */}
+          {isAnalyzing && progressSteps.length > 0 && (
+            <div className="bg-white/70 rounded-2xl p-4 text-sm text-gray-700" aria-live="polite">
+              <ol className="space-y-1">
+                {progressSteps.map((step, index) => {
+                  const isCurrent = index === progressSteps.length - 1
+                  return (
+                    <li key={index} className={`flex items-center gap-2 ${isCurrent ? 'font-medium' : 'text-gray-500'}`}>
+                      {isCurrent
+                        ? <Loader2 className="w-4 h-4 text-green-500 animate-spin" />
+                        : <CheckCircle className="w-4 h-4 text-green-500" />}
+                      {describeStage(step)}
+                    </li>
+                  )
+                })}
+              </ol>
+              {partialFoods.length > 0 && (
+                <div className="mt-3 pt-3 border-t border-gray-200">
+                  <p className="text-xs text-gray-500 mb-2">見つかった食品</p>
+                  <ul className="flex flex-wrap gap-2">
+                    {partialFoods.map((food, index) => (
+                      <li key={index} className={`text-xs px-2 py-0.5 rounded-full ${RESULT_STYLES[food.level].card} ${RESULT_STYLES[food.level].text}`}>
+                        {food.name}（{RESULT_STYLES[food.level].label}）
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* 利用制限の状況 */}
+          {isRateLimited ? (
+            <div role="alert" className="bg-orange-50 border border-orange-200 rounded-lg p-4 text-sm text-orange-800 text-center">
+              <p className="font-semibold mb-1">利用制限に達しました</p>
+              <p>あと {formatWaitTime(rateLimitStatus!.retryAt! - now)} で再度チェックできます</p>
+            </div>
+          ) : rateLimitStatus && (
+            <p className="text-xs text-gray-500 text-center">
+              あと {rateLimitStatus.remaining} 回チェックできます
+              {rateLimitStatus.resetAt > now && `（${formatWaitTime(rateLimitStatus.resetAt - now)}後に回復）`}
+            </p>
+          )}
         </div>
       </div>
 
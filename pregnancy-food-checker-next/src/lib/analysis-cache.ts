@@ -0,0 +1,163 @@
+/**
+ * 画像の分析結果のキャッシュ（サーバー専用）
+ *
+ * 知覚ハッシュがほぼ同じ画像（再圧縮・縮小程度の違い）には、一定時間は保存済みの結果を返す。
+ * ハッシュを4つに区切った各区間をキーとして保存するため、違いが3ビット以内なら
+ * 少なくとも1つのキーで候補が見つかる（キーと値だけのストアで近似検索ができる）。
+ */
+
+import { createRedisClient, RedisCommandClient } from './redis-client'
+import { hashDistance, ImageHash } from './image-hash'
+
+// 同じ画像とみなすハッシュの違い（64ビット中）
+export const NEAR_DUPLICATE_DISTANCE = 3
+
+const BAND_COUNT = NEAR_DUPLICATE_DISTANCE + 1
+// 1つのキーに保存する候補の最大数（古いものから捨てる）
+const MAX_CANDIDATES_PER_KEY = 10
+
+/**
+ * キャッシュの保存先（値はJSON文字列）
+ */
+export interface AnalysisCacheStore {
+  get(key: string): Promise<string | null>
+  set(key: string, value: string, ttlMs: number): Promise<void>
+}
+
+export interface AnalysisCacheKey {
+  hashes: ImageHash[] // 送信順の各画像のハッシュ
+  context: string // 妊娠週数など、同じ画像でも結果が変わる条件
+}
+
+interface CacheEntry<T> {
+  hashes: ImageHash[]
+  result: T
+  expiresAt: number
+}
+
+/**
+ * インメモリストア（単一インスタンス・開発環境向け）
+ */
+export function createMemoryAnalysisCacheStore(maxEntries = 1000): AnalysisCacheStore {
+  const entries = new Map<string, { value: string; expiresAt: number }>()
+
+  return {
+    get: async (key) => {
+      const entry = entries.get(key)
+      if (!entry || entry.expiresAt < Date.now()) {
+        entries.delete(key)
+        return null
+      }
+      return entry.value
+    },
+    set: async (key, value, ttlMs) => {
+      entries.delete(key)
+      entries.set(key, { value, expiresAt: Date.now() + ttlMs })
+      // 上限を超えたら古く追加されたものから削除する
+      while (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value!)
+      }
+    }
+  }
+}
+
+/**
+ * Redisをストアとして使う（複数インスタンスでキャッシュを共有する）
+ */
+export function createRedisAnalysisCacheStore(client: RedisCommandClient): AnalysisCacheStore {
+  return {
+    get: async (key) => {
+      const reply = await client.sendCommand(['GET', key])
+      return typeof reply === 'string' ? reply : null
+    },
+    set: async (key, value, ttlMs) => {
+      await client.sendCommand(['SET', key, value, 'PX', String(ttlMs)])
+    }
+  }
+}
+
+/**
+ * 環境変数に応じたストアを返す（RATE_LIMIT_REDIS_URL があればレート制限と同じRedisを使う）
+ */
+export function getAnalysisCacheStore(env: Record<string, string | undefined> = process.env): AnalysisCacheStore {
+  if (env.RATE_LIMIT_REDIS_URL) {
+    return createRedisAnalysisCacheStore(createRedisClient(env.RATE_LIMIT_REDIS_URL))
+  }
+  return createMemoryAnalysisCacheStore()
+}
+
+/**
+ * 環境変数 ANALYSIS_CACHE_TTL_SECONDS からキャッシュの有効期間を返す（0なら無効、デフォルト1日）
+ */
+export function getAnalysisCacheTtlMs(env: Record<string, string | undefined> = process.env): number {
+  const seconds = Number(env.ANALYSIS_CACHE_TTL_SECONDS)
+  if (env.ANALYSIS_CACHE_TTL_SECONDS === undefined || !Number.isFinite(seconds) || seconds < 0) {
+    return 24 * 60 * 60 * 1000
+  }
+  return seconds * 1000
+}
+
+// 1枚目の画像のハッシュから、候補を保存・検索するキーを作る
+function candidateKeys(prefix: string, { hashes, context }: AnalysisCacheKey): string[] {
+  const [first] = hashes
+  const base = `${prefix}:${context}:${hashes.length}`
+  if (!first.startsWith('dhash:')) {
+    return [`${base}:${first}`]
+  }
+
+  const hex = first.slice(6)
+  const bandLength = Math.ceil(hex.length / BAND_COUNT)
+  return Array.from({ length: BAND_COUNT }, (_, band) =>
+    `${base}:dhash${band}:${hex.slice(band * bandLength, (band + 1) * bandLength)}`
+  )
+}
+
+const isSameImages = (a: ImageHash[], b: ImageHash[]) =>
+  a.length === b.length && a.every((hash, i) => hashDistance(hash, b[i]) <= NEAR_DUPLICATE_DISTANCE)
+
+export function createAnalysisCache<T>(config: { store: AnalysisCacheStore; ttlMs: number; prefix?: string }) {
+  const { store, ttlMs } = config
+  const prefix = config.prefix ?? 'analysis-cache'
+
+  const readCandidates = async (key: string): Promise<CacheEntry<T>[]> => {
+    const value = await store.get(key)
+    if (!value) return []
+    try {
+      const entries = JSON.parse(value)
+      return Array.isArray(entries) ? entries.filter(entry => entry.expiresAt > Date.now()) : []
+    } catch {
+      return []
+    }
+  }
+
+  return {
+    enabled: ttlMs > 0,
+
+    /**
+     * ほぼ同じ画像の保存済みの結果を返す（無ければ null）
+     */
+    find: async (key: AnalysisCacheKey): Promise<T | null> => {
+      if (ttlMs <= 0 || key.hashes.length === 0) return null
+
+      for (const storeKey of candidateKeys(prefix, key)) {
+        const match = (await readCandidates(storeKey)).find(entry => isSameImages(entry.hashes, key.hashes))
+        if (match) return match.result
+      }
+      return null
+    },
+
+    /**
+     * 分析結果を保存する
+     */
+    save: async (key: AnalysisCacheKey, result: T): Promise<void> => {
+      if (ttlMs <= 0 || key.hashes.length === 0) return
+
+      const entry: CacheEntry<T> = { hashes: key.hashes, result, expiresAt: Date.now() + ttlMs }
+      await Promise.all(candidateKeys(prefix, key).map(async storeKey => {
+        const candidates = (await readCandidates(storeKey)).filter(candidate => !isSameImages(candidate.hashes, key.hashes))
+        candidates.push(entry)
+        await store.set(storeKey, JSON.stringify(candidates.slice(-MAX_CANDIDATES_PER_KEY)), ttlMs)
+      }))
+    }
+  }
+}
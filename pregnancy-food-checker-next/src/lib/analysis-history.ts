@@ -0,0 +1,190 @@
+/**
+ * 分析の履歴（クライアント専用）
+ *
+ * 妊娠中の食事・体調に関わる情報のため、サーバーには保存せず端末の IndexedDB にのみ保存する。
+ * 写真は縮小したサムネイルだけを残し、件数や端末の容量が上限を超えたら古い履歴から削除する。
+ * IndexedDB が使えない環境では、ページを開いている間だけメモリに保存する。
+ */
+
+import { AnalysisResult } from './api-contract'
+import { createLocalId } from './utils'
+
+export interface HistoryEntry {
+  id: string
+  createdAt: number // ミリ秒
+  mode: 'photo' | 'text'
+  thumbnails: string[] // 写真の縮小版（data URL）。作れなかった場合は空
+  text?: string // メニュー名でチェックした場合の入力
+  result: AnalysisResult
+}
+
+export interface HistoryStore {
+  getAll(): Promise<HistoryEntry[]>
+  put(entry: HistoryEntry): Promise<void>
+  delete(id: string): Promise<void>
+  clear(): Promise<void>
+}
+
+export const MAX_HISTORY_ENTRIES = 100
+
+// 端末がこのアプリに割り当てた容量のうち、これを超えて使っている場合は古い履歴から削除する
+const STORAGE_USAGE_LIMIT = 0.8
+
+const DB_NAME = 'pregnancy-food-checker'
+const DB_VERSION = 1
+const STORE_NAME = 'history'
+
+export function createIndexedDbHistoryStore(factory: IDBFactory): HistoryStore {
+  let database: Promise<IDBDatabase> | null = null
+  const open = () => (database ??= new Promise((resolve, reject) => {
+    const request = factory.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME, { keyPath: 'id' })
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  }))
+
+  // トランザクションが完了してから結果を返す（書き込みが確定する前に画面を更新しないため）
+  const run = async <T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    const db = await open()
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, mode)
+      const request = operation(transaction.objectStore(STORE_NAME))
+      transaction.oncomplete = () => resolve(request.result)
+      transaction.onerror = () => reject(transaction.error)
+      transaction.onabort = () => reject(transaction.error)
+    })
+  }
+
+  return {
+    getAll: () => run('readonly', store => store.getAll()),
+    put: async entry => {
+      await run('readwrite', store => store.put(entry))
+    },
+    delete: async id => {
+      await run('readwrite', store => store.delete(id))
+    },
+    clear: async () => {
+      await run('readwrite', store => store.clear())
+    }
+  }
+}
+
+export function createMemoryHistoryStore(): HistoryStore {
+  const entries = new Map<string, HistoryEntry>()
+  return {
+    getAll: async () => Array.from(entries.values()),
+    put: async entry => {
+      entries.set(entry.id, entry)
+    },
+    delete: async id => {
+      entries.delete(id)
+    },
+    clear: async () => {
+      entries.clear()
+    }
+  }
+}
+
+/**
+ * ブラウザで使える保存先を返す
+ */
+export function getHistoryStore(): HistoryStore {
+  if (typeof window !== 'undefined' && window.indexedDB) {
+    return createIndexedDbHistoryStore(window.indexedDB)
+  }
+  return createMemoryHistoryStore()
+}
+
+export function createHistoryEntry(
+  fields: Pick<HistoryEntry, 'mode' | 'thumbnails' | 'text' | 'result'>,
+  now: number = Date.now()
+): HistoryEntry {
+  return {
+    id: createLocalId(),
+    createdAt: now,
+    ...fields
+  }
+}
+
+// 保存に使う容量の目安（JSONの文字数 × UTF-16の2バイト）
+const estimateEntrySize = (entry: HistoryEntry) => JSON.stringify(entry).length * 2
+
+/**
+ * 件数と容量の上限に収めるために削除する履歴のIDを、古い順に返す
+ * entries は新しい順に並んでいるものとし、最新の履歴は削除しない
+ */
+export function selectEntriesToPrune(entries: HistoryEntry[], options: { maxEntries: number; bytesToFree: number }): string[] {
+  const ids: string[] = []
+  let freed = 0
+  for (let i = entries.length - 1; i > 0; i--) {
+    if (entries.length - ids.length <= options.maxEntries && freed >= options.bytesToFree) {
+      break
+    }
+    ids.push(entries[i].id)
+    freed += estimateEntrySize(entries[i])
+  }
+  return ids
+}
+
+const isQuotaExceeded = (error: unknown) =>
+  typeof error === 'object' && error !== null && (error as { name?: unknown }).name === 'QuotaExceededError'
+
+const estimateBrowserStorage = async (): Promise<StorageEstimate> =>
+  typeof navigator !== 'undefined' && navigator.storage?.estimate ? navigator.storage.estimate() : {}
+
+export interface AnalysisHistory {
+  list(): Promise<HistoryEntry[]>
+  save(entry: HistoryEntry): Promise<boolean> // 保存できなかった場合は false
+  remove(id: string): Promise<void>
+  clear(): Promise<void>
+}
+
+export function createAnalysisHistory(options: {
+  store: HistoryStore
+  maxEntries?: number
+  estimateStorage?: () => Promise<StorageEstimate>
+}): AnalysisHistory {
+  const { store, maxEntries = MAX_HISTORY_ENTRIES, estimateStorage = estimateBrowserStorage } = options
+
+  const list = async () => (await store.getAll()).sort((a, b) => b.createdAt - a.createdAt)
+
+  const removeAll = async (ids: string[]) => {
+    for (const id of ids) {
+      await store.delete(id)
+    }
+  }
+
+  // 件数の上限と、端末の容量の上限に収める
+  const prune = async () => {
+    const entries = await list()
+    const { usage, quota } = await estimateStorage().catch(() => ({} as StorageEstimate))
+    const bytesToFree = usage && quota ? Math.max(0, usage - quota * STORAGE_USAGE_LIMIT) : 0
+    await removeAll(selectEntriesToPrune(entries, { maxEntries, bytesToFree }))
+  }
+
+  return {
+    list,
+    save: async entry => {
+      try {
+        try {
+          await store.put(entry)
+        } catch (error) {
+          if (!isQuotaExceeded(error)) throw error
+          // 容量が足りない場合は、古い方から半分を削除して1回だけやり直す
+          const entries = await list()
+          await removeAll(entries.slice(Math.ceil(entries.length / 2)).map(old => old.id))
+          await store.put(entry)
+        }
+        await prune()
+        return true
+      } catch (error) {
+        console.warn('履歴を保存できませんでした:', error)
+        return false
+      }
+    },
+    remove: id => store.delete(id),
+    clear: () => store.clear()
+  }
+}
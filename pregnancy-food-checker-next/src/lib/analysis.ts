@@ -0,0 +1,301 @@
+/**
+ * 食事の分析処理（画像・テキスト共通）
+ */
+
+import { validateApiResponse, ValidatedFood } from './security'
+import { FOOD_KNOWLEDGE_VERSION, normalizeFoodName, reconcileFoods, ReconciledFood } from './food-knowledge'
+import { RiskLevel, worstRiskLevel } from './risk-level'
+import { getTrimester } from './pregnancy'
+import { VisionProvider, VisionProviderError, VisionRequest } from './vision-provider'
+import { UsageQuotaExceededError } from './usage-quota'
+import { extractCompletedFoods, FOOD_RESPONSE_SCHEMA, ResponseSchemaError, validateFoodResponse } from './response-schema'
+import { AnalysisProgressEvent, AnalysisResult, createErrorResult, FoodEntry, ImageAnalysis, LOW_CONFIDENCE_THRESHOLD, UncertaintyReason } from './api-contract'
+import { ImageQualityIssue } from './image-quality'
+import { Allergen, findAllergensInName } from './dietary-profile'
+import { summarizeCarbohydrates } from './carbohydrate'
+
+const RESULT_MESSAGES: Record<RiskLevel, string> = {
+  avoid: 'リスクがある食品が含まれている可能性があります。詳細をご確認ください。',
+  limit: '食べる量や頻度に注意が必要な食品が含まれています。詳細をご確認ください。',
+  caution: '十分に加熱されていない場合に注意が必要な食品が含まれています。詳細をご確認ください。',
+  safe: 'この食事は妊娠中でもリスクが低そうです。メニューや原材料を確認し、食事を楽しんでください。'
+}
+
+type AnalyzedFood = ValidatedFood & ReconciledFood
+
+// 再回答を求める際にモデルへ伝えるスキーマ違反の最大数
+const MAX_REPORTED_SCHEMA_ERRORS = 3
+
+/**
+ * 複数の画像に写った同じ食品を1つにまとめる（段階は最も重いものを採用）
+ */
+function mergeSameFoods(foods: AnalyzedFood[]): AnalyzedFood[] {
+  const merged = new Map<string, AnalyzedFood>()
+  for (const food of foods) {
+    const key = normalizeFoodName(food.name)
+    const existing = merged.get(key)
+    if (!existing || worstRiskLevel([existing.level, food.level]) !== existing.level) {
+      merged.set(key, food)
+    }
+  }
+  return Array.from(merged.values())
+}
+
+/**
+ * 利用者が設定したアレルゲンのうち、食品に含まれる可能性があるものを返す
+ * モデルの回答に加えて食品名からも判定し、モデルが見落とした場合に備える
+ */
+function flagAllergens(food: AnalyzedFood, allergens: Allergen[]): Allergen[] {
+  const found = new Set([...(food.allergens ?? []), ...findAllergensInName(food.name, allergens)])
+  return allergens.filter(allergen => found.has(allergen))
+}
+
+const toFoodEntry = (food: AnalyzedFood, allergens: Allergen[] = [], estimateCarbs = false): FoodEntry => {
+  const { name, level, details, source, confidence, carbs_g, sugar_g } = food
+  const flagged = flagAllergens(food, allergens)
+  return {
+    name,
+    level,
+    details,
+    ...(source ? { source } : {}),
+    ...(confidence !== undefined ? { confidence } : {}),
+    ...(flagged.length > 0 ? { allergens: flagged } : {}),
+    ...(estimateCarbs && carbs_g !== undefined ? { carbs_g, ...(sugar_g !== undefined ? { sugar_g } : {}) } : {})
+  }
+}
+
+/**
+ * 判定を信頼できない理由を返す（食品の見分けにくさ、写真の品質の順）
+ */
+function findUncertaintyReasons(foods: AnalyzedFood[], imageIssues: ImageQualityIssue[]): UncertaintyReason[] {
+  const reasons: UncertaintyReason[] = []
+  if (foods.some(food => food.confidence !== undefined && food.confidence < LOW_CONFIDENCE_THRESHOLD)) {
+    reasons.push('low_confidence')
+  }
+  for (const issue of ['blurry', 'dark'] as const) {
+    if (imageIssues.includes(issue)) {
+      reasons.push(issue)
+    }
+  }
+  return reasons
+}
+
+function summarizeByImage(foods: AnalyzedFood[], imageCount: number): ImageAnalysis[] {
+  return Array.from({ length: imageCount }, (_, i) => {
+    const imageFoods = foods.filter(food => food.image === i + 1)
+    return {
+      image: i + 1,
+      risk_level: worstRiskLevel(imageFoods.map(food => food.level)),
+      foods: imageFoods.map(food => food.name),
+      detected_food: imageFoods.filter(food => food.level !== 'safe').map(food => food.name)
+    }
+  })
+}
+
+/**
+ * 検証済みの食品を知識ベースと照合し、判定結果を組み立てる
+ * imageIssues は送られた写真の品質の問題（ぼやけ・暗さ）、allergens は利用者が設定したアレルゲン
+ * estimateCarbs を指定すると、食品ごとの炭水化物の推定と食事全体の合計を含める
+ */
+export function createAnalysisResult(
+  validatedFoods: ValidatedFood[],
+  options: {
+    imageCount?: number
+    pregnancyWeek?: number
+    imageIssues?: ImageQualityIssue[]
+    allergens?: Allergen[]
+    estimateCarbs?: boolean
+  } = {}
+): AnalysisResult {
+  const { imageCount = 0, pregnancyWeek, imageIssues = [], allergens = [], estimateCarbs = false } = options
+
+  // 既知の食品は知識ベースの判定で統一する
+  const trimester = pregnancyWeek ? getTrimester(pregnancyWeek) : undefined
+  const foods = reconcileFoods(validatedFoods, { trimester })
+  const riskyFoods = mergeSameFoods(foods.filter(f => f.level !== 'safe'))
+  const riskLevel = worstRiskLevel(foods.map(f => f.level))
+  const uncertainReasons = findUncertaintyReasons(foods, imageIssues)
+  const foodEntries = mergeSameFoods(foods).map(food => toFoodEntry(food, allergens, estimateCarbs))
+  const carbohydrate = estimateCarbs ? summarizeCarbohydrates(foodEntries) : null
+
+  return {
+    safe: riskLevel === 'safe',
+    risk_level: riskLevel,
+    detected_food: riskyFoods.map(f => f.name),
+    foods: foodEntries,
+    message: RESULT_MESSAGES[riskLevel],
+    details: riskyFoods.map(f => `${f.name}: ${f.details}${f.source ? `（出典: ${f.source}）` : ''}`).join('\n'),
+    ...(imageCount > 1 ? { images: summarizeByImage(foods, imageCount) } : {}),
+    ...(uncertainReasons.length > 0 ? { uncertain_reasons: uncertainReasons } : {}),
+    ...(carbohydrate ? { carbohydrate } : {}),
+    knowledge_version: FOOD_KNOWLEDGE_VERSION,
+    ...(pregnancyWeek ? { pregnancy_week: pregnancyWeek, trimester } : {})
+  }
+}
+
+/**
+ * 回答の受信中に、届き終えた食品を知識ベースと照合して onFood に渡す
+ * アレルゲンと炭水化物の推定は最後の結果（createAnalysisResult）と同じ設定で含める
+ * 問い合わせ直すたびに作り直す（送り直した食品は最初から数える）
+ */
+function createPartialFoodReporter(
+  onFood: (food: FoodEntry) => void,
+  options: { pregnancyWeek?: number; allergens?: Allergen[]; estimateCarbs?: boolean } = {}
+) {
+  const { pregnancyWeek, allergens = [], estimateCarbs = false } = options
+  const trimester = pregnancyWeek ? getTrimester(pregnancyWeek) : undefined
+  let reported = 0
+
+  return (text: string) => {
+    const completed = extractCompletedFoods(text)
+    if (completed.length <= reported) return
+
+    const validation = validateApiResponse(JSON.stringify({ foods: completed.slice(reported) }))
+    reported = completed.length
+    for (const food of reconcileFoods(validation.sanitizedResponse?.foods ?? [], { trimester })) {
+      onFood(toFoodEntry(food, allergens, estimateCarbs))
+    }
+  }
+}
+
+/**
+ * スキーマ違反の内容を添えて、同じ依頼をもう一度行うプロンプトを返す
+ * 項目名はモデルの回答に由来するため、記号を除いて埋め込む
+ */
+function createReaskPrompt(prompt: string, errors: ResponseSchemaError[]): string {
+  const problems = errors
+    .slice(0, MAX_REPORTED_SCHEMA_ERRORS)
+    .map(error => `- ${error.path.replace(/[^\w.[\]]/g, '').slice(0, 60) || '回答全体'}: ${error.message}`)
+    .join('\n')
+
+  return `${prompt}
+
+前回の回答は指定した形式になっていませんでした。
+${problems}
+指定した形式のJSONのみを返してください。`
+}
+
+/**
+ * プロバイダーを呼び出し、検証・知識ベース照合を経た判定結果を返す
+ * 503等の一時的なエラーは指数バックオフでリトライし、形式に誤りのある回答には1回だけ再回答を求める
+ * knownFoods（判定済みの食品）はモデルの回答に加えて結果に含め、allergens（利用者のアレルゲン）は食品ごとに確認する
+ * estimateCarbs を指定すると、炭水化物の推定を結果に含める（プロンプトで推定を求めていること）
+ * onProgress を渡すと、問い合わせ・再試行・回答の確認の各段階と、回答の途中で見つかった食品を通知する
+ */
+export async function callVisionAPI(
+  provider: VisionProvider,
+  request: VisionRequest,
+  pregnancyWeek?: number,
+  options: {
+    knownFoods?: ValidatedFood[]
+    imageIssues?: ImageQualityIssue[]
+    allergens?: Allergen[]
+    estimateCarbs?: boolean
+    onProgress?: (event: AnalysisProgressEvent) => void
+  } = {}
+): Promise<AnalysisResult> {
+  const configError = provider.getConfigError()
+  if (configError) {
+    return createErrorResult(configError)
+  }
+
+  const maxRetries = 3
+  const baseDelay = 1000 // 1秒
+  const unavailableMessage = `一時的に${provider.label}が使用できません。時間をおいて試してみてください。`
+  const schemaRequest: VisionRequest = { ...request, responseSchema: FOOD_RESPONSE_SCHEMA }
+  const { onProgress } = options
+  let hasReasked = false
+  let calls = 0
+
+  // 進み具合を通知する場合は、対応していればストリーミングで受信する
+  const analyze = async (visionRequest: VisionRequest) => {
+    if (++calls === 1) {
+      onProgress?.({ event: 'stage', data: { stage: 'uploading' } })
+    }
+    if (!onProgress) {
+      return provider.analyze(visionRequest)
+    }
+
+    const reportFoods = createPartialFoodReporter(food => onProgress({ event: 'food', data: food }), {
+      pregnancyWeek,
+      allergens: options.allergens,
+      estimateCarbs: options.estimateCarbs
+    })
+    const response = provider.analyzeStream
+      ? await provider.analyzeStream(visionRequest, reportFoods)
+      : await provider.analyze(visionRequest)
+    reportFoods(response.text)
+    return response
+  }
+
+  for (let attempt = 0; attempt < maxRetries; attempt++) {
+    try {
+      // 安全なプロンプトを使用（パラメータとして受け取る）
+      let { text } = await analyze(schemaRequest)
+
+      // スキーマに一致しない回答は、違反の内容を伝えて1回だけ回答し直してもらう
+      const schemaValidation = validateFoodResponse(text)
+      if (!schemaValidation.isValid && !hasReasked) {
+        hasReasked = true
+        console.log('回答がスキーマに一致しないため再回答を求めます:', schemaValidation.errors.map(error => `${error.path} ${error.code}`).join(', '))
+        onProgress?.({ event: 'stage', data: { stage: 'retry', attempt: calls + 1, reason: 'schema' } })
+        ;({ text } = await analyze({ ...schemaRequest, prompt: createReaskPrompt(request.prompt, schemaValidation.errors) }))
+      }
+
+      // レスポンスの検証とサニタイゼーション
+      onProgress?.({ event: 'stage', data: { stage: 'parsing' } })
+      const validation = validateApiResponse(text)
+      if (!validation.isValid || !validation.sanitizedResponse) {
+        return createErrorResult('APIレスポンスの検証に失敗しました', validation.error || '')
+      }
+
+      return createAnalysisResult([...(options.knownFoods ?? []), ...validation.sanitizedResponse.foods], {
+        imageCount: request.images?.length ?? 0,
+        pregnancyWeek,
+        imageIssues: options.imageIssues,
+        allergens: options.allergens,
+        estimateCarbs: options.estimateCarbs
+      })
+
+    } catch (error) {
+      // エラーハンドリングを強化
+      if (error instanceof VisionProviderError && error.code === 'NO_CANDIDATES') {
+        return createErrorResult(`${provider.label}からレスポンスが得られませんでした`, error.details)
+      }
+      // 全体の利用上限に達した場合はリトライしない
+      if (error instanceof UsageQuotaExceededError) {
+        return createErrorResult(error.message)
+      }
+      if (error instanceof VisionProviderError && error.code === 'NO_TEXT') {
+        return createErrorResult(`${provider.label}からテキストレスポンスが得られませんでした`, error.details)
+      }
+
+      // 503 (サーバー過負荷) の場合はリトライ
+      if (error instanceof VisionProviderError && error.status === 503 && attempt < maxRetries - 1) {
+        const delay = baseDelay * Math.pow(2, attempt) // 指数バックオフ
+        console.log(`${provider.label}過負荷 (試行 ${attempt + 1}/${maxRetries})。${delay}ms後にリトライします...`)
+        onProgress?.({ event: 'stage', data: { stage: 'retry', attempt: calls + 1, reason: 'unavailable' } })
+        await new Promise(resolve => setTimeout(resolve, delay))
+        continue
+      }
+
+      console.error(`${provider.label}呼び出しエラー (試行 ${attempt + 1}/${maxRetries}):`, error)
+      
+      // 最後の試行でエラーの場合、エラーメッセージを返す
+      if (attempt === maxRetries - 1) {
+        console.log(`${provider.label}接続に失敗しました。`)
+        return createErrorResult(unavailableMessage)
+      }
+      
+      // リトライの場合は少し待機
+      if (attempt < maxRetries - 1) {
+        const delay = baseDelay * Math.pow(2, attempt)
+        onProgress?.({ event: 'stage', data: { stage: 'retry', attempt: calls + 1, reason: 'unavailable' } })
+        await new Promise(resolve => setTimeout(resolve, delay))
+      }
+    }
+  }
+
+  // ここには到達しないはずですが、念のため
+  return createErrorResult(unavailableMessage)
+}
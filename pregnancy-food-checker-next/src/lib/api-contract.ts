@@ -0,0 +1,359 @@
+/**
+ * 分析API（/api/analyze・/api/analyze-text）のリクエスト・レスポンスの型と実行時の検証
+ *
+ * ルートと画面（FoodChecker）の両方から使うため、サーバー専用のモジュールはimportしない。
+ * レスポンスの形を互換性のない形で変える場合は API_CONTRACT_VERSION を上げる。
+ */
+
+import { isRiskLevel, RiskLevel } from './risk-level'
+import { Trimester } from './pregnancy'
+import { Allergen, DietaryProfile, isAllergen, parseDietaryProfile } from './dietary-profile'
+import { isCarbBand, isCarbGrams, MealCarbohydrate } from './carbohydrate'
+
+// 2: foods を注意が必要な食品のみから、認識したすべての食品（safe を含む）に変更
+export const API_CONTRACT_VERSION = 2
+
+/**
+ * 判定を信頼できない理由
+ * - low_confidence: モデルが食品を見分けられた自信が低い
+ * - blurry / dark: 写真がぼやけている・暗い
+ */
+export const UNCERTAINTY_REASONS = ['low_confidence', 'blurry', 'dark'] as const
+
+export type UncertaintyReason = typeof UNCERTAINTY_REASONS[number]
+
+// 食品を見分けられた自信（confidence）がこれ未満の食品があれば low_confidence とする（画面では食品に「判別があいまい」と表示する）
+export const LOW_CONFIDENCE_THRESHOLD = 0.5
+
+// ---- リクエスト ----
+
+export interface AnalyzeImageRequest {
+  images: string[] // data URL。送信順に1枚目、2枚目…として扱う
+  pregnancyWeek?: number
+  dueDate?: string // YYYY-MM-DD。pregnancyWeek が無い場合に週数を計算する
+  profile?: DietaryProfile // 食物アレルギー・持病（設定した場合のみ）
+}
+
+export interface AnalyzeTextRequest {
+  text: string | string[] // 文字列は改行・読点・カンマで区切る。配列は区切らずに1要素を1食品とする（名前に読点を含む食品の修正など）
+  pregnancyWeek?: number
+  dueDate?: string
+  profile?: DietaryProfile
+  previousFoods?: FoodEntry[] // 食品名を修正して再判定する場合の、修正前の判定（名前を変えていない食品は再判定しない）
+}
+
+// ---- レスポンス ----
+
+/**
+ * 食品ごとの判定
+ */
+export interface FoodEntry {
+  name: string
+  level: RiskLevel
+  details: string
+  source?: string // 知識ベースの出典
+  confidence?: number // 食品を見分けられた自信の度合い（0〜1、モデルが返した場合のみ）
+  allergens?: Allergen[] // 含む可能性がある、利用者が設定したアレルゲン（該当する場合のみ）
+  carbs_g?: number // 炭水化物の推定（グラム、妊娠糖尿病を設定した場合のみ）
+  sugar_g?: number // うち糖類の推定（グラム）
+}
+
+/**
+ * 複数枚の画像を送った場合の、画像ごとの判定結果
+ */
+export interface ImageAnalysis {
+  image: number // 1始まりの画像番号
+  risk_level: RiskLevel
+  foods: string[]
+  detected_food: string[]
+}
+
+export interface AnalysisResult {
+  safe: boolean
+  risk_level?: RiskLevel // エラー等で判定できなかった場合は省略
+  detected_food: string[] | null
+  foods: FoodEntry[] // モデルが認識したすべての食品（safe を含む。複数の画像に写った同じ食品は1つにまとめる）
+  message: string
+  details: string // 注意が必要な食品を「食品名: 説明」の改行区切りにしたもの（旧クライアント向け）
+  images?: ImageAnalysis[] // 複数枚の画像を送った場合のみ
+  uncertain_reasons?: UncertaintyReason[] // 判定を信頼できない場合のみ（画面では「判定できませんでした」と表示する）
+  carbohydrate?: MealCarbohydrate // 食事全体の炭水化物の推定（妊娠糖尿病を設定し、推定できた場合のみ）
+  knowledge_version?: string
+  pregnancy_week?: number
+  trimester?: Trimester
+}
+
+export interface AnalyzeSuccessResponse {
+  success: true
+  version: number
+  result: AnalysisResult
+  cached?: boolean // 保存済みの結果を返した場合 true（/api/analyze のみ）
+}
+
+export interface AnalyzeErrorResponse {
+  error: string
+  quotaExceeded?: boolean // アプリ全体の利用上限に達した場合 true
+  retryAfter?: number // 再試行できるまでの秒数
+}
+
+// ---- ストリーミング（/api/analyze に Accept: text/event-stream を付けた場合） ----
+
+/**
+ * 分析の進み具合
+ * - validated: リクエストの検証が済んだ
+ * - uploading: モデルに問い合わせている
+ * - retry: 混雑（unavailable）や回答の形式の誤り（schema）のため、もう一度問い合わせている
+ * - parsing: モデルの回答を確認している
+ */
+export const ANALYZE_STAGES = ['validated', 'uploading', 'retry', 'parsing'] as const
+
+export type AnalyzeStage = typeof ANALYZE_STAGES[number]
+
+export type AnalyzeRetryReason = 'unavailable' | 'schema'
+
+export interface AnalyzeStageData {
+  stage: AnalyzeStage
+  attempt?: number // retry の場合、何回目の問い合わせか（2以上）
+  reason?: AnalyzeRetryReason // retry の場合のみ
+}
+
+/**
+ * イベントストリームで送るイベント（done か error で終わる）
+ * food は回答の途中で見つかった食品で、retry の後は改めて送り直す
+ */
+export type AnalyzeStreamEvent =
+  | { event: 'stage'; data: AnalyzeStageData }
+  | { event: 'food'; data: FoodEntry }
+  | { event: 'done'; data: AnalyzeSuccessResponse }
+  | { event: 'error'; data: AnalyzeErrorResponse }
+
+// 分析の途中で送るイベント
+export type AnalysisProgressEvent = Extract<AnalyzeStreamEvent, { event: 'stage' | 'food' }>
+
+/**
+ * 判定できなかった場合の結果
+ */
+export function createErrorResult(message: string, details: string = ''): AnalysisResult {
+  return {
+    safe: false,
+    detected_food: null,
+    foods: [],
+    message,
+    details
+  }
+}
+
+// ---- 実行時の検証 ----
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const isOptional = (value: unknown, check: (value: unknown) => boolean) => value === undefined || check(value)
+
+const isString = (value: unknown): value is string => typeof value === 'string'
+
+const isStringArray = (value: unknown): value is string[] => Array.isArray(value) && value.every(isString)
+
+const isPositiveInteger = (value: unknown) => Number.isInteger(value) && (value as number) >= 1
+
+const isConfidence = (value: unknown) => typeof value === 'number' && value >= 0 && value <= 1
+
+const isNonNegativeNumber = (value: unknown) => typeof value === 'number' && Number.isFinite(value) && value >= 0
+
+/**
+ * 妊娠週数・出産予定日の型を確かめる（値の範囲は resolvePregnancyWeek で検証する）
+ */
+function parsePregnancyFields(body: Record<string, unknown>): { isValid: boolean; fields?: Pick<AnalyzeTextRequest, 'pregnancyWeek' | 'dueDate'>; error?: string } {
+  const { pregnancyWeek, dueDate } = body
+  if (pregnancyWeek !== undefined && pregnancyWeek !== null && typeof pregnancyWeek !== 'number') {
+    return { isValid: false, error: '妊娠週数が不正です' }
+  }
+  if (dueDate !== undefined && dueDate !== null && typeof dueDate !== 'string') {
+    return { isValid: false, error: '出産予定日が不正です' }
+  }
+  return {
+    isValid: true,
+    fields: {
+      ...(typeof pregnancyWeek === 'number' ? { pregnancyWeek } : {}),
+      ...(typeof dueDate === 'string' ? { dueDate } : {})
+    }
+  }
+}
+
+/**
+ * 食物アレルギー・持病の設定（任意）を検証する
+ */
+function parseProfileField(body: Record<string, unknown>): { isValid: boolean; fields?: Pick<AnalyzeTextRequest, 'profile'>; error?: string } {
+  if (body.profile === undefined || body.profile === null) {
+    return { isValid: true, fields: {} }
+  }
+  const parsed = parseDietaryProfile(body.profile)
+  return parsed.isValid ? { isValid: true, fields: { profile: parsed.profile } } : { isValid: false, error: parsed.error }
+}
+
+/**
+ * /api/analyze のリクエスト本文を検証する（従来の1枚のみの image も images として扱う）
+ */
+export function parseAnalyzeImageRequest(body: unknown): { isValid: boolean; request?: AnalyzeImageRequest; error?: string } {
+  if (!isObject(body) || !(body.images || body.image)) {
+    return { isValid: false, error: '画像データが提供されていません' }
+  }
+
+  const images = body.images ?? [body.image]
+  if (!Array.isArray(images) || images.length === 0) {
+    return { isValid: false, error: '無効な画像データ' }
+  }
+  const invalidIndex = images.findIndex(image => !isString(image) || !image)
+  if (invalidIndex !== -1) {
+    return { isValid: false, error: images.length > 1 ? `${invalidIndex + 1}枚目の画像: 無効な画像データ` : '無効な画像データ' }
+  }
+
+  const pregnancy = parsePregnancyFields(body)
+  if (!pregnancy.isValid) {
+    return { isValid: false, error: pregnancy.error }
+  }
+  const profile = parseProfileField(body)
+  if (!profile.isValid) {
+    return { isValid: false, error: profile.error }
+  }
+  return { isValid: true, request: { images, ...pregnancy.fields, ...profile.fields } }
+}
+
+const isFoodEntry = (value: unknown) =>
+  isObject(value) &&
+  isString(value.name) &&
+  isRiskLevel(value.level) &&
+  isString(value.details) &&
+  isOptional(value.source, isString) &&
+  isOptional(value.confidence, isConfidence) &&
+  isOptional(value.allergens, allergens => Array.isArray(allergens) && allergens.every(isAllergen)) &&
+  isOptional(value.carbs_g, isCarbGrams) &&
+  isOptional(value.sugar_g, isCarbGrams)
+
+/**
+ * /api/analyze-text のリクエスト本文を検証する
+ */
+export function parseAnalyzeTextRequest(body: unknown): { isValid: boolean; request?: AnalyzeTextRequest; error?: string } {
+  const hasText = (text: unknown) => isString(text) ? text.trim().length > 0 : isStringArray(text) && text.some(item => item.trim())
+  if (!isObject(body) || !hasText(body.text)) {
+    return { isValid: false, error: '料理名や食材名を入力してください' }
+  }
+
+  const pregnancy = parsePregnancyFields(body)
+  if (!pregnancy.isValid) {
+    return { isValid: false, error: pregnancy.error }
+  }
+  const profile = parseProfileField(body)
+  if (!profile.isValid) {
+    return { isValid: false, error: profile.error }
+  }
+
+  const { previousFoods } = body
+  if (!isOptional(previousFoods, foods => Array.isArray(foods) && foods.every(isFoodEntry))) {
+    return { isValid: false, error: '修正前の判定結果が不正です' }
+  }
+  return {
+    isValid: true,
+    request: {
+      text: body.text as string | string[],
+      ...pregnancy.fields,
+      ...profile.fields,
+      ...(previousFoods ? { previousFoods: previousFoods as FoodEntry[] } : {})
+    }
+  }
+}
+
+const isImageAnalysis = (value: unknown) =>
+  isObject(value) &&
+  isPositiveInteger(value.image) &&
+  isRiskLevel(value.risk_level) &&
+  isStringArray(value.foods) &&
+  isStringArray(value.detected_food)
+
+const isMealCarbohydrate = (value: unknown) =>
+  isObject(value) &&
+  isNonNegativeNumber(value.carbs_g) &&
+  isNonNegativeNumber(value.sugar_g) &&
+  isCarbBand(value.band)
+
+const isAnalysisResult = (value: unknown) =>
+  isObject(value) &&
+  typeof value.safe === 'boolean' &&
+  isOptional(value.risk_level, isRiskLevel) &&
+  (value.detected_food === null || isStringArray(value.detected_food)) &&
+  Array.isArray(value.foods) && value.foods.every(isFoodEntry) &&
+  isString(value.message) &&
+  isString(value.details) &&
+  isOptional(value.images, images => Array.isArray(images) && images.every(isImageAnalysis)) &&
+  isOptional(value.uncertain_reasons, reasons =>
+    Array.isArray(reasons) && reasons.every(reason => (UNCERTAINTY_REASONS as readonly unknown[]).includes(reason))) &&
+  isOptional(value.carbohydrate, isMealCarbohydrate) &&
+  isOptional(value.knowledge_version, isString) &&
+  isOptional(value.pregnancy_week, isPositiveInteger) &&
+  isOptional(value.trimester, trimester => trimester === 1 || trimester === 2 || trimester === 3)
+
+/**
+ * 分析APIの成功レスポンスを検証する（画面側）
+ */
+export function parseAnalyzeResponse(data: unknown): { isValid: boolean; response?: AnalyzeSuccessResponse; error?: string } {
+  if (!isObject(data) || data.success !== true) {
+    return { isValid: false, error: '分析に失敗しました' }
+  }
+  if (data.version !== API_CONTRACT_VERSION) {
+    return { isValid: false, error: 'アプリが更新されました。ページを再読み込みしてください。' }
+  }
+  if (!isAnalysisResult(data.result) || !isOptional(data.cached, value => typeof value === 'boolean')) {
+    return { isValid: false, error: '分析結果の形式が正しくありません' }
+  }
+  return { isValid: true, response: data as unknown as AnalyzeSuccessResponse }
+}
+
+const isStageData = (value: unknown) =>
+  isObject(value) &&
+  (ANALYZE_STAGES as readonly unknown[]).includes(value.stage) &&
+  isOptional(value.attempt, isPositiveInteger) &&
+  isOptional(value.reason, reason => reason === 'unavailable' || reason === 'schema')
+
+/**
+ * イベントストリームの1件を検証する（画面側）
+ * 未知のイベントや形式の異なるイベントは null（無視する）。done の結果が不正な場合は error として返す
+ */
+export function parseAnalyzeStreamEvent(event: string, data: string): AnalyzeStreamEvent | null {
+  let value: unknown
+  try {
+    value = JSON.parse(data)
+  } catch {
+    return null
+  }
+
+  switch (event) {
+    case 'stage':
+      return isStageData(value) ? { event, data: value as AnalyzeStageData } : null
+    case 'food':
+      return isFoodEntry(value) ? { event, data: value as FoodEntry } : null
+    case 'done': {
+      const parsed = parseAnalyzeResponse(value)
+      return parsed.isValid ? { event, data: parsed.response! } : { event: 'error', data: { error: parsed.error! } }
+    }
+    case 'error': {
+      const errorData = parseAnalyzeErrorResponse(value)
+      return errorData ? { event, data: errorData } : null
+    }
+    default:
+      return null
+  }
+}
+
+/**
+ * 分析APIのエラーレスポンスを読み取る（形式が異なれば null）
+ */
+export function parseAnalyzeErrorResponse(data: unknown): AnalyzeErrorResponse | null {
+  if (!isObject(data) || !isString(data.error)) {
+    return null
+  }
+  return {
+    error: data.error,
+    ...(data.quotaExceeded === true ? { quotaExceeded: true } : {}),
+    ...(typeof data.retryAfter === 'number' ? { retryAfter: data.retryAfter } : {})
+  }
+}
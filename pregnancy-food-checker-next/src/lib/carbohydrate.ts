@@ -0,0 +1,87 @@
+/**
+ * 妊娠糖尿病の方向けの炭水化物の推定
+ *
+ * 持病に妊娠糖尿病を設定した場合、モデルに食品ごとの炭水化物・糖類の量（1人前のグラム数）を推定してもらい、
+ * 食事全体の合計を1食の目安と比べて知らせる。
+ * 画面とサーバーの両方から使うため、サーバー専用のモジュールはimportしない。
+ */
+
+import { DietaryProfile } from './dietary-profile'
+
+/**
+ * 1食の炭水化物の目安との比較
+ * - low: 目安より少ない（極端に減らすとケトーシスの原因になるため知らせる）
+ * - moderate: 目安の範囲内
+ * - high: 目安より多い
+ */
+export const CARB_BANDS = ['low', 'moderate', 'high'] as const
+
+export type CarbBand = typeof CARB_BANDS[number]
+
+// 1食の炭水化物の目安（1日3食と間食に分ける場合の一般的な範囲）
+export const MEAL_CARB_RANGE_G = { min: 30, max: 60 }
+
+// モデルの推定として受け付ける1食品あたりの上限（これを超える値は誤りとみなす）
+export const MAX_FOOD_CARBS_G = 300
+
+export const CARB_BAND_GUIDANCE: Record<CarbBand, { label: string; message: string }> = {
+  low: {
+    label: '少なめ',
+    message: '炭水化物が少なめです。極端に減らすと体に負担がかかるため、主食を適量とりましょう。'
+  },
+  moderate: {
+    label: '目安の範囲',
+    message: '1食の目安の範囲です。野菜やたんぱく質のおかずから先に食べると、血糖値が上がりにくくなります。'
+  },
+  high: {
+    label: '多め',
+    message: '1食の目安より多めです。主食の量を減らすか、一部を間食に回すことを検討しましょう。'
+  }
+}
+
+/**
+ * 食事全体の炭水化物・糖類の合計（グラム、推定値）
+ */
+export interface MealCarbohydrate {
+  carbs_g: number
+  sugar_g: number
+  band: CarbBand
+}
+
+export const isCarbBand = (value: unknown): value is CarbBand => (CARB_BANDS as readonly unknown[]).includes(value)
+
+/**
+ * 炭水化物の推定を求める設定かどうか（持病に妊娠糖尿病を設定した場合）
+ */
+export function needsCarbEstimate(profile: DietaryProfile | undefined): boolean {
+  return profile?.conditions.includes('gestational_diabetes') ?? false
+}
+
+/**
+ * 推定のグラム数として妥当な値かどうか
+ */
+export function isCarbGrams(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= MAX_FOOD_CARBS_G
+}
+
+// 画面の表示に合わせて小数第1位までにする
+const roundGrams = (grams: number) => Math.round(grams * 10) / 10
+
+export function toCarbBand(carbs: number): CarbBand {
+  if (carbs < MEAL_CARB_RANGE_G.min) return 'low'
+  if (carbs > MEAL_CARB_RANGE_G.max) return 'high'
+  return 'moderate'
+}
+
+/**
+ * 食品ごとの推定を合計する（推定のある食品が無ければ null）
+ */
+export function summarizeCarbohydrates(foods: Array<{ carbs_g?: number; sugar_g?: number }>): MealCarbohydrate | null {
+  const estimated = foods.filter(food => food.carbs_g !== undefined)
+  if (estimated.length === 0) {
+    return null
+  }
+  const carbs = roundGrams(estimated.reduce((total, food) => total + food.carbs_g!, 0))
+  const sugar = roundGrams(estimated.reduce((total, food) => total + (food.sugar_g ?? 0), 0))
+  return { carbs_g: carbs, sugar_g: sugar, band: toCarbBand(carbs) }
+}
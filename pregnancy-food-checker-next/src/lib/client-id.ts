@@ -0,0 +1,203 @@
+/**
+ * レート制限用のクライアント識別（サーバー専用）
+ *
+ * x-forwarded-for の先頭はクライアントが自由に書き換えられるため、
+ * 信頼できるプロキシが付け足した右端から数えて何番目かでIPアドレスを決める。
+ * プロキシが書き換えない方の転送ヘッダーはクライアントが丸ごと偽れるため、設定した1種類のみを読む。
+ * IPアドレスはそのまま保存せず、秘密鍵付きのハッシュ（HMAC-SHA256）にして匿名化する。
+ *
+ * 接続元を特定できないリクエスト（段数0、設定したヘッダーが無い等）は、すべて1つの共有の識別子で数える。
+ * Route Handler からは接続元のソケットを参照できないため、接続ごとの識別子には分けられない。
+ * 共有の識別子を使った場合は設定の誤りとして1回だけ警告する。
+ */
+
+import { createHmac, randomBytes } from 'crypto'
+
+/**
+ * プロキシがクライアントのアドレスを付け足す転送ヘッダー
+ * - x-forwarded-for: nginx・ALB等の多くのプロキシ
+ * - forwarded: RFC 7239 の Forwarded ヘッダーを付けるプロキシ
+ * - x-real-ip: 接続元で上書きした X-Real-IP を付けるプロキシ（値は1つのため段数では数えない）
+ */
+export const TRUSTED_PROXY_HEADERS = ['x-forwarded-for', 'forwarded', 'x-real-ip'] as const
+
+export type TrustedProxyHeader = typeof TRUSTED_PROXY_HEADERS[number]
+
+export interface ClientIdOptions {
+  // アプリの手前にあるプロキシの段数（0なら転送ヘッダーを信頼しない）
+  trustedProxyHops: number
+  // 段数を数える転送ヘッダー（もう一方は読まない）
+  trustedProxyHeader: TrustedProxyHeader
+  // Vercelが付ける x-vercel-forwarded-for を信頼するか（Vercel上でのみ有効にする）
+  trustVercelHeader: boolean
+  // HMACの鍵（複数インスタンスで同じIDにするには共通の値を設定する）
+  secret: string
+}
+
+interface HeaderSource {
+  headers: { get(name: string): string | null }
+}
+
+const UNKNOWN_CLIENT = 'unknown'
+
+// RATE_LIMIT_HASH_SECRET が無い場合の鍵（プロセス内では共通）
+let processSecret: string | null = null
+
+/**
+ * 環境変数からクライアント識別の設定を作る
+ * - RATE_LIMIT_TRUSTED_PROXY_HOPS: プロキシの段数（デフォルト1）
+ * - RATE_LIMIT_TRUSTED_PROXY_HEADER: x-forwarded-for（デフォルト）、forwarded、x-real-ip のいずれか
+ * - RATE_LIMIT_HASH_SECRET: HMACの鍵（未設定ならプロセスごとのランダムな鍵）
+ */
+export function getClientIdOptions(env: Record<string, string | undefined> = process.env): ClientIdOptions {
+  const hops = Number(env.RATE_LIMIT_TRUSTED_PROXY_HOPS)
+  const header = env.RATE_LIMIT_TRUSTED_PROXY_HEADER?.toLowerCase()
+  const isSupported = (TRUSTED_PROXY_HEADERS as readonly string[]).includes(header ?? '')
+  if (header && !isSupported) {
+    console.warn(`未対応の転送ヘッダーです: ${header}（x-forwarded-for を使用します）`)
+  }
+  return {
+    trustedProxyHops: env.RATE_LIMIT_TRUSTED_PROXY_HOPS !== undefined && Number.isInteger(hops) && hops >= 0 ? hops : 1,
+    trustedProxyHeader: isSupported ? header as TrustedProxyHeader : 'x-forwarded-for',
+    trustVercelHeader: env.VERCEL === '1',
+    secret: env.RATE_LIMIT_HASH_SECRET || (processSecret ??= randomBytes(32).toString('hex'))
+  }
+}
+
+/**
+ * RFC 7239 の Forwarded ヘッダーから for= の値を順に取り出す
+ */
+export function parseForwardedHeader(value: string): string[] {
+  return value.split(',').map(element => {
+    const pair = element.split(';').map(part => part.trim()).find(part => part.toLowerCase().startsWith('for='))
+    return pair ? pair.slice(4).replace(/^"|"$/g, '') : ''
+  })
+}
+
+const IPV4_PATTERN = /^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/
+
+function isIPv4(address: string): boolean {
+  const match = address.match(IPV4_PATTERN)
+  return !!match && match.slice(1).every(octet => Number(octet) <= 255)
+}
+
+// IPv6アドレスを8つの16ビット値に展開する（不正な形式なら null）
+function expandIPv6(address: string): number[] | null {
+  let text = address.toLowerCase()
+
+  // 末尾がIPv4表記（::ffff:192.0.2.1 等）の場合は16ビット値2つに変換する
+  const ipv4Tail = text.match(/:(\d{1,3}(?:\.\d{1,3}){3})$/)
+  if (ipv4Tail) {
+    if (!isIPv4(ipv4Tail[1])) return null
+    const [a, b, c, d] = ipv4Tail[1].split('.').map(Number)
+    text = `${text.slice(0, -ipv4Tail[1].length)}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`
+  }
+
+  const halves = text.split('::')
+  if (halves.length > 2) return null
+  const parse = (part: string) => (part ? part.split(':') : [])
+  const head = parse(halves[0])
+  const tail = halves.length === 2 ? parse(halves[1]) : []
+  const missing = 8 - head.length - tail.length
+  if (halves.length === 2 ? missing < 1 : missing !== 0) return null
+
+  const groups = [...head, ...Array(halves.length === 2 ? missing : 0).fill('0'), ...tail]
+  if (!groups.every(group => /^[0-9a-f]{1,4}$/.test(group))) return null
+  return groups.map(group => parseInt(group, 16))
+}
+
+/**
+ * 転送ヘッダーの値を正規化したIPアドレスにする（不正な値なら null）
+ * - ポート番号や [] を取り除く
+ * - IPv4射影アドレスはIPv4として扱う
+ * - IPv6は同じ契約者が使い回せる /64 単位にまとめる
+ */
+export function normalizeClientAddress(value: string): string | null {
+  let address = value.trim()
+
+  const bracketed = address.match(/^\[([^\]]+)\](?::\d+)?$/)
+  if (bracketed) {
+    address = bracketed[1]
+  } else if (/^[\d.]+:\d+$/.test(address)) {
+    address = address.slice(0, address.lastIndexOf(':'))
+  }
+  // ゾーンID（fe80::1%eth0）は識別に使わない
+  address = address.replace(/%.*$/, '')
+
+  if (isIPv4(address)) {
+    return address.split('.').map(Number).join('.')
+  }
+
+  const groups = expandIPv6(address)
+  if (!groups) return null
+
+  // ::ffff:0:0/96（IPv4射影アドレス）
+  if (groups.slice(0, 5).every(group => group === 0) && groups[5] === 0xFFFF) {
+    return [groups[6] >> 8, groups[6] & 0xFF, groups[7] >> 8, groups[7] & 0xFF].join('.')
+  }
+  return `${groups.slice(0, 4).map(group => group.toString(16)).join(':')}::/64`
+}
+
+/**
+ * 信頼できるプロキシの段数をもとに、リクエスト元のIPアドレスを求める
+ */
+export function resolveClientAddress(
+  request: HeaderSource,
+  options: Pick<ClientIdOptions, 'trustedProxyHops' | 'trustedProxyHeader' | 'trustVercelHeader'>
+): string | null {
+  const { headers } = request
+
+  // Vercelは x-vercel-forwarded-for をクライアントから受け取った値で上書きしない
+  if (options.trustVercelHeader) {
+    const vercel = headers.get('x-vercel-forwarded-for')
+    if (vercel) {
+      return normalizeClientAddress(vercel.split(',')[0])
+    }
+  }
+
+  if (options.trustedProxyHops === 0) {
+    return null
+  }
+
+  const value = headers.get(options.trustedProxyHeader)
+  if (options.trustedProxyHeader === 'x-real-ip') {
+    return value ? normalizeClientAddress(value) : null
+  }
+
+  const chain = !value
+    ? []
+    : options.trustedProxyHeader === 'forwarded'
+      ? parseForwardedHeader(value)
+      : value.split(',').map(entry => entry.trim())
+
+  if (chain.length === 0) {
+    return null
+  }
+  // 右端から trustedProxyHops 番目が、最も手前の信頼できるプロキシが接続を受けた相手
+  // 値の数が段数より少ない場合（設定の誤り等）は先頭の値を使う
+  const entry = chain[Math.max(0, chain.length - options.trustedProxyHops)]
+  return normalizeClientAddress(entry)
+}
+
+/**
+ * リクエストから匿名化したクライアントIDを返す関数を作る
+ * 接続元を特定できないリクエストは共有の識別子にまとめ、最初の1回だけ設定の確認を促す警告を出す
+ */
+export function createClientIdentifier(options: ClientIdOptions = getClientIdOptions()): (request: HeaderSource) => string {
+  let hasWarned = false
+
+  return (request) => {
+    let address = resolveClientAddress(request, options)
+    if (address === null) {
+      if (!hasWarned) {
+        hasWarned = true
+        const cause = options.trustedProxyHops === 0
+          ? 'RATE_LIMIT_TRUSTED_PROXY_HOPS=0 のため転送ヘッダーを読まない設定です'
+          : `${options.trustedProxyHeader} から接続元のIPアドレスを読み取れません`
+        console.warn(`${cause}。接続元を特定できないリクエストはすべて同じレート制限を共有します。RATE_LIMIT_TRUSTED_PROXY_HOPS と RATE_LIMIT_TRUSTED_PROXY_HEADER を確認してください`)
+      }
+      address = UNKNOWN_CLIENT
+    }
+    return createHmac('sha256', options.secret).update(address).digest('base64url').slice(0, 32)
+  }
+}
@@ -0,0 +1,136 @@
+/**
+ * 食物アレルギー・持病の設定
+ *
+ * 設定は端末内にのみ保存し、分析のリクエストには決まった識別子だけを送る。
+ * プロンプトには識別子に対応する固定の名称だけを埋め込み、利用者が入力した文字列は含めない。
+ * 画面とサーバーの両方から使うため、サーバー専用のモジュールはimportしない。
+ */
+
+import { normalizeFoodName } from './food-knowledge'
+
+/**
+ * 食品表示法でアレルギー表示が義務付けられている特定原材料
+ */
+export const ALLERGENS = ['egg', 'milk', 'wheat', 'buckwheat', 'peanut', 'shrimp', 'crab', 'walnut'] as const
+
+export type Allergen = typeof ALLERGENS[number]
+
+export const ALLERGEN_LABELS: Record<Allergen, string> = {
+  egg: '卵',
+  milk: '乳',
+  wheat: '小麦',
+  buckwheat: 'そば',
+  peanut: '落花生（ピーナッツ）',
+  shrimp: 'えび',
+  crab: 'かに',
+  walnut: 'くるみ'
+}
+
+export const DIETARY_CONDITIONS = ['gestational_diabetes'] as const
+
+export type DietaryCondition = typeof DIETARY_CONDITIONS[number]
+
+export const DIETARY_CONDITION_LABELS: Record<DietaryCondition, string> = {
+  gestational_diabetes: '妊娠糖尿病'
+}
+
+export interface DietaryProfile {
+  allergens: Allergen[]
+  conditions: DietaryCondition[]
+}
+
+export const EMPTY_DIETARY_PROFILE: DietaryProfile = { allergens: [], conditions: [] }
+
+// 食品名から分かるアレルゲン（料理に含まれるものはモデルの回答で補う）
+const ALLERGEN_TERMS: Record<Allergen, { aliases: string[]; excludes?: string[] }> = {
+  egg: {
+    aliases: ['卵', 'たまご', '玉子', 'エッグ', 'オムレツ', 'オムライス', 'マヨネーズ', '茶碗蒸し', '親子丼', 'カルボナーラ'],
+    excludes: ['魚卵']
+  },
+  milk: { aliases: ['牛乳', 'ミルク', 'チーズ', 'バター', 'ヨーグルト', 'クリーム', 'グラタン', 'カフェラテ', 'カフェオレ'] },
+  wheat: { aliases: ['小麦', '食パン', 'パン粉', 'うどん', 'ラーメン', 'パスタ', 'スパゲッティ', '天ぷら', 'フライ', '餃子', 'ピザ', 'お好み焼き', 'たこ焼き'] },
+  buckwheat: { aliases: ['そば', '蕎麦', 'ガレット'], excludes: ['焼きそば', '焼そば', 'そばめし'] },
+  peanut: { aliases: ['落花生', 'ピーナッツ', 'ピーナツ'] },
+  shrimp: { aliases: ['えび', '海老', 'シュリンプ'] },
+  crab: { aliases: ['かに', '蟹'] },
+  walnut: { aliases: ['くるみ', '胡桃', 'ウォールナット'] }
+}
+
+export const isAllergen = (value: unknown): value is Allergen => (ALLERGENS as readonly unknown[]).includes(value)
+
+const isDietaryCondition = (value: unknown): value is DietaryCondition => (DIETARY_CONDITIONS as readonly unknown[]).includes(value)
+
+export function isEmptyDietaryProfile(profile: DietaryProfile): boolean {
+  return profile.allergens.length === 0 && profile.conditions.length === 0
+}
+
+/**
+ * リクエストや保存内容の設定を検証する（重複は取り除き、定義順に並べる）
+ */
+export function parseDietaryProfile(value: unknown): { isValid: boolean; profile?: DietaryProfile; error?: string } {
+  const invalid = { isValid: false, error: 'アレルギー・持病の設定が不正です' }
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return invalid
+  }
+  const { allergens, conditions } = value as Record<string, unknown>
+  if (!Array.isArray(allergens) || !allergens.every(isAllergen) || !Array.isArray(conditions) || !conditions.every(isDietaryCondition)) {
+    return invalid
+  }
+  return {
+    isValid: true,
+    profile: {
+      allergens: ALLERGENS.filter(allergen => allergens.includes(allergen)),
+      conditions: DIETARY_CONDITIONS.filter(condition => conditions.includes(condition))
+    }
+  }
+}
+
+/**
+ * 食品名に含まれる、指定したアレルゲンを返す
+ */
+export function findAllergensInName(name: string, allergens: Allergen[]): Allergen[] {
+  const normalized = normalizeFoodName(name)
+  const includes = (term: string) => normalized.includes(normalizeFoodName(term))
+  return allergens.filter(allergen => {
+    const { aliases, excludes = [] } = ALLERGEN_TERMS[allergen]
+    return aliases.some(includes) && !excludes.some(includes)
+  })
+}
+
+/**
+ * 同じ画像・テキストでも結果が変わる条件として、キャッシュのキーに含める文字列
+ */
+export function describeDietaryProfile(profile: DietaryProfile | undefined): string {
+  if (!profile || isEmptyDietaryProfile(profile)) {
+    return 'none'
+  }
+  return [...profile.allergens, ...profile.conditions].join(',')
+}
+
+// ---- 端末内での保存（クライアント専用） ----
+
+const STORAGE_KEY = 'dietaryProfile'
+
+export function loadDietaryProfile(): DietaryProfile {
+  if (typeof window === 'undefined') return EMPTY_DIETARY_PROFILE
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY)
+    if (!raw) return EMPTY_DIETARY_PROFILE
+    return parseDietaryProfile(JSON.parse(raw)).profile ?? EMPTY_DIETARY_PROFILE
+  } catch {
+    return EMPTY_DIETARY_PROFILE
+  }
+}
+
+export function saveDietaryProfile(profile: DietaryProfile): void {
+  if (typeof window === 'undefined') return
+  try {
+    if (isEmptyDietaryProfile(profile)) {
+      window.localStorage.removeItem(STORAGE_KEY)
+    } else {
+      window.localStorage.setItem(STORAGE_KEY, JSON.stringify(profile))
+    }
+  } catch {
+    // プライベートモード等で保存できない場合は何もしない
+  }
+}
@@ -0,0 +1,268 @@
+/**
+ * 妊娠中の食品リスクに関する知識ベース
+ *
+ * モデルの判定は毎回ぶれる可能性があるため、よく知られた食品については
+ * この知識ベースの判定を優先する。内容を変更した場合は FOOD_KNOWLEDGE_VERSION を更新すること。
+ */
+
+import { RiskLevel, worstRiskLevel } from './risk-level'
+import { Trimester } from './pregnancy'
+
+export const FOOD_KNOWLEDGE_VERSION = '2025.4'
+
+export type FoodRiskCategory =
+  | 'listeria'
+  | 'parasite'
+  | 'toxoplasma'
+  | 'salmonella'
+  | 'mercury'
+  | 'vitamin_a'
+  | 'arsenic'
+  | 'alcohol'
+  | 'caffeine'
+  | 'none'
+
+export interface FoodKnowledgeEntry {
+  id: string
+  category: FoodRiskCategory
+  level: RiskLevel
+  aliases: string[] // 食品名に含まれていれば一致とみなす表記
+  excludes?: string[] // 一致した料理（「と」や読点で区切った範囲）に含まれていれば一致から除外する表記（加熱済みなど）
+  ignores?: string[] // 一致した表記を含むが別の食品を表す表記（「サメ」に対する「はるさめ」など）
+  reason: string
+  trimesterNotes?: Partial<Record<Trimester, string>> // 妊娠時期ごとの追加の注意
+  source: string
+}
+
+const MHLW_MAMA = '厚生労働省「これからママになるあなたへ 食べ物について知っておいてほしいこと」'
+const MHLW_MERCURY = '厚生労働省「妊婦への魚介類の摂食と水銀に関する注意事項」'
+
+const COOKED_MARKERS = ['焼', '煮', '揚', '蒸', 'フライ', '加熱', '天ぷら', 'ムニエル', '缶']
+
+export const FOOD_KNOWLEDGE: FoodKnowledgeEntry[] = [
+  {
+    id: 'raw-fish',
+    category: 'parasite',
+    level: 'caution',
+    aliases: ['刺身', '刺し身', 'お造り', '寿司', 'すし', '鮨', '生魚', '海鮮丼', 'カルパッチョ', '生牡蠣', '生ガキ', '鉄火', 'ネギトロ'],
+    excludes: COOKED_MARKERS,
+    // 生の魚介類を使わない寿司
+    ignores: ['いなり寿司', '稲荷寿司', 'いなりずし', '巻き寿司', '巻寿司', 'たまご寿司', '玉子寿司'],
+    reason: '加熱していない魚介類は、リステリア菌や寄生虫（アニサキス等）による食中毒の原因になることがあります。',
+    source: MHLW_MAMA
+  },
+  {
+    id: 'raw-meat',
+    category: 'toxoplasma',
+    level: 'avoid',
+    aliases: ['生肉', 'ユッケ', 'レアステーキ', 'ローストビーフ', '馬刺し', '鶏刺し', '生レバー', 'タルタルステーキ'],
+    reason: '十分に加熱されていない肉は、トキソプラズマや食中毒菌に感染するおそれがあります。',
+    source: MHLW_MAMA
+  },
+  {
+    id: 'listeria-processed',
+    category: 'listeria',
+    level: 'avoid',
+    aliases: ['生ハム', 'スモークサーモン', 'パテ', 'サラミ', 'テリーヌ'],
+    excludes: ['加熱', 'パティ'],
+    reason: '加熱せずに食べる食肉加工品や燻製の魚介類は、リステリア菌に感染するおそれがあります。',
+    source: MHLW_MAMA
+  },
+  {
+    id: 'natural-cheese',
+    category: 'listeria',
+    level: 'avoid',
+    aliases: ['ナチュラルチーズ', 'カマンベール', 'ブリー', 'ゴルゴンゾーラ', 'ロックフォール', 'ブルーチーズ', 'フェタ'],
+    excludes: ['加熱', '焼', 'プロセス', 'グラタン', 'ピザ'],
+    reason: '加熱殺菌していないナチュラルチーズは、リステリア菌に感染するおそれがあります。',
+    source: MHLW_MAMA
+  },
+  {
+    id: 'unpasteurized-milk',
+    category: 'listeria',
+    level: 'avoid',
+    aliases: ['生乳', '無殺菌乳', '非加熱牛乳', 'ローミルク'],
+    reason: '殺菌されていない乳製品は、リステリア菌に感染するおそれがあります。',
+    source: MHLW_MAMA
+  },
+  {
+    id: 'raw-egg',
+    category: 'salmonella',
+    level: 'caution',
+    aliases: ['生卵', '卵かけご飯', '卵かけごはん', 'たまごかけご飯', 'すき焼きの卵'],
+    reason: '生卵はサルモネラ菌による食中毒の原因になることがあります。十分に加熱して食べましょう。',
+    source: MHLW_MAMA
+  },
+  {
+    id: 'mercury-fish',
+    category: 'mercury',
+    level: 'limit',
+    aliases: ['マグロ', '鮪', 'クロマグロ', '本マグロ', 'メバチ', 'ミナミマグロ', 'キンメダイ', '金目鯛', 'メカジキ', 'カジキ', 'サメ'],
+    ignores: ['はるさめ'],
+    reason: '水銀を比較的多く含むため、妊娠中は食べる量と頻度に注意が必要です。',
+    source: MHLW_MERCURY
+  },
+  {
+    id: 'low-mercury-tuna',
+    category: 'none',
+    level: 'safe',
+    aliases: ['ツナ', 'キハダマグロ', 'キハダ', 'ビンナガマグロ', 'ビンナガ'],
+    reason: 'キハダ・ビンナガ・ツナ缶は水銀の含有量が少なく、通常の食事で特に注意する必要はありません。',
+    source: MHLW_MERCURY
+  },
+  {
+    id: 'liver',
+    category: 'vitamin_a',
+    level: 'limit',
+    aliases: ['レバー', 'レバニラ', 'フォアグラ', 'あん肝', 'うなぎ', '鰻', 'ウナギ'],
+    reason: 'ビタミンAを多く含み、妊娠初期に過剰摂取すると胎児への影響が心配されます。食べる量に注意しましょう。',
+    trimesterNotes: {
+      1: '現在は妊娠初期のため、特にビタミンAのとりすぎに気をつけましょう。'
+    },
+    source: MHLW_MAMA
+  },
+  {
+    id: 'hijiki',
+    category: 'arsenic',
+    level: 'limit',
+    aliases: ['ひじき', '鹿尾菜'],
+    reason: '無機ヒ素を含むため、毎日大量に食べ続けることは避け、バランスよく食べましょう。',
+    source: '農林水産省「ひじきに含まれるヒ素について」'
+  },
+  {
+    id: 'alcohol',
+    category: 'alcohol',
+    level: 'avoid',
+    aliases: ['アルコール', 'お酒', 'ビール', 'ワイン', '日本酒', '焼酎', 'チューハイ', '酎ハイ', 'ハイボール', 'カクテル', '梅酒', 'ウイスキー', '紹興酒'],
+    excludes: ['ノンアルコール', 'ノンアル', 'ビネガー'],
+    reason: '妊娠中の飲酒は胎児性アルコール・スペクトラム障害の原因になるため、控えましょう。',
+    source: MHLW_MAMA
+  },
+  {
+    id: 'caffeine',
+    category: 'caffeine',
+    level: 'limit',
+    aliases: ['コーヒー', 'エスプレッソ', 'カフェラテ', 'カフェオレ', 'エナジードリンク', '玉露'],
+    excludes: ['デカフェ', 'カフェインレス', 'ノンカフェイン'],
+    reason: 'カフェインのとりすぎは胎児の発育に影響するおそれがあります。1日の摂取量に注意しましょう。',
+    source: '食品安全委員会「食品中のカフェイン」'
+  }
+]
+
+/**
+ * 表記ゆれを吸収するための正規化（全角半角・ひらがなカタカナ・空白）
+ */
+export function normalizeFoodName(name: string): string {
+  return name
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/\s+/g, '')
+    .replace(/[ぁ-ゖ]/g, ch => String.fromCharCode(ch.charCodeAt(0) + 0x60))
+}
+
+interface KnowledgeMatch {
+  entry: FoodKnowledgeEntry
+  start: number
+  end: number
+}
+
+// 1つの食品名に複数の料理が並ぶ場合の区切り（「刺身と焼き魚定食」の「と」は漢字・カタカナに挟まれた場合のみ）
+const DISH_SEPARATOR = /[、,・/&+]|(?<=[\p{Script=Han}\p{Script=Katakana}ー])と(?=[\p{Script=Han}\p{Script=Katakana}])/u
+
+// text の中で term が現れる範囲をすべて返す
+function findOccurrences(text: string, term: string): Array<{ start: number; end: number }> {
+  const occurrences: Array<{ start: number; end: number }> = []
+  for (let start = text.indexOf(term); start !== -1; start = text.indexOf(term, start + 1)) {
+    occurrences.push({ start, end: start + term.length })
+  }
+  return occurrences
+}
+
+// 1つの料理（正規化済み）に一致する項目を、除外・別の食品の表記を除いて返す
+function matchDish(dish: string): KnowledgeMatch[] {
+  const matches: KnowledgeMatch[] = []
+
+  for (const entry of FOOD_KNOWLEDGE) {
+    if (entry.excludes?.some(exclude => dish.includes(normalizeFoodName(exclude)))) {
+      continue
+    }
+    const ignored = (entry.ignores ?? []).flatMap(ignore => findOccurrences(dish, normalizeFoodName(ignore)))
+    for (const alias of entry.aliases) {
+      for (const match of findOccurrences(dish, normalizeFoodName(alias))) {
+        if (!ignored.some(ignore => ignore.start <= match.start && ignore.end >= match.end)) {
+          matches.push({ entry, ...match })
+        }
+      }
+    }
+  }
+  return matches
+}
+
+/**
+ * 食品名に一致する知識ベースの項目を返す
+ * 「と」や読点で区切った料理ごとに照合し、加熱済みなどの除外はその料理の中だけで判断する
+ * 重なり合う一致はより長い表記を優先する（例: 「キハダマグロ」は「マグロ」より優先）
+ */
+export function findFoodKnowledge(name: string): FoodKnowledgeEntry[] {
+  const matches = name
+    .normalize('NFKC')
+    .split(DISH_SEPARATOR)
+    .map(dish => matchDish(normalizeFoodName(dish)))
+    .flatMap((dishMatches, dish) => dishMatches.map(match => ({ ...match, dish })))
+
+  const isShadowed = (match: KnowledgeMatch & { dish: number }) => matches.some(other =>
+    other !== match &&
+    other.dish === match.dish &&
+    other.end - other.start > match.end - match.start &&
+    other.start <= match.start &&
+    other.end >= match.end
+  )
+
+  const entries: FoodKnowledgeEntry[] = []
+  for (const match of matches) {
+    if (!isShadowed(match) && !entries.includes(match.entry)) {
+      entries.push(match.entry)
+    }
+  }
+  return entries
+}
+
+export interface ReconciledFood {
+  name: string
+  level: RiskLevel
+  risk: boolean
+  details: string
+  source?: string
+  corrected?: boolean // モデルの判定を知識ベースで上書きした場合 true
+}
+
+/**
+ * モデルの判定結果を知識ベースと照合し、既知の食品は知識ベースの判定で統一する
+ * trimester を指定すると、その時期に特有の注意を説明に加える
+ */
+export function reconcileFoods<T extends { name: string; level: RiskLevel; risk: boolean; details: string }>(
+  foods: T[],
+  options: { trimester?: Trimester } = {}
+): Array<T & ReconciledFood> {
+  const { trimester } = options
+
+  return foods.map(food => {
+    const entries = findFoodKnowledge(food.name)
+    if (entries.length === 0) {
+      return { ...food }
+    }
+
+    const level = worstRiskLevel(entries.map(entry => entry.level))
+    return {
+      ...food,
+      level,
+      risk: level !== 'safe',
+      details: entries
+        .flatMap(entry => [entry.reason, trimester ? entry.trimesterNotes?.[trimester] : undefined])
+        .filter((text): text is string => !!text)
+        .join(' '),
+      source: Array.from(new Set(entries.map(entry => entry.source))).join('、'),
+      corrected: level !== food.level
+    }
+  })
+}
@@ -0,0 +1,82 @@
+/**
+ * 画像の知覚ハッシュ（サーバー専用）
+ *
+ * 同じ写真の再送信（二度押し、エラー後の再試行）を見分けるため、
+ * 再圧縮や縮小で変わらない dHash（64ビット）を計算する。
+ * sharp（Next.jsの画像最適化と同じライブラリ、dependencies に含める）のネイティブモジュールを読み込めない環境や、
+ * デコードできない形式（HEIC等）では、内容が完全に一致する場合だけ同じになる SHA-256 で代用する。
+ */
+
+import { createHash } from 'crypto'
+
+// dHashは「dhash:16桁の16進数」、代用のハッシュは「sha256:64桁の16進数」
+export type ImageHash = string
+
+const HASH_WIDTH = 9
+const HASH_HEIGHT = 8
+
+// デコードする画像の最大ピクセル数（image-validation.ts の上限と同じ）
+const MAX_INPUT_PIXELS = 50_000_000
+
+/**
+ * 9x8 のグレースケール画素から、横に隣り合う画素の明暗を並べた64ビットを16進数で返す
+ */
+export function differenceHash(pixels: Uint8Array, channels = 1): string {
+  let hash = ''
+  for (let y = 0; y < HASH_HEIGHT; y++) {
+    let nibble = 0
+    for (let x = 0; x < HASH_WIDTH - 1; x++) {
+      const left = pixels[(y * HASH_WIDTH + x) * channels]
+      const right = pixels[(y * HASH_WIDTH + x + 1) * channels]
+      nibble = (nibble << 1) | (left > right ? 1 : 0)
+      if (x % 4 === 3) {
+        hash += nibble.toString(16)
+        nibble = 0
+      }
+    }
+  }
+  return hash
+}
+
+/**
+ * 2つのハッシュの違い（ビット数）を返す
+ * SHA-256 や種類の異なるハッシュは、一致すれば0、しなければ Infinity
+ */
+export function hashDistance(a: ImageHash, b: ImageHash): number {
+  if (!a.startsWith('dhash:') || !b.startsWith('dhash:')) {
+    return a === b ? 0 : Infinity
+  }
+
+  let distance = 0
+  const hexA = a.slice(6)
+  const hexB = b.slice(6)
+  for (let i = 0; i < hexA.length; i++) {
+    let diff = parseInt(hexA[i], 16) ^ parseInt(hexB[i], 16)
+    while (diff) {
+      distance += diff & 1
+      diff >>= 1
+    }
+  }
+  return distance
+}
+
+/**
+ * data URL の画像からハッシュを計算する
+ */
+export async function computeImageHash(dataUrl: string): Promise<ImageHash> {
+  const bytes = Buffer.from(dataUrl.slice(dataUrl.indexOf(',') + 1), 'base64')
+
+  try {
+    const { default: sharp } = await import('sharp')
+    const { data, info } = await sharp(bytes, { limitInputPixels: MAX_INPUT_PIXELS })
+      .rotate() // EXIFの向きを反映する
+      .flatten({ background: '#ffffff' })
+      .greyscale()
+      .resize(HASH_WIDTH, HASH_HEIGHT, { fit: 'fill' })
+      .raw()
+      .toBuffer({ resolveWithObject: true })
+    return `dhash:${differenceHash(data, info.channels)}`
+  } catch {
+    return `sha256:${createHash('sha256').update(bytes).digest('hex')}`
+  }
+}
@@ -0,0 +1,220 @@
+/**
+ * アップロード前の画像処理（クライアント専用）
+ *
+ * スマホの写真は数MBあり、位置情報（GPS）などのEXIFも含まれるため、
+ * 送信前に縮小してJPEG/WebPで再エンコードする。再エンコードした画像にはメタデータは残らない。
+ * iPhoneのHEIC画像も、デコードできるブラウザ（Safari）ではここでJPEGに変換される。
+ */
+
+import { detectImageType } from './image-validation'
+
+export type OutputImageType = 'image/jpeg' | 'image/webp'
+
+export interface ImageProcessingOptions {
+  maxDimension: number // 長辺の最大ピクセル数
+  mimeType: OutputImageType
+  quality: number // 0〜1
+  onProgress?: (progress: number) => void // 0〜1
+}
+
+export const DEFAULT_IMAGE_PROCESSING_OPTIONS: Omit<ImageProcessingOptions, 'onProgress'> = {
+  maxDimension: Number(process.env.NEXT_PUBLIC_IMAGE_MAX_DIMENSION) || 1600,
+  mimeType: process.env.NEXT_PUBLIC_IMAGE_FORMAT === 'webp' ? 'image/webp' : 'image/jpeg',
+  quality: Number(process.env.NEXT_PUBLIC_IMAGE_QUALITY) || 0.8
+}
+
+/**
+ * 画像処理の失敗を表すエラー
+ */
+export class ImageProcessingError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ImageProcessingError'
+  }
+}
+
+/**
+ * 縦横比を保ったまま長辺が maxDimension 以下になるサイズを返す（拡大はしない）
+ */
+export function calculateTargetSize(width: number, height: number, maxDimension: number): { width: number; height: number } {
+  const scale = Math.min(1, maxDimension / Math.max(width, height))
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale))
+  }
+}
+
+/**
+ * JPEGからEXIF（APP1）などのアプリケーションセグメントとコメントを取り除く
+ * JPEG以外のデータはそのまま返す
+ */
+export function stripJpegMetadata(bytes: Uint8Array): Uint8Array {
+  if (bytes.length < 4 || bytes[0] !== 0xFF || bytes[1] !== 0xD8) {
+    return bytes
+  }
+
+  const chunks: Uint8Array[] = [bytes.subarray(0, 2)]
+  let pos = 2
+
+  while (pos < bytes.length) {
+    if (bytes[pos] !== 0xFF) {
+      throw new ImageProcessingError('JPEGの構造が不正です')
+    }
+    const marker = bytes[pos + 1]
+
+    // 埋め草のFFは読み飛ばす
+    if (marker === 0xFF) {
+      pos++
+      continue
+    }
+
+    // SOS以降は画像データなのでそのまま残す
+    if (marker === 0xDA) {
+      chunks.push(bytes.subarray(pos))
+      break
+    }
+
+    if (pos + 4 > bytes.length) {
+      throw new ImageProcessingError('JPEGの構造が不正です')
+    }
+    const segmentEnd = pos + 2 + ((bytes[pos + 2] << 8) | bytes[pos + 3])
+    if (segmentEnd > bytes.length) {
+      throw new ImageProcessingError('JPEGの構造が不正です')
+    }
+
+    // APP1〜APP15（EXIF, XMP等）とCOMを除去し、APP0（JFIF）や量子化テーブル等は残す
+    const isMetadata = (marker >= 0xE1 && marker <= 0xEF) || marker === 0xFE
+    if (!isMetadata) {
+      chunks.push(bytes.subarray(pos, segmentEnd))
+    }
+    pos = segmentEnd
+  }
+
+  const result = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0))
+  let offset = 0
+  for (const chunk of chunks) {
+    result.set(chunk, offset)
+    offset += chunk.length
+  }
+  return result
+}
+
+function readAsDataURL(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = (e) => resolve(e.target?.result as string)
+    reader.onerror = () => reject(new ImageProcessingError('画像を読み込めませんでした'))
+    reader.readAsDataURL(blob)
+  })
+}
+
+function canvasToBlob(canvas: HTMLCanvasElement, mimeType: string, quality: number): Promise<Blob | null> {
+  return new Promise(resolve => canvas.toBlob(resolve, mimeType, quality))
+}
+
+function canResizeImages(): boolean {
+  return typeof window !== 'undefined' && typeof window.createImageBitmap === 'function'
+}
+
+/**
+ * canvasで縮小・再エンコードする（EXIFの回転情報は反映してから描画する）
+ */
+async function resizeImage(file: Blob, options: ImageProcessingOptions): Promise<string> {
+  const bitmap = await window.createImageBitmap(file, { imageOrientation: 'from-image' })
+  options.onProgress?.(0.4)
+
+  const { width, height } = calculateTargetSize(bitmap.width, bitmap.height, options.maxDimension)
+  const canvas = document.createElement('canvas')
+  canvas.width = width
+  canvas.height = height
+  const context = canvas.getContext('2d')
+  if (!context) {
+    bitmap.close()
+    throw new ImageProcessingError('画像を処理できませんでした')
+  }
+  context.drawImage(bitmap, 0, 0, width, height)
+  bitmap.close()
+
+  let blob = await canvasToBlob(canvas, options.mimeType, options.quality)
+  // WebP非対応のブラウザではPNGになってしまうため、JPEGで作り直す
+  if (blob && blob.type !== options.mimeType) {
+    blob = await canvasToBlob(canvas, 'image/jpeg', options.quality)
+  }
+  if (!blob) {
+    throw new ImageProcessingError('画像を処理できませんでした')
+  }
+  options.onProgress?.(0.8)
+
+  return readAsDataURL(blob)
+}
+
+/**
+ * 縮小できない環境向け: 元の画像のままEXIFだけを取り除く
+ */
+async function stripMetadataOnly(file: Blob): Promise<string> {
+  const dataUrl = await readAsDataURL(file)
+  const [, base64Data = ''] = dataUrl.split(',')
+
+  // HEICはブラウザによってMIMEタイプが空になるため、先頭のバイトから判別し直す
+  const head = Uint8Array.from(atob(base64Data.slice(0, 32)), char => char.charCodeAt(0))
+  const mimeType = detectImageType(head) ?? dataUrl.match(/^data:([^;,]+)/)?.[1] ?? 'application/octet-stream'
+  const header = `data:${mimeType};base64`
+  if (mimeType !== 'image/jpeg' || !base64Data) {
+    return `${header},${base64Data}`
+  }
+
+  const binary = atob(base64Data)
+  const bytes = Uint8Array.from(binary, char => char.charCodeAt(0))
+  const stripped = stripJpegMetadata(bytes)
+
+  let result = ''
+  for (let i = 0; i < stripped.length; i += 0x8000) {
+    result += String.fromCharCode(...stripped.subarray(i, i + 0x8000))
+  }
+  return `${header},${btoa(result)}`
+}
+
+/**
+ * アップロード用に画像を縮小・再エンコードし、data URLで返す
+ */
+export async function prepareImageForUpload(
+  file: Blob,
+  options: Partial<ImageProcessingOptions> = {}
+): Promise<string> {
+  const resolvedOptions: ImageProcessingOptions = { ...DEFAULT_IMAGE_PROCESSING_OPTIONS, ...options }
+  resolvedOptions.onProgress?.(0)
+
+  let dataUrl: string | null = null
+  if (canResizeImages()) {
+    try {
+      dataUrl = await resizeImage(file, resolvedOptions)
+    } catch (error) {
+      // ブラウザがデコードできない形式などは、縮小せずに送る
+      console.warn('画像の縮小に失敗しました:', error)
+    }
+  }
+
+  if (dataUrl === null) {
+    dataUrl = await stripMetadataOnly(file)
+  }
+
+  resolvedOptions.onProgress?.(1)
+  return dataUrl
+}
+
+/**
+ * 履歴に残すサムネイルを作る（縮小できない環境や、デコードできない形式では null）
+ */
+export async function createThumbnail(dataUrl: string, maxDimension = 160): Promise<string | null> {
+  if (!canResizeImages()) {
+    return null
+  }
+
+  try {
+    const blob = await (await fetch(dataUrl)).blob()
+    return await resizeImage(blob, { maxDimension, mimeType: 'image/jpeg', quality: 0.6 })
+  } catch (error) {
+    console.warn('サムネイルを作成できませんでした:', error)
+    return null
+  }
+}
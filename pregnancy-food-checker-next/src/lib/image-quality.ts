@@ -0,0 +1,87 @@
+/**
+ * 写真の品質（ぼやけ・暗さ）の簡易判定（サーバー専用）
+ *
+ * モデルは判別しにくい写真にも断定的に答えてしまうため、
+ * 縮小したグレースケール画像の明るさとエッジの強さから、撮り直しを勧めるべき写真を見分ける。
+ * sharp（dependencies に含める）のネイティブモジュールを読み込めない環境や、デコードできない形式（HEIC等）では
+ * 判定しない（問題なしとして扱う）。
+ */
+
+export type ImageQualityIssue = 'blurry' | 'dark'
+
+// 判定に使う画像の長辺（撮影した解像度によらず同じ基準で比べるため）
+const ANALYSIS_SIZE = 256
+
+// 平均輝度（0〜255）がこれ未満なら暗い
+const DARK_BRIGHTNESS_THRESHOLD = 40
+
+// ラプラシアンの分散がこれ未満ならぼやけている
+const BLUR_VARIANCE_THRESHOLD = 50
+
+// デコードする画像の最大ピクセル数（image-validation.ts の上限と同じ）
+const MAX_INPUT_PIXELS = 50_000_000
+
+/**
+ * グレースケールの画素から平均輝度と、ラプラシアン（4近傍）の分散を求める
+ */
+export function measureImageQuality(pixels: Uint8Array, width: number, height: number): { brightness: number; sharpness: number } {
+  let total = 0
+  for (let i = 0; i < width * height; i++) {
+    total += pixels[i]
+  }
+
+  let sum = 0
+  let sumOfSquares = 0
+  let count = 0
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x
+      const laplacian = pixels[i - width] + pixels[i + width] + pixels[i - 1] + pixels[i + 1] - 4 * pixels[i]
+      sum += laplacian
+      sumOfSquares += laplacian * laplacian
+      count++
+    }
+  }
+
+  const mean = count > 0 ? sum / count : 0
+  return {
+    brightness: width * height > 0 ? total / (width * height) : 0,
+    sharpness: count > 0 ? sumOfSquares / count - mean * mean : 0
+  }
+}
+
+/**
+ * 明るさとエッジの強さから、撮り直しを勧める理由を返す
+ */
+export function findImageQualityIssues(quality: { brightness: number; sharpness: number }): ImageQualityIssue[] {
+  const issues: ImageQualityIssue[] = []
+  if (quality.sharpness < BLUR_VARIANCE_THRESHOLD) {
+    issues.push('blurry')
+  }
+  if (quality.brightness < DARK_BRIGHTNESS_THRESHOLD) {
+    issues.push('dark')
+  }
+  return issues
+}
+
+/**
+ * data URL の画像の品質を判定する
+ */
+export async function assessImageQuality(dataUrl: string): Promise<ImageQualityIssue[]> {
+  const bytes = Buffer.from(dataUrl.slice(dataUrl.indexOf(',') + 1), 'base64')
+
+  try {
+    const { default: sharp } = await import('sharp')
+    const { data, info } = await sharp(bytes, { limitInputPixels: MAX_INPUT_PIXELS })
+      .rotate() // EXIFの向きを反映する
+      .flatten({ background: '#ffffff' })
+      .greyscale()
+      .resize(ANALYSIS_SIZE, ANALYSIS_SIZE, { fit: 'inside', withoutEnlargement: true })
+      .extractChannel(0)
+      .raw()
+      .toBuffer({ resolveWithObject: true })
+    return findImageQualityIssues(measureImageQuality(data, info.width, info.height))
+  } catch {
+    return []
+  }
+}
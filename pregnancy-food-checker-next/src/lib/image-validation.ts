@@ -0,0 +1,274 @@
+/**
+ * 画像データの実体検証
+ *
+ * data URLのヘッダー（申告されたMIMEタイプ）は信用せず、先頭のマジックバイトから形式を判別し、
+ * ファイル構造を最後までたどって途中で途切れたデータや、末尾に別のデータを連結した
+ * ポリグロットファイルを拒否する。
+ * ただしJPEGは、スマートフォンがEOIの後ろにMPF（マルチピクチャー）の画像やモーションフォトの動画を付け足すため、
+ * 拒否せずにEOIまでを画像として扱う（後ろのデータはモデルに渡さない）。
+ */
+
+export type DetectedImageType = 'image/jpeg' | 'image/png' | 'image/webp' | 'image/heic' | 'image/heif'
+
+export interface DetectedImage {
+  mimeType: DetectedImageType
+  width: number
+  height: number
+}
+
+export const MAX_IMAGE_DIMENSION = 16384
+const MAX_IMAGE_PIXELS = 50_000_000 // 展開後のメモリを消費させる画像を防ぐ
+
+// length は画像として扱うデータの長さ（JPEGの後ろに付け足されたデータを除く）
+type InspectionResult = { isValid: boolean; image?: DetectedImage; length?: number; error?: string }
+
+// 構造を解析した結果（end は画像として有効なデータの終端）
+type ParsedImage = { end: number; width: number; height: number } | { error: string }
+
+const TRUNCATED = { error: '画像データが途中で途切れています' }
+const CORRUPTED = { error: '画像データが破損しています' }
+
+const HEIC_BRANDS = ['heic', 'heix', 'heim', 'heis', 'hevc', 'hevx', 'hevm', 'hevs']
+const HEIF_BRANDS = ['mif1', 'msf1']
+
+function readUint16BE(bytes: Uint8Array, pos: number): number {
+  return (bytes[pos] << 8) | bytes[pos + 1]
+}
+
+function readUint32BE(bytes: Uint8Array, pos: number): number {
+  return ((bytes[pos] << 24) | (bytes[pos + 1] << 16) | (bytes[pos + 2] << 8) | bytes[pos + 3]) >>> 0
+}
+
+function readUint32LE(bytes: Uint8Array, pos: number): number {
+  return (bytes[pos] | (bytes[pos + 1] << 8) | (bytes[pos + 2] << 16) | (bytes[pos + 3] << 24)) >>> 0
+}
+
+function readAscii(bytes: Uint8Array, pos: number, length: number): string {
+  return String.fromCharCode(...bytes.subarray(pos, pos + length))
+}
+
+function startsWith(bytes: Uint8Array, signature: number[], offset = 0): boolean {
+  return signature.every((byte, i) => bytes[offset + i] === byte)
+}
+
+/**
+ * マジックバイトから画像形式を判別する
+ */
+export function detectImageType(bytes: Uint8Array): DetectedImageType | null {
+  if (startsWith(bytes, [0xFF, 0xD8, 0xFF])) return 'image/jpeg'
+  if (startsWith(bytes, [0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A])) return 'image/png'
+  if (bytes.length >= 12 && readAscii(bytes, 0, 4) === 'RIFF' && readAscii(bytes, 8, 4) === 'WEBP') return 'image/webp'
+  if (bytes.length >= 12 && readAscii(bytes, 4, 4) === 'ftyp') {
+    const brand = readAscii(bytes, 8, 4)
+    if (HEIC_BRANDS.includes(brand)) return 'image/heic'
+    if (HEIF_BRANDS.includes(brand)) return 'image/heif'
+  }
+  return null
+}
+
+function parseJpeg(bytes: Uint8Array): ParsedImage {
+  let width = 0
+  let height = 0
+  let pos = 2
+
+  while (pos + 1 < bytes.length) {
+    if (bytes[pos] !== 0xFF) return CORRUPTED
+    const marker = bytes[pos + 1]
+
+    if (marker === 0xFF) {
+      pos++
+      continue
+    }
+    if (marker === 0xD9) {
+      return width && height ? { end: pos + 2, width, height } : CORRUPTED
+    }
+    // RSTn などの長さを持たないマーカー
+    if ((marker >= 0xD0 && marker <= 0xD7) || marker === 0x01) {
+      pos += 2
+      continue
+    }
+
+    if (pos + 4 > bytes.length) return TRUNCATED
+    const segmentEnd = pos + 2 + readUint16BE(bytes, pos + 2)
+    if (segmentEnd > bytes.length) return TRUNCATED
+
+    // SOFn（DHT・JPG・DACを除く）に画像サイズが入っている
+    const isStartOfFrame = marker >= 0xC0 && marker <= 0xCF && ![0xC4, 0xC8, 0xCC].includes(marker)
+    if (isStartOfFrame) {
+      height = readUint16BE(bytes, pos + 5)
+      width = readUint16BE(bytes, pos + 7)
+    }
+    pos = segmentEnd
+
+    // SOSの後は圧縮データなので、次のマーカーまで読み飛ばす
+    if (marker === 0xDA) {
+      while (pos + 1 < bytes.length && !(bytes[pos] === 0xFF && bytes[pos + 1] !== 0x00 && !(bytes[pos + 1] >= 0xD0 && bytes[pos + 1] <= 0xD7))) {
+        pos++
+      }
+    }
+  }
+
+  return TRUNCATED
+}
+
+function parsePng(bytes: Uint8Array): ParsedImage {
+  let width = 0
+  let height = 0
+  let pos = 8
+
+  while (pos + 12 <= bytes.length) {
+    const length = readUint32BE(bytes, pos)
+    const type = readAscii(bytes, pos + 4, 4)
+    const chunkEnd = pos + 12 + length
+    if (chunkEnd > bytes.length) return TRUNCATED
+
+    if (pos === 8) {
+      // 先頭のチャンクは必ずIHDR
+      if (type !== 'IHDR' || length !== 13) return CORRUPTED
+      width = readUint32BE(bytes, pos + 8)
+      height = readUint32BE(bytes, pos + 12)
+    }
+    if (type === 'IEND') {
+      return { end: chunkEnd, width, height }
+    }
+    pos = chunkEnd
+  }
+
+  return TRUNCATED
+}
+
+function parseWebp(bytes: Uint8Array): ParsedImage {
+  const end = readUint32LE(bytes, 4) + 8
+  if (end > bytes.length) return TRUNCATED
+  if (end < 20) return CORRUPTED
+
+  const chunk = readAscii(bytes, 12, 4)
+  const chunkEnd = 20 + readUint32LE(bytes, 16)
+  if (chunkEnd > end) return TRUNCATED
+
+  if (chunk === 'VP8 ' && chunkEnd >= 30 && startsWith(bytes, [0x9D, 0x01, 0x2A], 23)) {
+    return {
+      end,
+      width: (bytes[26] | (bytes[27] << 8)) & 0x3FFF,
+      height: (bytes[28] | (bytes[29] << 8)) & 0x3FFF
+    }
+  }
+  if (chunk === 'VP8L' && chunkEnd >= 25 && bytes[20] === 0x2F) {
+    return {
+      end,
+      width: 1 + (((bytes[22] & 0x3F) << 8) | bytes[21]),
+      height: 1 + (((bytes[24] & 0x0F) << 10) | (bytes[23] << 2) | ((bytes[22] & 0xC0) >> 6))
+    }
+  }
+  if (chunk === 'VP8X' && chunkEnd >= 30) {
+    return {
+      end,
+      width: 1 + (bytes[24] | (bytes[25] << 8) | (bytes[26] << 16)),
+      height: 1 + (bytes[27] | (bytes[28] << 8) | (bytes[29] << 16))
+    }
+  }
+  return CORRUPTED
+}
+
+function parseHeif(bytes: Uint8Array): ParsedImage {
+  // トップレベルのボックスが隙間なくファイル末尾まで並んでいることを確認する
+  let pos = 0
+  while (pos < bytes.length) {
+    if (pos + 8 > bytes.length) return TRUNCATED
+    let size = readUint32BE(bytes, pos)
+    if (size === 1) {
+      if (pos + 16 > bytes.length) return TRUNCATED
+      size = readUint32BE(bytes, pos + 8) * 2 ** 32 + readUint32BE(bytes, pos + 12)
+    } else if (size === 0) {
+      size = bytes.length - pos
+    }
+    if (size < 8) return CORRUPTED
+    if (pos + size > bytes.length) return TRUNCATED
+    pos += size
+  }
+
+  // 画像サイズは ispe（Image Spatial Extents）プロパティから取得する
+  // タイル分割された画像ではタイルごとにも ispe があるため、最大のものを全体のサイズとみなす
+  let width = 0
+  let height = 0
+  for (let i = 4; i + 16 <= bytes.length; i++) {
+    if (bytes[i] === 0x69 && readAscii(bytes, i, 4) === 'ispe') {
+      const ispeWidth = readUint32BE(bytes, i + 8)
+      const ispeHeight = readUint32BE(bytes, i + 12)
+      if (ispeWidth * ispeHeight > width * height) {
+        width = ispeWidth
+        height = ispeHeight
+      }
+    }
+  }
+  return width && height ? { end: pos, width, height } : CORRUPTED
+}
+
+const parsers: Record<DetectedImageType, (bytes: Uint8Array) => ParsedImage> = {
+  'image/jpeg': parseJpeg,
+  'image/png': parsePng,
+  'image/webp': parseWebp,
+  'image/heic': parseHeif,
+  'image/heif': parseHeif
+}
+
+/**
+ * 画像データの形式・構造・縦横サイズを検証する
+ */
+export function inspectImage(bytes: Uint8Array): InspectionResult {
+  const mimeType = detectImageType(bytes)
+  if (!mimeType) {
+    return { isValid: false, error: '画像形式を判別できません' }
+  }
+
+  const parsed = parsers[mimeType](bytes)
+  if ('error' in parsed) {
+    return { isValid: false, error: parsed.error }
+  }
+
+  if (parsed.end < bytes.length && mimeType !== 'image/jpeg') {
+    return { isValid: false, error: '画像データの後ろに不正なデータが含まれています' }
+  }
+
+  const { width, height } = parsed
+  if (width < 1 || height < 1) {
+    return { isValid: false, error: '画像サイズを判別できません' }
+  }
+  if (width > MAX_IMAGE_DIMENSION || height > MAX_IMAGE_DIMENSION || width * height > MAX_IMAGE_PIXELS) {
+    return { isValid: false, error: '画像の縦横サイズが大きすぎます' }
+  }
+
+  return { isValid: true, image: { mimeType, width, height }, length: parsed.end }
+}
+
+/**
+ * バイト列をBase64文字列にする
+ */
+export function encodeBase64(bytes: Uint8Array): string {
+  if (typeof window !== 'undefined') {
+    let binary = ''
+    for (let i = 0; i < bytes.length; i++) {
+      binary += String.fromCharCode(bytes[i])
+    }
+    return btoa(binary)
+  }
+  return Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength).toString('base64')
+}
+
+/**
+ * Base64文字列を全体デコードする（不正な場合は null）
+ */
+export function decodeBase64(base64Data: string): Uint8Array | null {
+  if (base64Data.length === 0 || base64Data.length % 4 !== 0 || !/^[A-Za-z0-9+/]*={0,2}$/.test(base64Data)) {
+    return null
+  }
+
+  try {
+    if (typeof window !== 'undefined') {
+      return Uint8Array.from(atob(base64Data), char => char.charCodeAt(0))
+    }
+    return new Uint8Array(Buffer.from(base64Data, 'base64'))
+  } catch {
+    return null
+  }
+}
@@ -0,0 +1,188 @@
+/**
+ * 量に注意が必要な食品の摂取記録（クライアント専用）
+ *
+ * 水銀を含む魚・カフェイン・ビタミンAは、1回の食事ではなく1日・1週間の量が問題になる。
+ * 分析結果のうち該当する食品を、ユーザーが「食べた」と記録した分だけ端末内に積み上げ、
+ * 目安の量に近づいたら知らせる。
+ */
+
+import { findFoodKnowledge, FoodRiskCategory } from './food-knowledge'
+import { createLocalId } from './utils'
+
+export type IntakeCategory = Extract<FoodRiskCategory, 'mercury' | 'caffeine' | 'vitamin_a'>
+export type IntakePeriod = 'day' | 'week'
+
+export interface IntakeGuideline {
+  category: IntakeCategory
+  label: string
+  period: IntakePeriod
+  maxServings: number // 期間内の目安の上限（1回・1杯を1として数える）
+  unit: string
+  note: string // 目安の説明
+  source: string
+}
+
+export const INTAKE_GUIDELINES: Record<IntakeCategory, IntakeGuideline> = {
+  mercury: {
+    category: 'mercury',
+    label: '水銀を含む魚',
+    period: 'week',
+    maxServings: 1,
+    unit: '回',
+    note: 'クロマグロ・メバチ・キンメダイ・メカジキなどは、1回約80gとして週1回までが目安です。',
+    source: '厚生労働省「妊婦への魚介類の摂食と水銀に関する注意事項」'
+  },
+  caffeine: {
+    category: 'caffeine',
+    label: 'カフェイン',
+    period: 'day',
+    maxServings: 2,
+    unit: '杯',
+    note: 'コーヒーはマグカップで1日2杯程度（カフェイン200mg）までが目安です。',
+    source: '食品安全委員会「食品中のカフェイン」'
+  },
+  vitamin_a: {
+    category: 'vitamin_a',
+    label: 'ビタミンAの多い食品',
+    period: 'week',
+    maxServings: 1,
+    unit: '回',
+    note: 'レバーやうなぎは、続けて食べず週1回程度にとどめましょう。妊娠初期は特に注意が必要です。',
+    source: '厚生労働省「これからママになるあなたへ 食べ物について知っておいてほしいこと」'
+  }
+}
+
+export const PERIOD_LABELS: Record<IntakePeriod, string> = {
+  day: '今日',
+  week: 'この7日間'
+}
+
+export interface IntakeRecord {
+  id: string
+  category: IntakeCategory
+  foodName: string
+  servings: number
+  loggedAt: number // ミリ秒
+}
+
+// 'approaching' は目安の半分以上、'reached' は目安ちょうど、'over' は目安を超えた場合
+export type IntakeStatus = 'ok' | 'approaching' | 'reached' | 'over'
+
+export interface IntakeSummary {
+  guideline: IntakeGuideline
+  servings: number
+  status: IntakeStatus
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const WEEK_MS = 7 * DAY_MS
+const APPROACHING_RATIO = 0.5
+
+const isIntakeCategory = (category: FoodRiskCategory): category is IntakeCategory =>
+  Object.prototype.hasOwnProperty.call(INTAKE_GUIDELINES, category)
+
+/**
+ * 摂取量を記録する対象の区分を返す（対象外の食品は null）
+ */
+export function findIntakeCategory(foodName: string): IntakeCategory | null {
+  return findFoodKnowledge(foodName).map(entry => entry.category).find(isIntakeCategory) ?? null
+}
+
+// 端末の時刻で今日の0時
+const startOfDay = (now: number) => {
+  const date = new Date(now)
+  date.setHours(0, 0, 0, 0)
+  return date.getTime()
+}
+
+const periodStart = (period: IntakePeriod, now: number) => (period === 'day' ? startOfDay(now) : now - WEEK_MS)
+
+const toStatus = (servings: number, maxServings: number): IntakeStatus => {
+  if (servings > maxServings) return 'over'
+  if (servings === maxServings) return 'reached'
+  if (servings >= maxServings * APPROACHING_RATIO) return 'approaching'
+  return 'ok'
+}
+
+/**
+ * 区分ごとに、目安の期間内に記録した量をまとめる（記録が無い区分は含めない）
+ */
+export function summarizeIntake(records: IntakeRecord[], now: number = Date.now()): IntakeSummary[] {
+  return Object.values(INTAKE_GUIDELINES).flatMap(guideline => {
+    const from = periodStart(guideline.period, now)
+    const servings = records
+      .filter(record => record.category === guideline.category && record.loggedAt >= from && record.loggedAt <= now)
+      .reduce((total, record) => total + record.servings, 0)
+    return servings > 0 ? [{ guideline, servings, status: toStatus(servings, guideline.maxServings) }] : []
+  })
+}
+
+/**
+ * 目安に近づいた・超えた場合の注意（問題なければ null）
+ */
+export function describeIntakeWarning({ guideline, servings, status }: IntakeSummary): string | null {
+  const amount = `${PERIOD_LABELS[guideline.period]}は${guideline.label}を${servings}${guideline.unit}記録しています`
+  switch (status) {
+    case 'over':
+      return `${amount}。目安（${guideline.maxServings}${guideline.unit}）を超えています。`
+    case 'reached':
+      return `${amount}。目安（${guideline.maxServings}${guideline.unit}）に達しました。`
+    case 'approaching':
+      return `${amount}。目安（${guideline.maxServings}${guideline.unit}）に近づいています。`
+    case 'ok':
+      return null
+  }
+}
+
+export function createIntakeRecord(
+  fields: Pick<IntakeRecord, 'category' | 'foodName'> & { servings?: number },
+  now: number = Date.now()
+): IntakeRecord {
+  return { id: createLocalId(), ...fields, servings: fields.servings ?? 1, loggedAt: now }
+}
+
+// ---- 端末内での保存（クライアント専用） ----
+
+const STORAGE_KEY = 'intakeLog'
+
+const isIntakeRecord = (value: unknown): value is IntakeRecord => {
+  const record = value as IntakeRecord
+  return typeof value === 'object' && value !== null &&
+    typeof record.id === 'string' &&
+    typeof record.category === 'string' && isIntakeCategory(record.category as FoodRiskCategory) &&
+    typeof record.foodName === 'string' &&
+    typeof record.servings === 'number' && record.servings > 0 &&
+    typeof record.loggedAt === 'number'
+}
+
+/**
+ * 保存した記録のうち、目安の期間（最長7日）内のものを返す
+ */
+export function loadIntakeLog(now: number = Date.now()): IntakeRecord[] {
+  if (typeof window === 'undefined') return []
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY)
+    if (!raw) return []
+    const stored: unknown = JSON.parse(raw)
+    return Array.isArray(stored) ? stored.filter(isIntakeRecord).filter(record => record.loggedAt > now - WEEK_MS) : []
+  } catch {
+    return []
+  }
+}
+
+/**
+ * 記録を保存する（目安の期間を過ぎた記録は残さない）
+ */
+export function saveIntakeLog(records: IntakeRecord[], now: number = Date.now()): void {
+  if (typeof window === 'undefined') return
+  try {
+    const recent = records.filter(record => record.loggedAt > now - WEEK_MS)
+    if (recent.length === 0) {
+      window.localStorage.removeItem(STORAGE_KEY)
+    } else {
+      window.localStorage.setItem(STORAGE_KEY, JSON.stringify(recent))
+    }
+  } catch {
+    // プライベートモード等で保存できない場合は何もしない
+  }
+}
@@ -0,0 +1,129 @@
+/**
+ * 妊娠週数・妊娠時期（初期/中期/後期）に関するユーティリティ
+ */
+
+export type Trimester = 1 | 2 | 3
+
+export const MIN_PREGNANCY_WEEK = 1
+export const MAX_PREGNANCY_WEEK = 42
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const FULL_TERM_WEEKS = 40
+
+export const TRIMESTER_LABELS: Record<Trimester, string> = {
+  1: '初期',
+  2: '中期',
+  3: '後期'
+}
+
+// プロンプトに含める時期ごとの注意点（固定文のみを使用する）
+export const TRIMESTER_CONCERNS: Record<Trimester, string[]> = {
+  1: [
+    'ビタミンA（レバー、うなぎ等）の過剰摂取',
+    'アルコール',
+    'リステリア菌・トキソプラズマなどの感染症'
+  ],
+  2: [
+    '水銀を含む魚の食べる量',
+    'カフェインの摂取量',
+    'リステリア菌などの感染症'
+  ],
+  3: [
+    'カフェインの摂取量',
+    '水銀を含む魚の食べる量',
+    'リステリア菌などの感染症'
+  ]
+}
+
+export function getTrimester(week: number): Trimester {
+  if (week <= 13) return 1
+  if (week <= 27) return 2
+  return 3
+}
+
+export function isValidPregnancyWeek(week: unknown): week is number {
+  return typeof week === 'number' &&
+    Number.isInteger(week) &&
+    week >= MIN_PREGNANCY_WEEK &&
+    week <= MAX_PREGNANCY_WEEK
+}
+
+/**
+ * 出産予定日から現在の妊娠週数を計算する
+ */
+export function weekFromDueDate(dueDate: string, now: number = Date.now()): number | null {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(dueDate)) {
+    return null
+  }
+  const due = Date.parse(`${dueDate}T00:00:00Z`)
+  if (Number.isNaN(due)) {
+    return null
+  }
+  const daysUntilDue = Math.ceil((due - now) / DAY_MS)
+  const week = FULL_TERM_WEEKS - Math.ceil(daysUntilDue / 7)
+  return isValidPregnancyWeek(week) ? week : null
+}
+
+/**
+ * リクエストの pregnancyWeek / dueDate を検証して妊娠週数を返す（どちらも無ければ week は undefined）
+ */
+export function resolvePregnancyWeek(
+  input: { pregnancyWeek?: unknown; dueDate?: unknown },
+  now: number = Date.now()
+): { isValid: boolean; week?: number; error?: string } {
+  if (input.pregnancyWeek !== undefined && input.pregnancyWeek !== null) {
+    if (!isValidPregnancyWeek(input.pregnancyWeek)) {
+      return { isValid: false, error: '妊娠週数が不正です' }
+    }
+    return { isValid: true, week: input.pregnancyWeek }
+  }
+
+  if (input.dueDate !== undefined && input.dueDate !== null) {
+    const week = typeof input.dueDate === 'string' ? weekFromDueDate(input.dueDate, now) : null
+    if (week === null) {
+      return { isValid: false, error: '出産予定日が不正です' }
+    }
+    return { isValid: true, week }
+  }
+
+  return { isValid: true }
+}
+
+// ---- 端末内での保存（クライアント専用） ----
+
+const STORAGE_KEY = 'pregnancyWeek'
+
+interface StoredPregnancyWeek {
+  week: number
+  savedAt: number
+}
+
+/**
+ * 保存した週数を、保存からの経過日数分だけ進めて返す
+ */
+export function loadPregnancyWeek(now: number = Date.now()): number | null {
+  if (typeof window === 'undefined') return null
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY)
+    if (!raw) return null
+    const stored: StoredPregnancyWeek = JSON.parse(raw)
+    if (!isValidPregnancyWeek(stored.week) || typeof stored.savedAt !== 'number') return null
+    const elapsedWeeks = Math.max(0, Math.floor((now - stored.savedAt) / (7 * DAY_MS)))
+    return Math.min(stored.week + elapsedWeeks, MAX_PREGNANCY_WEEK)
+  } catch {
+    return null
+  }
+}
+
+export function savePregnancyWeek(week: number | null, now: number = Date.now()): void {
+  if (typeof window === 'undefined') return
+  try {
+    if (week === null) {
+      window.localStorage.removeItem(STORAGE_KEY)
+    } else {
+      window.localStorage.setItem(STORAGE_KEY, JSON.stringify({ week, savedAt: now }))
+    }
+  } catch {
+    // プライベートモード等で保存できない場合は何もしない
+  }
+}
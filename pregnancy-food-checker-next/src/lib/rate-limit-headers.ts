@@ -0,0 +1,76 @@
+/**
+ * レート制限の状態を伝えるレスポンスヘッダー
+ *
+ * RateLimit-Limit / RateLimit-Remaining / RateLimit-Reset（IETF draft-ietf-httpapi-ratelimit-headers）と、
+ * 制限中の Retry-After を扱う。ヘッダーの生成はサーバー、読み取りはブラウザで行う。
+ */
+
+import type { RateLimitResult } from './rate-limit'
+
+export interface RateLimitStatus {
+  limit: number | null
+  remaining: number
+  resetAt: number // 制限が回復する時刻（エポックミリ秒）
+  retryAt: number | null // 制限中の場合、再度リクエストできる時刻
+}
+
+/**
+ * レート制限の判定結果からレスポンスヘッダーを作る
+ * 時刻はいずれも現在からの秒数で表す
+ */
+export function createRateLimitHeaders(result: RateLimitResult, now = Date.now()): Record<string, string> {
+  const resetSeconds = Math.max(0, Math.ceil((result.resetTime - now) / 1000))
+  const headers: Record<string, string> = {
+    'RateLimit-Limit': String(result.limit),
+    'RateLimit-Remaining': String(result.remaining),
+    'RateLimit-Reset': String(resetSeconds)
+  }
+  if (!result.allowed) {
+    headers['Retry-After'] = String(Math.max(1, resetSeconds))
+  }
+  return headers
+}
+
+const parseInteger = (value: string | null): number | null => {
+  if (value === null || !/^\d+$/.test(value.trim())) return null
+  return Number(value)
+}
+
+/**
+ * レスポンスヘッダーからレート制限の状態を読み取る（ヘッダーが無い場合は null）
+ */
+export function parseRateLimitHeaders(
+  headers: { get(name: string): string | null } | undefined,
+  now = Date.now()
+): RateLimitStatus | null {
+  if (!headers) return null
+
+  const remaining = parseInteger(headers.get('RateLimit-Remaining'))
+  const reset = parseInteger(headers.get('RateLimit-Reset'))
+  const retryAfter = parseInteger(headers.get('Retry-After'))
+  if (remaining === null || reset === null) {
+    // 制限中であることだけが分かる場合
+    return retryAfter === null ? null : { limit: null, remaining: 0, resetAt: now + retryAfter * 1000, retryAt: now + retryAfter * 1000 }
+  }
+
+  return {
+    limit: parseInteger(headers.get('RateLimit-Limit')),
+    remaining,
+    resetAt: now + reset * 1000,
+    retryAt: retryAfter === null ? null : now + retryAfter * 1000
+  }
+}
+
+/**
+ * 残り時間を「1時間5分」「12分05秒」「30秒」の形式で表す
+ */
+export function formatWaitTime(ms: number): string {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000))
+  const hours = Math.floor(totalSeconds / 3600)
+  const minutes = Math.floor((totalSeconds % 3600) / 60)
+  const seconds = totalSeconds % 60
+
+  if (hours > 0) return `${hours}時間${minutes}分`
+  if (minutes > 0) return `${minutes}分${String(seconds).padStart(2, '0')}秒`
+  return `${seconds}秒`
+}
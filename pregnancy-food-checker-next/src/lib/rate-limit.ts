@@ -1,94 +1,408 @@
 import { NextRequest } from 'next/server'
+import { createRedisClient, RedisCommandClient } from './redis-client'
+import { createClientIdentifier } from './client-id'
 
-interface RateLimitEntry {
-  count: number
-  resetTime: number
+/**
+ * レート制限のアルゴリズム
+ * - fixed-window: 固定ウィンドウ。境界をまたぐと最大2倍まで通ってしまうが最も軽い
+ * - sliding-log: 直近 windowMs の許可時刻をすべて記録する。正確だがクライアントごとに最大 maxRequests 件を保持する
+ * - sliding-window: 現在と1つ前のウィンドウの件数から直近 windowMs の件数を推定する
+ * - token-bucket: 容量 burst のバケットに windowMs あたり maxRequests 個のトークンを補充する。短時間の連続利用を許しつつ平均を抑える
+ */
+export type RateLimitAlgorithm = 'fixed-window' | 'sliding-log' | 'sliding-window' | 'token-bucket'
+
+const RATE_LIMIT_ALGORITHMS: RateLimitAlgorithm[] = ['fixed-window', 'sliding-log', 'sliding-window', 'token-bucket']
+
+export interface RateLimitResult {
+  allowed: boolean
+  limit: number // 時間窓あたりの上限（token-bucket ではバケット容量）
+  remaining: number
+  resetTime: number // 次に許可される（または制限が元に戻る）時刻
 }
 
-// インメモリストレージ（本番環境ではRedisやDynamoDB等を推奨）
-const rateLimitStore = new Map<string, RateLimitEntry>()
+/**
+ * カウンターの保存先
+ * 各アルゴリズムの判定と更新は、複数のインスタンスから同時に呼ばれても数え漏れが起きないよう不可分に行う。
+ * consume が false の場合は、許可されるかどうかと現在の状態のみを返し、回数を消費しない。
+ */
+export interface RateLimitStore {
+  // カウンターを1増やす（期限切れ・未作成なら windowMs 後に切れる新しいカウンターを作る）
+  fixedWindow(key: string, windowMs: number, now: number, consume?: boolean): Promise<{ count: number; resetTime: number }>
+  // 直近 windowMs の記録が limit 件未満なら now を記録する
+  slidingLog(key: string, limit: number, windowMs: number, now: number, consume?: boolean): Promise<{ allowed: boolean; count: number; oldest: number }>
+  // 推定件数が limit 未満なら現在のウィンドウの件数を1増やす
+  slidingWindow(key: string, limit: number, windowMs: number, now: number, consume?: boolean): Promise<{ allowed: boolean; current: number; previous: number }>
+  // トークンを補充したうえで1つ消費する
+  tokenBucket(key: string, capacity: number, refillPerMs: number, now: number, consume?: boolean): Promise<{ allowed: boolean; tokens: number }>
+}
 
 interface RateLimitConfig {
   maxRequests: number
   windowMs: number
+  algorithm?: RateLimitAlgorithm // デフォルトは fixed-window
+  burst?: number // token-bucket のバケット容量（デフォルトは maxRequests）
+  store?: RateLimitStore
+  prefix?: string
+  getClientId?: (request: NextRequest) => string // デフォルトは環境変数の設定に従ったIPアドレスのハッシュ
 }
 
-export function rateLimit(config: RateLimitConfig) {
-  return {
-    check: (request: NextRequest) => {
-      const clientId = getClientId(request)
-      const now = Date.now()
-      const windowStart = now - config.windowMs
-      
-      // 古いエントリを削除
-      cleanupExpiredEntries(windowStart)
-      
-      const entry = rateLimitStore.get(clientId)
-      
-      if (!entry) {
-        // maxRequests=0の場合は全て拒否
-        if (config.maxRequests === 0) {
-          return { allowed: false, remaining: 0 }
-        }
-        
-        // 新規クライアント
-        rateLimitStore.set(clientId, {
-          count: 1,
-          resetTime: now + config.windowMs
-        })
-        return { allowed: true, remaining: config.maxRequests - 1 }
-      }
-      
-      if (now > entry.resetTime) {
-        // maxRequests=0の場合は全て拒否
-        if (config.maxRequests === 0) {
-          return { allowed: false, remaining: 0 }
+// 直近 windowMs の推定件数（1つ前のウィンドウは経過割合に応じて重みを減らす）
+function estimateSlidingWindow(current: number, previous: number, windowMs: number, now: number): number {
+  const elapsed = (now % windowMs) / windowMs
+  return previous * (1 - elapsed) + current
+}
+
+// インメモリストアで期限切れのエントリをまとめて削除する間隔
+const MEMORY_STORE_SWEEP_INTERVAL_MS = 60 * 1000
+
+/**
+ * インメモリストア（単一インスタンス・開発環境向け。サーバーレスではコールドスタートで消える）
+ */
+export function createMemoryStore(): RateLimitStore {
+  const entries = new Map<string, { expiresAt: number; state: unknown }>()
+  let lastSweep = 0
+
+  // key の状態を返す（期限切れなら削除する）
+  // 他のクライアントの古いエントリは、アクセスのたびに全件を調べないよう一定間隔ごとにまとめて削除する
+  const load = <T>(key: string, now: number): T | undefined => {
+    if (now - lastSweep >= MEMORY_STORE_SWEEP_INTERVAL_MS) {
+      lastSweep = now
+      for (const [entryKey, entry] of entries.entries()) {
+        if (entry.expiresAt < now) {
+          entries.delete(entryKey)
         }
-        
-        // ウィンドウリセット
-        rateLimitStore.set(clientId, {
-          count: 1,
-          resetTime: now + config.windowMs
-        })
-        return { allowed: true, remaining: config.maxRequests - 1 }
       }
-      
-      if (entry.count >= config.maxRequests) {
-        // 制限超過
-        return { 
-          allowed: false, 
-          remaining: 0,
-          resetTime: entry.resetTime
-        }
+    }
+
+    const entry = entries.get(key)
+    if (entry && entry.expiresAt < now) {
+      entries.delete(key)
+      return undefined
+    }
+    return entry?.state as T | undefined
+  }
+
+  const save = (key: string, state: unknown, expiresAt: number) => {
+    entries.set(key, { expiresAt, state })
+  }
+
+  return {
+    fixedWindow: async (key, windowMs, now, consume = true) => {
+      const entry = load<{ count: number; resetTime: number }>(key, now) ?? { count: 0, resetTime: now + windowMs }
+      if (!consume) {
+        return { ...entry }
       }
-      
-      // カウンターを増加
       entry.count++
-      rateLimitStore.set(clientId, entry)
-      
-      return { 
-        allowed: true, 
-        remaining: config.maxRequests - entry.count 
+      save(key, entry, entry.resetTime)
+      return { ...entry }
+    },
+
+    slidingLog: async (key, limit, windowMs, now, consume = true) => {
+      const log = (load<number[]>(key, now) ?? []).filter(time => time > now - windowMs)
+      const allowed = log.length < limit
+      if (allowed && consume) {
+        log.push(now)
+      }
+      if (consume) {
+        save(key, log, now + windowMs)
+      }
+      return { allowed, count: log.length, oldest: log[0] ?? now }
+    },
+
+    slidingWindow: async (key, limit, windowMs, now, consume = true) => {
+      const window = Math.floor(now / windowMs)
+      const counts = load<Record<number, number>>(key, now) ?? {}
+      let current = counts[window] ?? 0
+      const previous = counts[window - 1] ?? 0
+      const allowed = estimateSlidingWindow(current, previous, windowMs, now) + 1 <= limit
+      if (!consume) {
+        return { allowed, current, previous }
+      }
+      if (allowed) {
+        current++
+      }
+      save(key, { [window]: current, [window - 1]: previous }, (window + 2) * windowMs)
+      return { allowed, current, previous }
+    },
+
+    tokenBucket: async (key, capacity, refillPerMs, now, consume = true) => {
+      const bucket = load<{ tokens: number; updatedAt: number }>(key, now) ?? { tokens: capacity, updatedAt: now }
+      let tokens = Math.min(capacity, bucket.tokens + Math.max(0, now - bucket.updatedAt) * refillPerMs)
+      const allowed = tokens >= 1
+      if (!consume) {
+        return { allowed, tokens }
       }
+      if (allowed) {
+        tokens -= 1
+      }
+      // 満タンに戻る時刻を過ぎれば、状態が無いのと同じなので削除してよい
+      const fullAt = refillPerMs > 0 ? now + Math.ceil((capacity - tokens) / refillPerMs) : Infinity
+      save(key, { tokens, updatedAt: now }, fullAt)
+      return { allowed, tokens }
     }
   }
 }
 
-function getClientId(request: NextRequest): string {
-  // IPアドレスとUser-Agentを組み合わせてクライアントを識別
-  const forwarded = request.headers.get('x-forwarded-for')
-  const realIp = request.headers.get('x-real-ip')
-  const ip = forwarded?.split(',')[0] || realIp || 'unknown'
-  const userAgent = request.headers.get('user-agent') || 'unknown'
-  
-  // ハッシュ化して匿名化
-  return btoa(`${ip}-${userAgent}`).slice(0, 32)
+// INCRとPEXPIREを不可分に実行し、[増加後の値, 残りミリ秒] を返す（ARGV[2] が 0 なら増やさずに現在の値を返す）
+const FIXED_WINDOW_SCRIPT = `
+if ARGV[2] == '0' then
+  local current = tonumber(redis.call('GET', KEYS[1]) or '0')
+  local remaining = redis.call('PTTL', KEYS[1])
+  if remaining < 0 then
+    remaining = tonumber(ARGV[1])
+  end
+  return {current, remaining}
+end
+local count = redis.call('INCR', KEYS[1])
+local ttl = redis.call('PTTL', KEYS[1])
+if ttl < 0 then
+  redis.call('PEXPIRE', KEYS[1], ARGV[1])
+  ttl = tonumber(ARGV[1])
+end
+return {count, ttl}
+`
+
+// ソート済みセットに許可時刻を記録し、[許可したか, 件数, 最も古い記録の時刻] を返す（ARGV[5] が 0 なら記録しない）
+const SLIDING_LOG_SCRIPT = `
+local now = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+local limit = tonumber(ARGV[3])
+redis.call('ZREMRANGEBYSCORE', KEYS[1], '-inf', now - window)
+local count = redis.call('ZCARD', KEYS[1])
+local allowed = 0
+if count < limit then
+  allowed = 1
+  if ARGV[5] ~= '0' then
+    redis.call('ZADD', KEYS[1], now, ARGV[4])
+    count = count + 1
+  end
+end
+if ARGV[5] ~= '0' then
+  redis.call('PEXPIRE', KEYS[1], window)
+end
+local oldest = redis.call('ZRANGE', KEYS[1], 0, 0, 'WITHSCORES')
+return {allowed, count, oldest[2] or tostring(now)}
+`
+
+// KEYS[1]が現在、KEYS[2]が1つ前のウィンドウのカウンター。[許可したか, 現在の件数, 1つ前の件数] を返す（ARGV[4] が 0 なら増やさない）
+const SLIDING_WINDOW_SCRIPT = `
+local now = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+local limit = tonumber(ARGV[3])
+local current = tonumber(redis.call('GET', KEYS[1]) or '0')
+local previous = tonumber(redis.call('GET', KEYS[2]) or '0')
+local elapsed = (now % window) / window
+local allowed = 0
+if previous * (1 - elapsed) + current + 1 <= limit then
+  allowed = 1
+  if ARGV[4] ~= '0' then
+    current = redis.call('INCR', KEYS[1])
+    redis.call('PEXPIRE', KEYS[1], window * 2)
+  end
+end
+return {allowed, current, previous}
+`
+
+// ハッシュにトークン数と更新時刻を保存し、[許可したか, 残りトークン数] を返す（ARGV[4] が 0 なら消費も保存もしない）
+const TOKEN_BUCKET_SCRIPT = `
+local capacity = tonumber(ARGV[1])
+local rate = tonumber(ARGV[2])
+local now = tonumber(ARGV[3])
+local state = redis.call('HMGET', KEYS[1], 'tokens', 'updatedAt')
+local tokens = tonumber(state[1]) or capacity
+local updated = tonumber(state[2]) or now
+tokens = math.min(capacity, tokens + math.max(0, now - updated) * rate)
+if ARGV[4] == '0' then
+  return {tokens >= 1 and 1 or 0, tostring(tokens)}
+end
+local allowed = 0
+if tokens >= 1 then
+  tokens = tokens - 1
+  allowed = 1
+end
+redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'updatedAt', tostring(now))
+if rate > 0 then
+  redis.call('PEXPIRE', KEYS[1], math.ceil((capacity - tokens) / rate) + 1000)
+end
+return {allowed, tostring(tokens)}
+`
+
+/**
+ * Redis（互換サーバーを含む）をストアとして使う
+ * 判定と更新はLuaスクリプトで不可分に行う
+ */
+export function createRedisStore(client: RedisCommandClient): RateLimitStore {
+  const evaluate = async (script: string, keys: string[], args: Array<string | number>): Promise<Array<string | number>> => {
+    const reply = await client.sendCommand(['EVAL', script, String(keys.length), ...keys, ...args.map(String)])
+    if (!Array.isArray(reply) || reply.some(item => typeof item !== 'number' && typeof item !== 'string')) {
+      throw new Error('Redisから不正な応答を受け取りました')
+    }
+    return reply as Array<string | number>
+  }
+
+  return {
+    fixedWindow: async (key, windowMs, now, consume = true) => {
+      const [count, ttl] = await evaluate(FIXED_WINDOW_SCRIPT, [key], [windowMs, consume ? 1 : 0])
+      return { count: Number(count), resetTime: now + Number(ttl) }
+    },
+
+    slidingLog: async (key, limit, windowMs, now, consume = true) => {
+      // 同じミリ秒の記録が上書きされないよう、メンバーには乱数を付ける
+      const member = `${now}-${Math.random().toString(36).slice(2)}`
+      const [allowed, count, oldest] = await evaluate(SLIDING_LOG_SCRIPT, [key], [now, windowMs, limit, member, consume ? 1 : 0])
+      return { allowed: allowed === 1, count: Number(count), oldest: Number(oldest) }
+    },
+
+    slidingWindow: async (key, limit, windowMs, now, consume = true) => {
+      const window = Math.floor(now / windowMs)
+      const [allowed, current, previous] = await evaluate(
+        SLIDING_WINDOW_SCRIPT,
+        [`${key}:${window}`, `${key}:${window - 1}`],
+        [now, windowMs, limit, consume ? 1 : 0]
+      )
+      return { allowed: allowed === 1, current: Number(current), previous: Number(previous) }
+    },
+
+    tokenBucket: async (key, capacity, refillPerMs, now, consume = true) => {
+      const [allowed, tokens] = await evaluate(TOKEN_BUCKET_SCRIPT, [key], [capacity, refillPerMs, now, consume ? 1 : 0])
+      return { allowed: allowed === 1, tokens: Number(tokens) }
+    }
+  }
 }
 
-function cleanupExpiredEntries(windowStart: number) {
-  for (const [key, entry] of rateLimitStore.entries()) {
-    if (entry.resetTime < windowStart) {
-      rateLimitStore.delete(key)
+/**
+ * 環境変数に応じたストアを返す（RATE_LIMIT_REDIS_URL が無ければインメモリ）
+ */
+export function getRateLimitStore(env: Record<string, string | undefined> = process.env): RateLimitStore {
+  if (env.RATE_LIMIT_REDIS_URL) {
+    if (!env.RATE_LIMIT_HASH_SECRET) {
+      console.warn('RATE_LIMIT_HASH_SECRET が未設定のため、インスタンスごとに別のクライアントIDになります')
     }
+    return createRedisStore(createRedisClient(env.RATE_LIMIT_REDIS_URL))
+  }
+  return createMemoryStore()
+}
+
+/**
+ * 環境変数 RATE_LIMIT_ALGORITHM（name で別の変数を指定できる）で指定されたアルゴリズムを返す（未指定・不正な値なら fallback）
+ */
+export function getRateLimitAlgorithm(
+  fallback: RateLimitAlgorithm,
+  env: Record<string, string | undefined> = process.env,
+  name = 'RATE_LIMIT_ALGORITHM'
+): RateLimitAlgorithm {
+  const algorithm = env[name] as RateLimitAlgorithm | undefined
+  if (!algorithm) return fallback
+  if (!RATE_LIMIT_ALGORITHMS.includes(algorithm)) {
+    console.warn(`未対応のレート制限アルゴリズムです: ${algorithm}（${fallback} を使用します）`)
+    return fallback
+  }
+  return algorithm
+}
+
+// 環境変数の値を整数として読む（未指定・min 未満・整数でない値なら fallback）
+function readIntegerEnv(env: Record<string, string | undefined>, name: string, fallback: number | undefined, min: number): number | undefined {
+  const value = env[name]
+  if (value === undefined || value === '') return fallback
+  const parsed = Number(value)
+  if (!Number.isInteger(parsed) || parsed < min) {
+    console.warn(`${name} の値が不正です: ${value}（${fallback ?? '未指定'} を使用します）`)
+    return fallback
+  }
+  return parsed
+}
+
+/**
+ * ルートごとのレート制限の設定を返す
+ * RATE_LIMIT_<ROUTE>_MAX_REQUESTS・_WINDOW_SECONDS・_ALGORITHM・_BURST（ROUTE は route を大文字にして - を _ にしたもの）で
+ * defaults を上書きできる。アルゴリズムとバースト容量は、ルートの指定が無ければ RATE_LIMIT_ALGORITHM・RATE_LIMIT_BURST を使う
+ */
+export function getRouteRateLimitConfig(
+  route: string,
+  defaults: { maxRequests: number; windowMs: number; algorithm: RateLimitAlgorithm },
+  env: Record<string, string | undefined> = process.env
+): Pick<RateLimitConfig, 'maxRequests' | 'windowMs' | 'algorithm' | 'burst'> {
+  const prefix = `RATE_LIMIT_${route.toUpperCase().replace(/-/g, '_')}_`
+  const windowSeconds = readIntegerEnv(env, `${prefix}WINDOW_SECONDS`, undefined, 1)
+
+  return {
+    maxRequests: readIntegerEnv(env, `${prefix}MAX_REQUESTS`, defaults.maxRequests, 0)!,
+    windowMs: windowSeconds !== undefined ? windowSeconds * 1000 : defaults.windowMs,
+    algorithm: getRateLimitAlgorithm(getRateLimitAlgorithm(defaults.algorithm, env), env, `${prefix}ALGORITHM`),
+    burst: readIntegerEnv(env, `${prefix}BURST`, readIntegerEnv(env, 'RATE_LIMIT_BURST', undefined, 1), 1)
+  }
+}
+
+type AlgorithmConfig = Required<Pick<RateLimitConfig, 'maxRequests' | 'windowMs'>> & Pick<RateLimitConfig, 'burst'>
+
+// consume が false の場合、allowed は次の1回が許可されるかどうか、remaining は消費前の残り回数になる
+const algorithms: Record<RateLimitAlgorithm, (store: RateLimitStore, key: string, config: AlgorithmConfig, now: number, consume: boolean) => Promise<Omit<RateLimitResult, 'limit'>>> = {
+  'fixed-window': async (store, key, { maxRequests, windowMs }, now, consume) => {
+    const { count, resetTime } = await store.fixedWindow(key, windowMs, now, consume)
+    // maxRequests=0の場合は全て拒否
+    return { allowed: consume ? count <= maxRequests : count < maxRequests, remaining: Math.max(0, maxRequests - count), resetTime }
+  },
+
+  'sliding-log': async (store, key, { maxRequests, windowMs }, now, consume) => {
+    const { allowed, count, oldest } = await store.slidingLog(key, maxRequests, windowMs, now, consume)
+    // 最も古い記録が窓から外れた時点で、次の1回が許可される
+    return { allowed, remaining: Math.max(0, maxRequests - count), resetTime: oldest + windowMs }
+  },
+
+  'sliding-window': async (store, key, { maxRequests, windowMs }, now, consume) => {
+    const { allowed, current, previous } = await store.slidingWindow(key, maxRequests, windowMs, now, consume)
+    const windowStart = now - (now % windowMs)
+    const estimate = estimateSlidingWindow(current, previous, windowMs, now)
+    const remaining = Math.max(0, Math.floor(maxRequests - estimate))
+
+    // 推定件数が1件分下がる時刻（現在のウィンドウだけで上限に達している場合は次のウィンドウ）
+    const fraction = (room: number, count: number) => Math.min(1, Math.max(0, count > 0 ? 1 - room / count : 0))
+    const resetTime = current + 1 <= maxRequests
+      ? windowStart + Math.ceil(windowMs * fraction(maxRequests - current - 1, previous))
+      : windowStart + windowMs + Math.ceil(windowMs * fraction(maxRequests - 1, current))
+    return { allowed, remaining, resetTime: allowed ? windowStart + windowMs : resetTime }
+  },
+
+  'token-bucket': async (store, key, { maxRequests, windowMs, burst }, now, consume) => {
+    const capacity = burst ?? maxRequests
+    const refillPerMs = maxRequests / windowMs
+    const { allowed, tokens } = await store.tokenBucket(key, capacity, refillPerMs, now, consume)
+    if (refillPerMs <= 0) {
+      return { allowed, remaining: Math.floor(tokens), resetTime: now + windowMs }
+    }
+    // 拒否時は次のトークンが貯まる時刻、許可時はバケットが満タンに戻る時刻
+    const resetTime = allowed
+      ? now + Math.ceil((capacity - tokens) / refillPerMs)
+      : now + Math.ceil((1 - tokens) / refillPerMs)
+    return { allowed, remaining: Math.floor(tokens), resetTime }
+  }
+}
+
+export function rateLimit(config: RateLimitConfig) {
+  const store = config.store ?? createMemoryStore()
+  // Redisが使えない間は、このインスタンス内だけでも制限を続ける
+  const fallbackStore = createMemoryStore()
+  const algorithm = algorithms[config.algorithm ?? 'fixed-window']
+  const prefix = config.prefix ?? 'ratelimit'
+  const limit = config.algorithm === 'token-bucket' ? config.burst ?? config.maxRequests : config.maxRequests
+  const getClientId = config.getClientId ?? createClientIdentifier()
+
+  const run = async (request: NextRequest, consume: boolean): Promise<RateLimitResult> => {
+    const key = `${prefix}:${getClientId(request)}`
+    const now = Date.now()
+
+    try {
+      return { ...await algorithm(store, key, config, now, consume), limit }
+    } catch (error) {
+      console.error('レート制限ストアへの接続に失敗しました:', error)
+      return { ...await algorithm(fallbackStore, key, config, now, consume), limit }
+    }
+  }
+
+  return {
+    // 1回分を消費して判定する
+    check: (request: NextRequest) => run(request, true),
+    // 回数を消費せずに、次の1回が許可されるかどうかと残り回数を返す
+    peek: (request: NextRequest) => run(request, false)
   }
 }
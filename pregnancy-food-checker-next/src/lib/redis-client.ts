@@ -0,0 +1,175 @@
+/**
+ * Redisプロトコル（RESP2）の最小限のクライアント
+ *
+ * レート制限のカウンター共有に必要なコマンドを送るだけの用途のため、依存パッケージを増やさずに実装している。
+ * sendCommand のシグネチャは node-redis の client.sendCommand と互換なので、必要に応じて差し替えられる。
+ */
+
+import net from 'net'
+import tls from 'tls'
+
+export type RedisReply = string | number | null | RedisReply[]
+
+export interface RedisCommandClient {
+  sendCommand(args: string[]): Promise<RedisReply>
+}
+
+/**
+ * Redisがエラー応答（-ERR ...）を返したことを表すエラー
+ */
+export class RedisReplyError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'RedisReplyError'
+  }
+}
+
+export function encodeCommand(args: string[]): string {
+  return `*${args.length}\r\n` + args.map(arg => `$${Buffer.byteLength(arg)}\r\n${arg}\r\n`).join('')
+}
+
+type ParsedReply = { reply: RedisReply | RedisReplyError; offset: number }
+
+/**
+ * buffer の offset から1つの応答を読み取る（データが足りなければ null）
+ */
+export function parseReply(buffer: Buffer, offset = 0): ParsedReply | null {
+  const lineEnd = buffer.indexOf('\r\n', offset)
+  if (lineEnd === -1) return null
+
+  const type = String.fromCharCode(buffer[offset])
+  const line = buffer.toString('utf8', offset + 1, lineEnd)
+  const next = lineEnd + 2
+
+  switch (type) {
+    case '+':
+      return { reply: line, offset: next }
+    case '-':
+      return { reply: new RedisReplyError(line), offset: next }
+    case ':':
+      return { reply: Number(line), offset: next }
+    case '$': {
+      const length = Number(line)
+      if (length === -1) return { reply: null, offset: next }
+      if (buffer.length < next + length + 2) return null
+      return { reply: buffer.toString('utf8', next, next + length), offset: next + length + 2 }
+    }
+    case '*': {
+      const count = Number(line)
+      if (count === -1) return { reply: null, offset: next }
+      const items: RedisReply[] = []
+      let error: RedisReplyError | null = null
+      let position = next
+      for (let i = 0; i < count; i++) {
+        const item = parseReply(buffer, position)
+        if (!item) return null
+        // 要素にエラーが含まれる場合も、後続の応答とずれないよう配列の最後まで読み進める
+        if (item.reply instanceof RedisReplyError) {
+          error = error ?? item.reply
+        } else {
+          items.push(item.reply)
+        }
+        position = item.offset
+      }
+      return { reply: error ?? items, offset: position }
+    }
+    default:
+      throw new RedisReplyError(`不明な応答タイプです: ${type}`)
+  }
+}
+
+interface PendingCommand {
+  resolve: (reply: RedisReply) => void
+  reject: (error: Error) => void
+}
+
+/**
+ * redis://[:password@]host[:port][/db] または rediss://（TLS）形式のURLから接続するクライアント
+ * 最初のコマンド送信時に接続し、切断された場合は次のコマンドで再接続する
+ */
+export function createRedisClient(
+  url: string,
+  options: { timeoutMs?: number } = {}
+): RedisCommandClient & { close(): void } {
+  const parsed = new URL(url)
+  const timeoutMs = options.timeoutMs ?? 2000
+  let socket: net.Socket | null = null
+  let buffer = Buffer.alloc(0)
+  const pending: PendingCommand[] = []
+
+  const failAll = (error: Error) => {
+    while (pending.length > 0) {
+      pending.shift()!.reject(error)
+    }
+  }
+
+  const write = (args: string[], command: PendingCommand) => {
+    pending.push(command)
+    socket!.write(encodeCommand(args))
+  }
+
+  const connect = () => {
+    const port = Number(parsed.port) || 6379
+    const host = parsed.hostname
+    const current = parsed.protocol === 'rediss:'
+      ? tls.connect({ host, port, servername: host })
+      : net.connect({ host, port })
+    socket = current
+    buffer = Buffer.alloc(0)
+
+    current.setTimeout(timeoutMs)
+    current.on('timeout', () => {
+      // 待機中のコマンドがある場合のみ、応答が無いとみなして切断する
+      if (pending.length > 0) {
+        current.destroy(new Error('Redisの応答がタイムアウトしました'))
+      }
+    })
+    current.on('error', failAll)
+    current.on('close', () => {
+      if (socket === current) socket = null
+      failAll(new Error('Redisとの接続が切断されました'))
+    })
+    current.on('data', (chunk: Buffer) => {
+      buffer = Buffer.concat([buffer, chunk])
+      let parsedReply: ParsedReply | null
+      try {
+        while ((parsedReply = parseReply(buffer)) !== null) {
+          buffer = buffer.subarray(parsedReply.offset)
+          const command = pending.shift()
+          if (parsedReply.reply instanceof RedisReplyError) {
+            command?.reject(parsedReply.reply)
+          } else {
+            command?.resolve(parsedReply.reply)
+          }
+        }
+      } catch (error) {
+        current.destroy(error as Error)
+      }
+    })
+
+    // 認証とDB選択は、後続のコマンドより先に送る（失敗した場合は接続ごと破棄する）
+    const onSetupError = (error: Error) => current.destroy(error)
+    const password = decodeURIComponent(parsed.password)
+    if (password) {
+      const username = decodeURIComponent(parsed.username)
+      write(username ? ['AUTH', username, password] : ['AUTH', password], { resolve: () => {}, reject: onSetupError })
+    }
+    const db = parsed.pathname.slice(1)
+    if (db) {
+      write(['SELECT', db], { resolve: () => {}, reject: onSetupError })
+    }
+  }
+
+  return {
+    sendCommand: (args) => new Promise<RedisReply>((resolve, reject) => {
+      if (!socket) {
+        connect()
+      }
+      write(args, { resolve, reject })
+    }),
+    close: () => {
+      socket?.end()
+      socket = null
+    }
+  }
+}
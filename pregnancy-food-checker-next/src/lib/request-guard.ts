@@ -0,0 +1,150 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getRateLimitStore, getRouteRateLimitConfig, rateLimit, RateLimitResult } from './rate-limit'
+import { createRateLimitHeaders } from './rate-limit-headers'
+import { createUsageQuota, getUsageCaps, getUsageStore } from './usage-quota'
+import { validateReferrer, validateContentType, validateUserAgent } from './auth'
+
+type RateLimiter = ReturnType<typeof rateLimit>
+
+// レート制限のカウンターの保存先（ルートごとのカウンターはキーのプレフィックスで分ける）
+const rateLimitStore = getRateLimitStore()
+
+// Rate limiting設定（デフォルトは直近1時間に10回まで。環境変数 RATE_LIMIT_<ROUTE>_* でルートごとに変更できる）
+// 固定ウィンドウだと境界をまたいで2倍まで通るため、デフォルトは直近1時間を正確に数える sliding-log
+const DEFAULT_ANALYZE_RATE_LIMIT = {
+  maxRequests: 10,
+  windowMs: 60 * 60 * 1000, // 1時間
+  algorithm: 'sliding-log'
+} as const
+
+// 写真の分析（/api/analyze）
+export const analyzeLimiter = rateLimit({
+  ...getRouteRateLimitConfig('analyze', DEFAULT_ANALYZE_RATE_LIMIT),
+  store: rateLimitStore,
+  prefix: 'ratelimit:analyze'
+})
+
+// テキストの分析（/api/analyze-text）。写真の分析とは別に数える
+export const analyzeTextLimiter = rateLimit({
+  ...getRouteRateLimitConfig('analyze-text', DEFAULT_ANALYZE_RATE_LIMIT),
+  store: rateLimitStore,
+  prefix: 'ratelimit:analyze-text'
+})
+
+// アプリ全体のモデルAPI利用量の上限（環境変数 USAGE_*_LIMIT で設定、未設定なら上限なし）
+export const usageQuota = createUsageQuota({
+  caps: getUsageCaps(),
+  store: getUsageStore()
+})
+
+/**
+ * 全体の利用上限に達していれば、モデルを呼ばずに返すレスポンスを返す
+ */
+async function checkUsageQuota(): Promise<NextResponse | null> {
+  const quotaResult = await usageQuota.check()
+  if (quotaResult.allowed) {
+    return null
+  }
+
+  console.log(`Usage quota exceeded (${quotaResult.period})`)
+  const retryAfter = Math.max(1, Math.ceil((quotaResult.resetTime! - Date.now()) / 1000))
+  return NextResponse.json(
+    { error: quotaResult.message, quotaExceeded: true, retryAfter },
+    { status: 503, headers: { 'Retry-After': String(retryAfter) } }
+  )
+}
+
+/**
+ * 1. Rate Limiting チェック
+ * 制限を超えていればエラーレスポンスを、なければ null を返す
+ */
+function checkRateLimit(rateLimitResult: RateLimitResult): NextResponse | null {
+  if (!rateLimitResult.allowed) {
+    console.log('Rate limit exceeded')
+    return NextResponse.json(
+      { 
+        error: 'リクエスト制限に達しました。しばらく時間をおいてからお試しください。',
+        retryAfter: Math.max(1, Math.ceil((rateLimitResult.resetTime - Date.now()) / 1000)) // 秒
+      },
+      { status: 429 }
+    )
+  }
+  return null
+}
+
+/**
+ * 分析系APIに共通のリクエストチェック
+ * 問題があればエラーレスポンスを、なければ null を返す
+ */
+function validateAnalyzeRequest(request: NextRequest): NextResponse | null {
+  // 2. Content-Type チェック
+  const contentTypeValidation = validateContentType(request)
+  if (!contentTypeValidation.isValid) {
+    console.log('Invalid content type:', contentTypeValidation.error)
+    return NextResponse.json(
+      { error: 'リクエスト形式が不正です' },
+      { status: 400 }
+    )
+  }
+
+  // 3. Referrer チェック（開発環境では無効化）
+  if (process.env.NODE_ENV === 'production') {
+    const referrerValidation = validateReferrer(request)
+    if (!referrerValidation.isValid) {
+      console.log('Invalid referrer:', referrerValidation.error)
+      return NextResponse.json(
+        { error: 'アクセス元が不正です' },
+        { status: 403 }
+      )
+    }
+  }
+
+  // 4. User-Agent チェック
+  const userAgentValidation = validateUserAgent(request)
+  if (!userAgentValidation.isValid) {
+    console.log('Invalid user agent:', userAgentValidation.error)
+    return NextResponse.json(
+      { error: 'アクセスが拒否されました' },
+      { status: 403 }
+    )
+  }
+
+  return null
+}
+
+const setRateLimitHeaders = (response: NextResponse, rateLimitResult: RateLimitResult): NextResponse => {
+  Object.entries(createRateLimitHeaders(rateLimitResult)).forEach(([name, value]) => {
+    response.headers.set(name, value)
+  })
+  return response
+}
+
+/**
+ * 分析系APIのハンドラーを共通のリクエストチェックで包む
+ * エラーや保存済みの結果を含むすべてのレスポンスにレート制限のヘッダーを付ける
+ * - limiter: ルートごとに制限を変える場合に渡す
+ * - findCached: 保存済みの結果を返せる場合はそのレスポンスを返す。この場合はレート制限の回数を消費しない
+ */
+export async function guardAnalyzeRequest(
+  request: NextRequest,
+  handler: () => Promise<NextResponse>,
+  options: { limiter?: RateLimiter; findCached?: () => Promise<NextResponse | null> } = {}
+): Promise<NextResponse> {
+  const limiter = options.limiter ?? analyzeLimiter
+  const validationError = validateAnalyzeRequest(request)
+
+  // キャッシュの検索には画像のハッシュ計算が必要なため、制限に達したクライアントには検索させない
+  if (!validationError && options.findCached) {
+    const current = await limiter.peek(request)
+    if (current.allowed) {
+      const cachedResponse = await options.findCached()
+      if (cachedResponse) {
+        return setRateLimitHeaders(cachedResponse, current)
+      }
+    }
+  }
+
+  const rateLimitResult = await limiter.check(request)
+  const response = checkRateLimit(rateLimitResult) ?? validationError ?? await checkUsageQuota() ?? await handler()
+  return setRateLimitHeaders(response, rateLimitResult)
+}
@@ -0,0 +1,243 @@
+/**
+ * モデルが返す判定結果（JSON）のスキーマ
+ *
+ * - FOOD_RESPONSE_SCHEMA: 構造化出力に対応したモデル（Gemini）に渡すスキーマ
+ * - extractJson: 説明文やコードブロックに囲まれた回答からJSONを取り出す
+ * - extractCompletedFoods: 受信途中の回答から、届き終えた食品を取り出す
+ * - validateFoodResponse: 必須項目・型・余分な項目を厳密に検証する（違反があればモデルに再回答を求める）
+ */
+
+import { isRiskLevel, RISK_LEVELS } from './risk-level'
+import { ALLERGENS, isAllergen } from './dietary-profile'
+import { isCarbGrams, MAX_FOOD_CARBS_G } from './carbohydrate'
+
+/**
+ * Gemini の responseSchema（OpenAPIのスキーマのサブセット）
+ */
+export const FOOD_RESPONSE_SCHEMA = {
+  type: 'OBJECT',
+  properties: {
+    foods: {
+      type: 'ARRAY',
+      items: {
+        type: 'OBJECT',
+        properties: {
+          name: { type: 'STRING' },
+          level: { type: 'STRING', enum: RISK_LEVELS },
+          confidence: { type: 'NUMBER', minimum: 0, maximum: 1 },
+          details: { type: 'STRING' },
+          // 食物アレルギーを設定した場合のみ求める
+          allergens: { type: 'ARRAY', items: { type: 'STRING', enum: ALLERGENS } },
+          // 持病に妊娠糖尿病を設定した場合のみ求める（1人前のグラム数）
+          carbs_g: { type: 'NUMBER', minimum: 0, maximum: MAX_FOOD_CARBS_G },
+          sugar_g: { type: 'NUMBER', minimum: 0, maximum: MAX_FOOD_CARBS_G },
+          image: { type: 'INTEGER' }
+        },
+        required: ['name', 'level', 'confidence', 'details'],
+        propertyOrdering: ['name', 'level', 'confidence', 'details', 'allergens', 'carbs_g', 'sugar_g', 'image']
+      }
+    }
+  },
+  required: ['foods']
+}
+
+export type ResponseSchemaErrorCode = 'INVALID_JSON' | 'MISSING_FIELD' | 'WRONG_TYPE' | 'EXTRA_KEY' | 'INVALID_VALUE'
+
+/**
+ * スキーマ違反を表すエラー（path は foods[0].level の形式）
+ */
+export class ResponseSchemaError extends Error {
+  constructor(
+    message: string,
+    public readonly code: ResponseSchemaErrorCode,
+    public readonly path: string = ''
+  ) {
+    super(message)
+    this.name = 'ResponseSchemaError'
+  }
+}
+
+export type JsonExtractionResult =
+  | { found: true; value: unknown }
+  | { found: false; error: 'NOT_FOUND' | 'PARSE_ERROR' }
+
+// 文字列中の括弧を数えないように、先頭から対応する閉じ括弧までを返す
+function findBalancedObject(text: string, start: number): string | null {
+  let depth = 0
+  let inString = false
+  for (let i = start; i < text.length; i++) {
+    const char = text[i]
+    if (inString) {
+      if (char === '\\') i++
+      else if (char === '"') inString = false
+    } else if (char === '"') {
+      inString = true
+    } else if (char === '{') {
+      depth++
+    } else if (char === '}' && --depth === 0) {
+      return text.slice(start, i + 1)
+    }
+  }
+  return null
+}
+
+const tryParse = (text: string): { ok: true; value: unknown } | { ok: false } => {
+  try {
+    return { ok: true, value: JSON.parse(text) }
+  } catch {
+    return { ok: false }
+  }
+}
+
+const hasFoods = (value: unknown) => typeof value === 'object' && value !== null && 'foods' in value
+
+/**
+ * 回答からJSONのオブジェクトを取り出す
+ * コードブロック（```json）があればその中身を優先し、複数のオブジェクトがあれば foods を含むものを選ぶ
+ */
+export function extractJson(text: string): JsonExtractionResult {
+  const fenced = text.match(/```(?:json)?\s*\n?([\s\S]*?)```/i)?.[1]
+  const sources = fenced ? [fenced, text] : [text]
+
+  const candidates: unknown[] = []
+  let sawObject = false
+  for (const source of sources) {
+    let index = source.indexOf('{')
+    while (index !== -1) {
+      sawObject = true
+      const candidate = findBalancedObject(source, index)
+      if (!candidate) break
+
+      const parsed = tryParse(candidate)
+      if (parsed.ok) {
+        if (hasFoods(parsed.value)) return { found: true, value: parsed.value }
+        candidates.push(parsed.value)
+        index = source.indexOf('{', index + candidate.length)
+      } else {
+        // 壊れたオブジェクトの内側に有効なものがある場合もあるため、次の括弧から探す
+        index = source.indexOf('{', index + 1)
+      }
+    }
+  }
+
+  if (candidates.length > 0) {
+    return { found: true, value: candidates[0] }
+  }
+  return { found: false, error: sawObject ? 'PARSE_ERROR' : 'NOT_FOUND' }
+}
+
+/**
+ * 受信途中の回答から、閉じ括弧まで届いた foods の要素を取り出す（ストリーミング用）
+ * 途中までの要素や、解析できない要素は含めない
+ */
+export function extractCompletedFoods(text: string): unknown[] {
+  const key = text.match(/"foods"\s*:\s*\[/)
+  if (!key || key.index === undefined) {
+    return []
+  }
+
+  const foods: unknown[] = []
+  let index = key.index + key[0].length
+  for (;;) {
+    while (index < text.length && /[\s,]/.test(text[index])) index++
+    if (text[index] !== '{') break
+
+    const candidate = findBalancedObject(text, index)
+    if (!candidate) break
+
+    const parsed = tryParse(candidate)
+    if (parsed.ok) foods.push(parsed.value)
+    index += candidate.length
+  }
+  return foods
+}
+
+const FOOD_KEYS = ['name', 'level', 'risk', 'confidence', 'details', 'allergens', 'carbs_g', 'sugar_g', 'image']
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+function validateFoodItem(food: unknown, path: string): ResponseSchemaError[] {
+  if (!isObject(food)) {
+    return [new ResponseSchemaError('オブジェクトではありません', 'WRONG_TYPE', path)]
+  }
+
+  const errors: ResponseSchemaError[] = []
+  if (food.name === undefined) {
+    errors.push(new ResponseSchemaError('必須の項目がありません', 'MISSING_FIELD', `${path}.name`))
+  } else if (typeof food.name !== 'string' || food.name.trim() === '') {
+    errors.push(new ResponseSchemaError('空でない文字列ではありません', 'WRONG_TYPE', `${path}.name`))
+  }
+
+  if (food.level === undefined && food.risk === undefined) {
+    errors.push(new ResponseSchemaError('必須の項目がありません', 'MISSING_FIELD', `${path}.level`))
+  } else if (food.level !== undefined && typeof food.level !== 'string') {
+    errors.push(new ResponseSchemaError('文字列ではありません', 'WRONG_TYPE', `${path}.level`))
+  } else if (food.level !== undefined && !isRiskLevel(food.level)) {
+    errors.push(new ResponseSchemaError(`${RISK_LEVELS.join('・')} のいずれかではありません`, 'INVALID_VALUE', `${path}.level`))
+  }
+
+  if (food.risk !== undefined && typeof food.risk !== 'boolean') {
+    errors.push(new ResponseSchemaError('真偽値ではありません', 'WRONG_TYPE', `${path}.risk`))
+  }
+  // confidence に対応していないプロバイダーもあるため、省略は違反としない
+  if (food.confidence !== undefined && !(typeof food.confidence === 'number' && food.confidence >= 0 && food.confidence <= 1)) {
+    errors.push(new ResponseSchemaError('0〜1の数値ではありません', 'WRONG_TYPE', `${path}.confidence`))
+  }
+  if (food.details !== undefined && typeof food.details !== 'string') {
+    errors.push(new ResponseSchemaError('文字列ではありません', 'WRONG_TYPE', `${path}.details`))
+  }
+  if (food.allergens !== undefined && !Array.isArray(food.allergens)) {
+    errors.push(new ResponseSchemaError('配列ではありません', 'WRONG_TYPE', `${path}.allergens`))
+  } else if (Array.isArray(food.allergens) && !food.allergens.every(isAllergen)) {
+    errors.push(new ResponseSchemaError(`${ALLERGENS.join('・')} 以外の値が含まれています`, 'INVALID_VALUE', `${path}.allergens`))
+  }
+  for (const key of ['carbs_g', 'sugar_g'] as const) {
+    if (food[key] !== undefined && !isCarbGrams(food[key])) {
+      errors.push(new ResponseSchemaError(`0〜${MAX_FOOD_CARBS_G}の数値ではありません`, 'WRONG_TYPE', `${path}.${key}`))
+    }
+  }
+  // 糖類は炭水化物の一部のため、炭水化物より多い値は誤り
+  if (isCarbGrams(food.carbs_g) && isCarbGrams(food.sugar_g) && food.sugar_g > food.carbs_g) {
+    errors.push(new ResponseSchemaError('炭水化物（carbs_g）より多くなっています', 'INVALID_VALUE', `${path}.sugar_g`))
+  }
+  if (food.image !== undefined && !(Number.isInteger(food.image) && (food.image as number) >= 1)) {
+    errors.push(new ResponseSchemaError('1以上の整数ではありません', 'WRONG_TYPE', `${path}.image`))
+  }
+
+  for (const key of Object.keys(food)) {
+    if (!FOOD_KEYS.includes(key)) {
+      errors.push(new ResponseSchemaError('定義されていない項目です', 'EXTRA_KEY', `${path}.${key}`))
+    }
+  }
+  return errors
+}
+
+/**
+ * 回答の文字列をスキーマに沿って厳密に検証する
+ */
+export function validateFoodResponse(text: string): { isValid: boolean; errors: ResponseSchemaError[] } {
+  const extraction = extractJson(text)
+  if (!extraction.found) {
+    const message = extraction.error === 'NOT_FOUND' ? 'JSONが見つかりません' : 'JSONとして解析できません'
+    return { isValid: false, errors: [new ResponseSchemaError(message, 'INVALID_JSON')] }
+  }
+
+  const value = extraction.value as Record<string, unknown>
+  const errors: ResponseSchemaError[] = []
+  if (value.foods === undefined) {
+    errors.push(new ResponseSchemaError('必須の項目がありません', 'MISSING_FIELD', 'foods'))
+  } else if (!Array.isArray(value.foods)) {
+    errors.push(new ResponseSchemaError('配列ではありません', 'WRONG_TYPE', 'foods'))
+  } else {
+    value.foods.forEach((food, i) => errors.push(...validateFoodItem(food, `foods[${i}]`)))
+  }
+
+  for (const key of Object.keys(value)) {
+    if (key !== 'foods') {
+      errors.push(new ResponseSchemaError('定義されていない項目です', 'EXTRA_KEY', key))
+    }
+  }
+
+  return { isValid: errors.length === 0, errors }
+}
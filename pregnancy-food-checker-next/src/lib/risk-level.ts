@@ -0,0 +1,25 @@
+/**
+ * 妊娠中の食品リスクの段階
+ * - avoid: 妊娠中は避けるべき
+ * - limit: 量や頻度に注意すれば食べてよい
+ * - caution: 十分に加熱されていれば問題ない
+ * - safe: 特にリスクはない
+ */
+export type RiskLevel = 'avoid' | 'limit' | 'caution' | 'safe'
+
+// 深刻度の高い順
+export const RISK_LEVELS: RiskLevel[] = ['avoid', 'limit', 'caution', 'safe']
+
+export function isRiskLevel(value: unknown): value is RiskLevel {
+  return typeof value === 'string' && (RISK_LEVELS as string[]).includes(value)
+}
+
+/**
+ * 最も深刻なリスク段階を返す（空の場合は safe）
+ */
+export function worstRiskLevel(levels: RiskLevel[]): RiskLevel {
+  return levels.reduce<RiskLevel>(
+    (worst, level) => RISK_LEVELS.indexOf(level) < RISK_LEVELS.indexOf(worst) ? level : worst,
+    'safe'
+  )
+}
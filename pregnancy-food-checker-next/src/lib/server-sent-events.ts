@@ -0,0 +1,94 @@
+/**
+ * Server-Sent Events（text/event-stream）の送受信
+ *
+ * 分析の進み具合を画面に送るストリームと、Gemini のストリーミング応答の読み取りで共通に使う。
+ * 画面からも使うため、サーバー専用のモジュールはimportしない。
+ */
+
+export const EVENT_STREAM_CONTENT_TYPE = 'text/event-stream'
+
+export interface ServerSentEvent {
+  event: string // event: が無い場合は 'message'
+  data: string
+}
+
+/**
+ * 1件のイベントを送信する形式にする（data はJSONにする）
+ */
+export function formatServerSentEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`
+}
+
+/**
+ * レスポンスがイベントストリームかどうか
+ */
+export function isEventStream(headers: { get(name: string): string | null } | undefined): boolean {
+  return headers?.get('Content-Type')?.startsWith(EVENT_STREAM_CONTENT_TYPE) ?? false
+}
+
+/**
+ * 受信済みのテキストから、区切り（空行）まで届いたイベントを取り出す
+ * 末尾の途中までのイベントは rest として返し、続きを受信してから解析する
+ */
+export function parseServerSentEvents(buffer: string): { events: ServerSentEvent[]; rest: string } {
+  const blocks = buffer.replace(/\r\n?/g, '\n').split('\n\n')
+  const rest = blocks.pop() ?? ''
+
+  const events: ServerSentEvent[] = []
+  for (const block of blocks) {
+    let event = 'message'
+    const data: string[] = []
+    for (const line of block.split('\n')) {
+      if (line.startsWith('event:')) {
+        event = line.slice(6).trim()
+      } else if (line.startsWith('data:')) {
+        data.push(line.slice(5).replace(/^ /, ''))
+      }
+    }
+    if (data.length > 0) {
+      events.push({ event, data: data.join('\n') })
+    }
+  }
+  return { events, rest }
+}
+
+/**
+ * イベントストリームを最後まで読み、届いたイベントごとに onEvent を呼ぶ
+ */
+export async function readServerSentEvents(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: ServerSentEvent) => void
+): Promise<void> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  for (;;) {
+    const { done, value } = await reader.read()
+    buffer += done ? decoder.decode() + '\n\n' : decoder.decode(value, { stream: true })
+
+    const parsed = parseServerSentEvents(buffer)
+    parsed.events.forEach(onEvent)
+    buffer = parsed.rest
+    if (done) return
+  }
+}
+
+/**
+ * run の中で送ったイベントを順に流すストリームを作る（run が終わると閉じる）
+ */
+export function createServerSentEventStream(
+  run: (send: (event: string, data: unknown) => void) => Promise<void>
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder()
+
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      try {
+        await run((event, data) => controller.enqueue(encoder.encode(formatServerSentEvent(event, data))))
+      } finally {
+        controller.close()
+      }
+    }
+  })
+}
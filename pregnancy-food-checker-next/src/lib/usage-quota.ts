@@ -0,0 +1,389 @@
+/**
+ * モデルAPIの利用量（リクエスト数・トークン数）の全体上限（サーバー専用）
+ *
+ * クライアントごとのレート制限とは別に、アプリ全体の1日・1か月の利用量を数え、
+ * 上限に達したらモデルを呼ばずに断る。日・月の区切りは日本時間。
+ */
+
+import { createRedisClient, RedisCommandClient } from './redis-client'
+import { VisionProvider, VisionRequest, VisionResponse } from './vision-provider'
+
+export type UsagePeriod = 'day' | 'month'
+
+export interface UsageTotals {
+  requests: number
+  tokens: number
+}
+
+// 1つの期間の上限（未設定の項目は上限なし）
+export interface UsageLimits {
+  requests?: number
+  tokens?: number
+}
+
+export interface UsageCaps {
+  dailyRequests?: number
+  dailyTokens?: number
+  monthlyRequests?: number
+  monthlyTokens?: number
+}
+
+export interface UsageQuotaResult {
+  allowed: boolean
+  period?: UsagePeriod // 上限に達した期間
+  message?: string
+  resetTime?: number // 上限が解除される時刻
+}
+
+/**
+ * モデルAPIの呼び出し1回分の予約
+ * 呼び出し後は commit で使ったトークン数を記録し、呼び出しに失敗した場合は cancel で予約を取り消す
+ */
+export interface UsageReservation extends UsageQuotaResult {
+  commit(tokens: number): Promise<void>
+  cancel(): Promise<void>
+}
+
+export interface UsageReport {
+  day: UsageTotals & { period: string; requestCap: number | null; tokenCap: number | null; resetTime: number }
+  month: UsageTotals & { period: string; requestCap: number | null; tokenCap: number | null; resetTime: number }
+}
+
+/**
+ * 利用量の保存先
+ */
+export interface UsageStore {
+  get(key: string): Promise<UsageTotals>
+  // 加算して加算後の値を返す（ttlMs 後に削除される）
+  add(key: string, usage: UsageTotals, ttlMs: number): Promise<UsageTotals>
+  // どのキーも上限に達していなければ、すべてのキーのリクエスト数を1増やして null を返す（確認と加算は不可分に行う）
+  // 上限に達したキーがあれば、その位置を返す
+  reserve(entries: Array<{ key: string; limits: UsageLimits; ttlMs: number }>): Promise<number | null>
+}
+
+/**
+ * 全体の上限に達したことを表すエラー
+ */
+export class UsageQuotaExceededError extends Error {
+  constructor(message: string, public readonly period: UsagePeriod, public readonly resetTime: number) {
+    super(message)
+    this.name = 'UsageQuotaExceededError'
+  }
+}
+
+const QUOTA_MESSAGES: Record<UsagePeriod, string> = {
+  day: '本日の上限に達しました。明日またお試しください。',
+  month: '今月の上限に達しました。来月またお試しください。'
+}
+
+const JST_OFFSET_MS = 9 * 60 * 60 * 1000
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Geminiは画像1枚を258トークンとして数える
+const TOKENS_PER_IMAGE = 258
+
+/**
+ * 日本時間での日・月の区切りと、次の区切りの時刻を返す
+ */
+export function getUsagePeriods(now: number): Record<UsagePeriod, { id: string; resetTime: number }> {
+  const jst = new Date(now + JST_OFFSET_MS)
+  const year = jst.getUTCFullYear()
+  const month = jst.getUTCMonth()
+  const date = jst.getUTCDate()
+  const pad = (value: number) => String(value).padStart(2, '0')
+
+  return {
+    day: {
+      id: `${year}-${pad(month + 1)}-${pad(date)}`,
+      resetTime: Date.UTC(year, month, date + 1) - JST_OFFSET_MS
+    },
+    month: {
+      id: `${year}-${pad(month + 1)}`,
+      resetTime: Date.UTC(year, month + 1, 1) - JST_OFFSET_MS
+    }
+  }
+}
+
+/**
+ * プロバイダーが使用量を返さない場合のトークン数の概算
+ * 日本語は1文字あたり1トークン前後になるため、文字数をそのまま数える
+ */
+export function estimateTokens(request: VisionRequest, responseText: string): number {
+  return (request.images?.length ?? 0) * TOKENS_PER_IMAGE + request.prompt.length + responseText.length
+}
+
+const reachesLimit = (totals: UsageTotals, limits: UsageLimits) =>
+  (limits.requests !== undefined && totals.requests >= limits.requests)
+  || (limits.tokens !== undefined && totals.tokens >= limits.tokens)
+
+/**
+ * インメモリストア（単一インスタンス・開発環境向け）
+ */
+export function createMemoryUsageStore(): UsageStore {
+  const entries = new Map<string, UsageTotals & { expiresAt: number }>()
+
+  const load = (key: string) => {
+    const entry = entries.get(key)
+    if (entry && entry.expiresAt < Date.now()) {
+      entries.delete(key)
+      return undefined
+    }
+    return entry
+  }
+
+  const add = (key: string, usage: UsageTotals, ttlMs: number) => {
+    const entry = load(key) ?? { requests: 0, tokens: 0, expiresAt: Date.now() + ttlMs }
+    entry.requests += usage.requests
+    entry.tokens += usage.tokens
+    entries.set(key, entry)
+    return { requests: entry.requests, tokens: entry.tokens }
+  }
+
+  return {
+    get: async (key) => {
+      const entry = load(key)
+      return { requests: entry?.requests ?? 0, tokens: entry?.tokens ?? 0 }
+    },
+    add: async (key, usage, ttlMs) => add(key, usage, ttlMs),
+    // 確認から加算までの間に await を挟まないため、同時に呼ばれても上限を超えない
+    reserve: async (reservations) => {
+      const exceeded = reservations.findIndex(({ key, limits }) => reachesLimit(load(key) ?? { requests: 0, tokens: 0 }, limits))
+      if (exceeded >= 0) {
+        return exceeded
+      }
+      reservations.forEach(({ key, ttlMs }) => add(key, { requests: 1, tokens: 0 }, ttlMs))
+      return null
+    }
+  }
+}
+
+// 加算と期限設定を不可分に実行し、[リクエスト数, トークン数] を返す
+const ADD_USAGE_SCRIPT = `
+local requests = redis.call('HINCRBY', KEYS[1], 'requests', ARGV[1])
+local tokens = redis.call('HINCRBY', KEYS[1], 'tokens', ARGV[2])
+if redis.call('PTTL', KEYS[1]) < 0 then
+  redis.call('PEXPIRE', KEYS[1], ARGV[3])
+end
+return {requests, tokens}
+`
+
+// すべてのキーの上限を確認してからリクエスト数を1増やす。ARGV はキーごとに [リクエスト数の上限, トークン数の上限, 期限]（上限なしは -1）
+// 増やした場合は 0、上限に達したキーがあればその位置（1始まり）を返す
+const RESERVE_USAGE_SCRIPT = `
+for i = 1, #KEYS do
+  local requestLimit = tonumber(ARGV[(i - 1) * 3 + 1])
+  local tokenLimit = tonumber(ARGV[(i - 1) * 3 + 2])
+  local state = redis.call('HMGET', KEYS[i], 'requests', 'tokens')
+  local requests = tonumber(state[1]) or 0
+  local tokens = tonumber(state[2]) or 0
+  if (requestLimit >= 0 and requests >= requestLimit) or (tokenLimit >= 0 and tokens >= tokenLimit) then
+    return i
+  end
+end
+for i = 1, #KEYS do
+  redis.call('HINCRBY', KEYS[i], 'requests', 1)
+  if redis.call('PTTL', KEYS[i]) < 0 then
+    redis.call('PEXPIRE', KEYS[i], ARGV[(i - 1) * 3 + 3])
+  end
+end
+return 0
+`
+
+/**
+ * Redisをストアとして使う（複数インスタンスで利用量を共有する）
+ */
+export function createRedisUsageStore(client: RedisCommandClient): UsageStore {
+  const toTotals = (reply: unknown): UsageTotals => {
+    if (!Array.isArray(reply)) {
+      throw new Error('Redisから不正な応答を受け取りました')
+    }
+    return { requests: Number(reply[0] ?? 0), tokens: Number(reply[1] ?? 0) }
+  }
+
+  return {
+    get: async (key) => toTotals(await client.sendCommand(['HMGET', key, 'requests', 'tokens'])),
+    add: async (key, usage, ttlMs) => toTotals(await client.sendCommand([
+      'EVAL', ADD_USAGE_SCRIPT, '1', key, String(usage.requests), String(usage.tokens), String(ttlMs)
+    ])),
+    reserve: async (entries) => {
+      const reply = await client.sendCommand([
+        'EVAL', RESERVE_USAGE_SCRIPT, String(entries.length),
+        ...entries.map(({ key }) => key),
+        ...entries.flatMap(({ limits, ttlMs }) => [String(limits.requests ?? -1), String(limits.tokens ?? -1), String(ttlMs)])
+      ])
+      if (typeof reply !== 'number') {
+        throw new Error('Redisから不正な応答を受け取りました')
+      }
+      return reply === 0 ? null : reply - 1
+    }
+  }
+}
+
+/**
+ * 環境変数に応じたストアを返す（RATE_LIMIT_REDIS_URL があればレート制限と同じRedisを使う）
+ */
+export function getUsageStore(env: Record<string, string | undefined> = process.env): UsageStore {
+  if (env.RATE_LIMIT_REDIS_URL) {
+    return createRedisUsageStore(createRedisClient(env.RATE_LIMIT_REDIS_URL))
+  }
+  return createMemoryUsageStore()
+}
+
+/**
+ * 環境変数から上限を読み取る（未設定・不正な値の項目は上限なし）
+ */
+export function getUsageCaps(env: Record<string, string | undefined> = process.env): UsageCaps {
+  const parse = (value: string | undefined) => {
+    const number = Number(value)
+    return value && Number.isInteger(number) && number >= 0 ? number : undefined
+  }
+  return {
+    dailyRequests: parse(env.USAGE_DAILY_REQUEST_LIMIT),
+    dailyTokens: parse(env.USAGE_DAILY_TOKEN_LIMIT),
+    monthlyRequests: parse(env.USAGE_MONTHLY_REQUEST_LIMIT),
+    monthlyTokens: parse(env.USAGE_MONTHLY_TOKEN_LIMIT)
+  }
+}
+
+// 月の上限のほうが解除まで長いので先に確認する
+const QUOTA_CHECK_ORDER: UsagePeriod[] = ['month', 'day']
+
+const exceededResult = (period: UsagePeriod, resetTime: number): UsageQuotaResult =>
+  ({ allowed: false, period, message: QUOTA_MESSAGES[period], resetTime })
+
+// 区切りを過ぎても管理画面で前日分を確認できるよう、1日余分に残す
+const retentionOf = (resetTime: number, now: number) => resetTime - now + DAY_MS
+
+export function createUsageQuota(config: { store: UsageStore; caps: UsageCaps; prefix?: string }) {
+  const { store, caps } = config
+  const prefix = config.prefix ?? 'usage'
+  const limits: Record<UsagePeriod, UsageLimits> = {
+    day: { requests: caps.dailyRequests, tokens: caps.dailyTokens },
+    month: { requests: caps.monthlyRequests, tokens: caps.monthlyTokens }
+  }
+  const keyOf = (period: UsagePeriod, id: string) => `${prefix}:${period}:${id}`
+
+  const readUsage = async (now: number) => {
+    const periods = getUsagePeriods(now)
+    const [day, month] = await Promise.all([
+      store.get(keyOf('day', periods.day.id)),
+      store.get(keyOf('month', periods.month.id))
+    ])
+    return { periods, totals: { day, month } }
+  }
+
+  return {
+    /**
+     * 上限に達していないかを確認する（ストアに接続できない場合は許可する）
+     */
+    check: async (): Promise<UsageQuotaResult> => {
+      let usage: Awaited<ReturnType<typeof readUsage>>
+      try {
+        usage = await readUsage(Date.now())
+      } catch (error) {
+        // ストアに接続できない間は、クライアントごとのレート制限だけで受け付ける
+        console.error('利用量の取得に失敗しました:', error)
+        return { allowed: true }
+      }
+      const { periods, totals } = usage
+
+      const exceeded = QUOTA_CHECK_ORDER.find(period => reachesLimit(totals[period], limits[period]))
+      return exceeded ? exceededResult(exceeded, periods[exceeded].resetTime) : { allowed: true }
+    },
+
+    /**
+     * モデルAPIの呼び出し1回分を予約する
+     * 上限の確認とリクエスト数の加算を不可分に行うため、同時に呼ばれても上限を超えて呼び出さない
+     * ストアに接続できない場合は、予約せずに許可する（commit で利用量をまとめて記録し直す）
+     */
+    reserve: async (): Promise<UsageReservation> => {
+      const now = Date.now()
+      const periods = getUsagePeriods(now)
+      const entries = QUOTA_CHECK_ORDER.map(period => ({
+        key: keyOf(period, periods[period].id),
+        limits: limits[period],
+        ttlMs: retentionOf(periods[period].resetTime, now)
+      }))
+
+      let reserved = false
+      try {
+        const exceeded = await store.reserve(entries)
+        if (exceeded !== null) {
+          const period = QUOTA_CHECK_ORDER[exceeded]
+          return { ...exceededResult(period, periods[period].resetTime), commit: async () => {}, cancel: async () => {} }
+        }
+        reserved = true
+      } catch (error) {
+        console.error('利用量の予約に失敗しました:', error)
+      }
+
+      // 予約した時点の日・月に記録する（呼び出し中に日付が変わっても予約と同じキーを使う）
+      const addAll = async (usage: UsageTotals) => {
+        await Promise.all(entries.map(({ key, ttlMs }) => store.add(key, usage, ttlMs)))
+      }
+      return {
+        allowed: true,
+        commit: (tokens) => addAll({ requests: reserved ? 0 : 1, tokens: Math.max(0, Math.round(tokens)) }),
+        cancel: async () => {
+          if (reserved) {
+            await addAll({ requests: -1, tokens: 0 })
+          }
+        }
+      }
+    },
+
+    /**
+     * 管理画面向けに現在の利用量と上限を返す
+     */
+    getUsage: async (): Promise<UsageReport> => {
+      const { periods, totals } = await readUsage(Date.now())
+      const report = (period: UsagePeriod) => ({
+        period: periods[period].id,
+        ...totals[period],
+        requestCap: limits[period].requests ?? null,
+        tokenCap: limits[period].tokens ?? null,
+        resetTime: periods[period].resetTime
+      })
+      return { day: report('day'), month: report('month') }
+    }
+  }
+}
+
+export type UsageQuota = ReturnType<typeof createUsageQuota>
+
+/**
+ * モデルの呼び出しごとに上限を確認して1回分を予約し、利用量を記録するプロバイダーを返す
+ * リトライも1回の呼び出しとして数える。呼び出しに失敗した場合は予約を取り消す
+ */
+export function withUsageQuota(provider: VisionProvider, quota: UsageQuota): VisionProvider {
+  const metered = async (request: VisionRequest, call: () => Promise<VisionResponse>): Promise<VisionResponse> => {
+    const reservation = await quota.reserve()
+    if (!reservation.allowed) {
+      throw new UsageQuotaExceededError(reservation.message!, reservation.period!, reservation.resetTime!)
+    }
+
+    let response: VisionResponse
+    try {
+      response = await call()
+    } catch (error) {
+      await reservation.cancel().catch(cancelError => console.error('利用量の予約の取り消しに失敗しました:', cancelError))
+      throw error
+    }
+    try {
+      await reservation.commit(response.usage?.totalTokens ?? estimateTokens(request, response.text))
+    } catch (error) {
+      // 記録に失敗しても、取得済みの結果は返す
+      console.error('利用量の記録に失敗しました:', error)
+    }
+    return response
+  }
+
+  const { analyzeStream } = provider
+  return {
+    ...provider,
+    analyze: (request) => metered(request, () => provider.analyze(request)),
+    ...(analyzeStream ? {
+      analyzeStream: (request, onText) => metered(request, () => analyzeStream(request, onText))
+    } : {})
+  }
+}
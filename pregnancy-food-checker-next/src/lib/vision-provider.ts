@@ -0,0 +1,281 @@
+import { readServerSentEvents } from './server-sent-events'
+
+/**
+ * 画像解析モデル（Vision API）のプロバイダー抽象化
+ *
+ * VISION_PROVIDER 環境変数で切り替える:
+ * - gemini（デフォルト）: Google Gemini API
+ * - openai: OpenAI互換の Chat Completions API（ローカルLLMサーバーも可）
+ * - mock: ネットワークを使わない固定レスポンス（テスト・ステージング用）
+ */
+
+export interface VisionRequest {
+  images?: string[] // data:image/...;base64,... 形式。送信順に1枚目、2枚目…として扱う（テキストのみの分析では省略）
+  prompt: string
+  responseSchema?: Record<string, unknown> // 回答のJSONのスキーマ（構造化出力に対応したプロバイダーのみ使用）
+}
+
+export interface VisionResponse {
+  text: string
+  usage?: { totalTokens: number } // モデルが報告した使用トークン数（報告しないプロバイダーでは省略）
+}
+
+export interface VisionProvider {
+  name: string
+  label: string // ユーザー向けメッセージに表示する名前
+  supportedImageTypes: string[]
+  getConfigError(): string | null
+  analyze(request: VisionRequest): Promise<VisionResponse>
+  // 回答を受信しながら onText に受信済みのテキスト全体を渡す（ストリーミングに対応したプロバイダーのみ）
+  analyzeStream?(request: VisionRequest, onText: (text: string) => void): Promise<VisionResponse>
+}
+
+export type VisionProviderErrorCode = 'HTTP_ERROR' | 'NO_CANDIDATES' | 'NO_TEXT'
+
+/**
+ * プロバイダー呼び出しの失敗を表すエラー
+ */
+export class VisionProviderError extends Error {
+  constructor(
+    message: string,
+    public readonly code: VisionProviderErrorCode,
+    public readonly status?: number,
+    public readonly details: string = ''
+  ) {
+    super(message)
+    this.name = 'VisionProviderError'
+  }
+}
+
+type Env = Record<string, string | undefined>
+
+const DEFAULT_GEMINI_MODEL = 'gemini-1.5-flash'
+const DEFAULT_OPENAI_BASE_URL = 'https://api.openai.com/v1'
+const DEFAULT_OPENAI_MODEL = 'gpt-4o-mini'
+
+// HEIC/HEIF（iPhoneの標準形式）はGeminiのみが直接受け付ける
+const COMMON_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp']
+const HEIF_IMAGE_TYPES = ['image/heic', 'image/heif']
+
+const DEFAULT_MOCK_RESPONSE = JSON.stringify({
+  foods: [
+    { name: '白米', level: 'safe', confidence: 0.95, details: '' },
+    { name: '焼き魚', level: 'safe', confidence: 0.9, details: '' }
+  ]
+})
+
+// レスポンスに含まれる使用トークン数（数値でなければ省略）
+const toUsage = (totalTokens: unknown): Pick<VisionResponse, 'usage'> =>
+  typeof totalTokens === 'number' && Number.isFinite(totalTokens) ? { usage: { totalTokens } } : {}
+
+export function createGeminiProvider(env: Env = process.env): VisionProvider {
+  // generateContent と streamGenerateContent（SSE形式）で共通のリクエスト
+  const post = async (method: 'generateContent' | 'streamGenerateContent', { images = [], prompt, responseSchema }: VisionRequest) => {
+    const model = env.GEMINI_MODEL || DEFAULT_GEMINI_MODEL
+    const query = method === 'streamGenerateContent' ? 'alt=sse&' : ''
+
+    const parts: Array<Record<string, unknown>> = [{ text: prompt }]
+    for (const imageData of images) {
+      const [header, imageB64] = imageData.split(',')
+      parts.push({
+        inline_data: {
+          mime_type: header.match(/^data:([^;]+)/)?.[1] || 'image/jpeg',
+          data: imageB64
+        }
+      })
+    }
+
+    const requestBody = {
+      contents: [
+        {
+          parts
+        }
+      ],
+      // スキーマを指定した場合は、JSONのみを返す構造化出力にする
+      ...(responseSchema ? {
+        generationConfig: {
+          responseMimeType: 'application/json',
+          responseSchema
+        }
+      } : {})
+    }
+
+    const response = await fetch(
+      `https://generativelanguage.googleapis.com/v1beta/models/${model}:${method}?${query}key=${env.GEMINI_API_KEY}`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(requestBody)
+      }
+    )
+
+    if (!response.ok) {
+      const errorText = await response.text()
+      throw new VisionProviderError(`Gemini API error: ${response.status} - ${errorText}`, 'HTTP_ERROR', response.status)
+    }
+    return response
+  }
+
+  return {
+    name: 'gemini',
+    label: 'Gemini',
+    supportedImageTypes: [...COMMON_IMAGE_TYPES, ...HEIF_IMAGE_TYPES],
+    getConfigError: () => env.GEMINI_API_KEY ? null : 'Gemini APIキーが設定されていません',
+    analyze: async (request) => {
+      const data = await (await post('generateContent', request)).json()
+
+      if (!data.candidates || data.candidates.length === 0) {
+        throw new VisionProviderError('No candidates', 'NO_CANDIDATES', undefined, JSON.stringify(data))
+      }
+
+      const text = data.candidates[0]?.content?.parts?.[0]?.text || ''
+      if (!text) {
+        throw new VisionProviderError('No text', 'NO_TEXT', undefined, JSON.stringify(data.candidates[0]))
+      }
+
+      return { text, ...toUsage(data.usageMetadata?.totalTokenCount) }
+    },
+    // 回答は候補のテキストを少しずつ含むチャンクに分かれて届く（使用トークン数は最後のチャンクに含まれる）
+    analyzeStream: async (request, onText) => {
+      const response = await post('streamGenerateContent', request)
+      if (!response.body) {
+        throw new VisionProviderError('No stream body', 'NO_CANDIDATES')
+      }
+
+      let text = ''
+      let lastChunk: Record<string, unknown> | null = null
+      let totalTokens: unknown
+      await readServerSentEvents(response.body, ({ data }) => {
+        let chunk
+        try {
+          chunk = JSON.parse(data)
+        } catch {
+          return
+        }
+        lastChunk = chunk
+        totalTokens = chunk.usageMetadata?.totalTokenCount ?? totalTokens
+        const chunkText = chunk.candidates?.[0]?.content?.parts?.[0]?.text
+        if (typeof chunkText === 'string' && chunkText) {
+          text += chunkText
+          onText(text)
+        }
+      })
+
+      if (!lastChunk) {
+        throw new VisionProviderError('No candidates', 'NO_CANDIDATES', undefined, '')
+      }
+      if (!text) {
+        throw new VisionProviderError('No text', 'NO_TEXT', undefined, JSON.stringify(lastChunk))
+      }
+      return { text, ...toUsage(totalTokens) }
+    }
+  }
+}
+
+export function createOpenAICompatibleProvider(env: Env = process.env): VisionProvider {
+  const baseUrl = (env.OPENAI_BASE_URL || DEFAULT_OPENAI_BASE_URL).replace(/\/+$/, '')
+
+  return {
+    name: 'openai',
+    label: 'OpenAI互換API',
+    supportedImageTypes: COMMON_IMAGE_TYPES,
+    // ローカルサーバー（OPENAI_BASE_URL指定時）はAPIキー不要な場合がある
+    getConfigError: () => env.OPENAI_API_KEY || env.OPENAI_BASE_URL ? null : 'OpenAI互換APIキーが設定されていません',
+    analyze: async ({ images = [], prompt }) => {
+      const headers: Record<string, string> = {
+        'Content-Type': 'application/json',
+      }
+      if (env.OPENAI_API_KEY) {
+        headers.Authorization = `Bearer ${env.OPENAI_API_KEY}`
+      }
+
+      const content: Array<Record<string, unknown>> = [{ type: 'text', text: prompt }]
+      for (const imageData of images) {
+        content.push({ type: 'image_url', image_url: { url: imageData } })
+      }
+
+      const requestBody = {
+        model: env.OPENAI_MODEL || DEFAULT_OPENAI_MODEL,
+        messages: [
+          {
+            role: 'user',
+            content
+          }
+        ]
+      }
+
+      const response = await fetch(`${baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(requestBody)
+      })
+
+      if (!response.ok) {
+        const errorText = await response.text()
+        throw new VisionProviderError(`OpenAI-compatible API error: ${response.status} - ${errorText}`, 'HTTP_ERROR', response.status)
+      }
+
+      const data = await response.json()
+
+      if (!data.choices || data.choices.length === 0) {
+        throw new VisionProviderError('No choices', 'NO_CANDIDATES', undefined, JSON.stringify(data))
+      }
+
+      const text = data.choices[0]?.message?.content || ''
+      if (!text) {
+        throw new VisionProviderError('No text', 'NO_TEXT', undefined, JSON.stringify(data.choices[0]))
+      }
+
+      return { text, ...toUsage(data.usage?.total_tokens) }
+    }
+  }
+}
+
+export function createMockProvider(env: Env = process.env): VisionProvider {
+  return {
+    name: 'mock',
+    label: 'モック',
+    supportedImageTypes: [...COMMON_IMAGE_TYPES, ...HEIF_IMAGE_TYPES],
+    getConfigError: () => null,
+    analyze: async () => {
+      const delay = Number(env.MOCK_VISION_DELAY_MS) || 0
+      if (delay > 0) {
+        await new Promise(resolve => setTimeout(resolve, delay))
+      }
+      return { text: env.MOCK_VISION_RESPONSE || DEFAULT_MOCK_RESPONSE }
+    }
+  }
+}
+
+const providerFactories: Record<string, (env: Env) => VisionProvider> = {
+  gemini: createGeminiProvider,
+  openai: createOpenAICompatibleProvider,
+  mock: createMockProvider
+}
+
+/**
+ * data URL のうち、プロバイダーが受け付けない形式のものを返す（すべて対応していれば null）
+ */
+export function findUnsupportedImageType(provider: VisionProvider, images: string[]): string | null {
+  for (const image of images) {
+    const mimeType = image.match(/^data:([^;,]+)/)?.[1] ?? ''
+    if (!provider.supportedImageTypes.includes(mimeType)) {
+      return mimeType
+    }
+  }
+  return null
+}
+
+/**
+ * 環境変数の設定に応じたプロバイダーを返す
+ */
+export function getVisionProvider(env: Env = process.env): VisionProvider {
+  const name = (env.VISION_PROVIDER || 'gemini').toLowerCase()
+  const factory = providerFactories[name]
+  if (!factory) {
+    throw new Error(`未対応のVISION_PROVIDERです: ${name}`)
+  }
+  return factory(env)
+}